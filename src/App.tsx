@@ -12,12 +12,14 @@ import {
 import { $settings, loadSettings } from "@stores/settingsStore";
 import { loadStoredModels } from "@stores/modelsStore";
 import { loadDefaults } from "@stores/defaultsStore";
+import { loadDailySpend } from "@stores/budgetStore";
 import { pruneSoloModels } from "@stores/uiStore";
 import SessionView from "./features/session/SessionView";
 import ModelsView from "./features/models/ModelsView";
 import StatsView from "./features/stats/StatsView";
 import DefaultsView from "./features/defaults/DefaultsView";
 import HistoryView from "./features/history/HistoryView";
+import SuitesView from "./features/suites/SuitesView";
 import { $headerCenter, $headerRightActions } from "@stores/headerStore";
 import VerificationDialog from "@components/VerificationDialog";
 import Notifications from "@components/Notifications";
@@ -35,6 +37,7 @@ function App() {
       await loadDefaults();
       await ensureSessionLoaded();
       await loadHistory();
+      await loadDailySpend();
     })();
   }, []);
 
@@ -78,6 +81,13 @@ function App() {
             >
               History
             </Button>
+            <Button
+              variant={activeView === "suites" ? "default" : "secondary"}
+              onClick={() => setActiveView("suites")}
+              type="button"
+            >
+              Suites
+            </Button>
             <Button
               variant={activeView === "stats" ? "default" : "secondary"}
               onClick={() => setActiveView("stats")}
@@ -129,6 +139,11 @@ function App() {
             <HistoryView />
           </ErrorBoundary>
         )}
+        {activeView === "suites" && (
+          <ErrorBoundary>
+            <SuitesView />
+          </ErrorBoundary>
+        )}
         {activeView === "stats" && (
           <ErrorBoundary>
             <StatsView />
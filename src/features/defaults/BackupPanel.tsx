@@ -0,0 +1,174 @@
+import { useRef, useState } from "react";
+import { useStore } from "@nanostores/react";
+import styles from "./DefaultsView.module.scss";
+import { Button } from "@components/ui/button";
+import { Checkbox } from "@components/ui/checkbox";
+import {
+  $backupStatus,
+  $lastRestoreReport,
+  downloadBackup,
+  restoreBackupFromFile,
+} from "@stores/backupStore";
+import type { BackupRestoreMode, BackupStoreKey } from "../../lib/backup";
+import { Download, Upload } from "lucide-react";
+
+const STORE_LABELS: Record<BackupStoreKey, string> = {
+  settings: "Settings",
+  models: "Models",
+  defaults: "Defaults",
+  sessions: "Sessions",
+  messages: "Messages",
+  stats: "Stats",
+  images: "Images",
+  streams: "Stream recordings",
+  ratings: "Ratings",
+  suites: "Suites",
+  usage: "Usage records",
+};
+
+export default function BackupPanel() {
+  const status = useStore($backupStatus);
+  const report = useStore($lastRestoreReport);
+  const [includeApiKeys, setIncludeApiKeys] = useState(false);
+  const [mode, setMode] = useState<BackupRestoreMode>("merge");
+  const [backupFirst, setBackupFirst] = useState(true);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleRestore = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    if (
+      mode === "replace" &&
+      !confirm(
+        "Replace deletes all sessions, images and settings in this browser before restoring. Continue?",
+      )
+    ) {
+      return;
+    }
+    if (mode === "replace" && backupFirst) {
+      const saved = await downloadBackup({ includeApiKeys: true });
+      if (!saved) return;
+    }
+    await restoreBackupFromFile(file, mode);
+  };
+
+  return (
+    <div className={styles.panel}>
+      <h3>Backup &amp; Restore</h3>
+      <p className="text-xs text-[var(--muted)]">
+        Download everything stored in this browser (settings, models, defaults,
+        sessions, images, stats, ratings and suites) as one ZIP, or restore such
+        a ZIP here or on another machine.
+      </p>
+      <div className={styles.formActions}>
+        <label className="flex items-center gap-2">
+          <Checkbox
+            checked={includeApiKeys}
+            onCheckedChange={(value) => setIncludeApiKeys(Boolean(value))}
+          />
+          <span className="text-xs text-[var(--muted)]">Include API keys</span>
+        </label>
+        <Button
+          type="button"
+          variant="secondary"
+          onClick={() => void downloadBackup({ includeApiKeys })}
+          disabled={status !== "idle"}
+        >
+          <Download size={16} />
+          {status === "exporting" ? "Preparing..." : "Download backup"}
+        </Button>
+      </div>
+
+      <div className={styles.formActions}>
+        <Button
+          type="button"
+          size="sm"
+          variant={mode === "merge" ? "default" : "outline"}
+          onClick={() => setMode("merge")}
+        >
+          Merge
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          variant={mode === "replace" ? "default" : "outline"}
+          onClick={() => setMode("replace")}
+        >
+          Replace
+        </Button>
+        {mode === "replace" && (
+          <label className="flex items-center gap-2">
+            <Checkbox
+              checked={backupFirst}
+              onCheckedChange={(value) => setBackupFirst(Boolean(value))}
+            />
+            <span className="text-xs text-[var(--muted)]">
+              Download current data first
+            </span>
+          </label>
+        )}
+        <Button
+          type="button"
+          variant="secondary"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={status !== "idle"}
+        >
+          <Upload size={16} />
+          {status === "restoring" ? "Restoring..." : "Restore from file"}
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".zip,application/zip"
+          hidden
+          onChange={(event) => void handleRestore(event)}
+        />
+      </div>
+      <p className="text-xs text-[var(--muted)]">
+        {mode === "merge"
+          ? "Merge adds records that don't exist yet; anything already here is kept and counted as a conflict."
+          : "Replace clears this browser's data and restores the backup as-is. API keys missing from the backup are kept from this browser."}
+      </p>
+
+      {report && (
+        <div className={styles.backupReport}>
+          <span className="text-xs text-[var(--muted)]">
+            Last restore ({report.mode})
+          </span>
+          <table>
+            <thead>
+              <tr>
+                <th>Store</th>
+                <th>Restored</th>
+                {report.mode === "merge" && <th>Conflicts</th>}
+              </tr>
+            </thead>
+            <tbody>
+              {(Object.keys(STORE_LABELS) as BackupStoreKey[]).map((key) => (
+                <tr key={key}>
+                  <td>{STORE_LABELS[key]}</td>
+                  <td>{report.restored[key]}</td>
+                  {report.mode === "merge" && <td>{report.conflicts[key]}</td>}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {report.missingFiles > 0 && (
+            <p className="text-xs text-[var(--danger)]">
+              {report.missingFiles} files listed in the backup were missing from
+              the ZIP.
+            </p>
+          )}
+          {report.conflictDetails.length > 0 && (
+            <ul className="text-xs text-[var(--muted)]">
+              {report.conflictDetails.map((detail, index) => (
+                <li key={index}>{detail}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
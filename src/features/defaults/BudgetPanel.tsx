@@ -0,0 +1,73 @@
+import { useStore } from "@nanostores/react";
+import styles from "./DefaultsView.module.scss";
+import { Input } from "@components/ui/input";
+import { $settings, updateBudgetSettings } from "@stores/settingsStore";
+import { $dailySpend } from "@stores/budgetStore";
+import { $activeSession } from "@stores/sessionsStore";
+import { localDayKey } from "../../lib/budget";
+
+function parseCap(value: string): number | null {
+  if (!value.trim()) return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+}
+
+export default function BudgetPanel() {
+  const settings = useStore($settings);
+  const dailySpend = useStore($dailySpend);
+  const session = useStore($activeSession).session;
+  const budget = settings.budget;
+  const today = dailySpend.day === localDayKey() ? dailySpend.total : 0;
+
+  return (
+    <div className={styles.panel}>
+      <h3>Budget</h3>
+      <p className="text-xs text-[var(--muted)]">
+        Sends whose estimate would go over a cap are blocked, and running
+        requests are aborted once a cap is used up. Leave a field empty for no
+        cap. Estimates are rough: they assume a typical answer length and one
+        output image for image models.
+      </p>
+      <div className={styles.formRow}>
+        <label htmlFor="budget-session" className="text-xs text-[var(--muted)]">
+          Per-session cap (USD)
+        </label>
+        <Input
+          id="budget-session"
+          type="number"
+          min={0}
+          step={0.01}
+          value={budget?.sessionCapUsd ?? ""}
+          onChange={(event) =>
+            void updateBudgetSettings({
+              sessionCapUsd: parseCap(event.target.value),
+            })
+          }
+          placeholder="No cap"
+        />
+      </div>
+      <div className={styles.formRow}>
+        <label htmlFor="budget-daily" className="text-xs text-[var(--muted)]">
+          Per-day cap (USD)
+        </label>
+        <Input
+          id="budget-daily"
+          type="number"
+          min={0}
+          step={0.01}
+          value={budget?.dailyCapUsd ?? ""}
+          onChange={(event) =>
+            void updateBudgetSettings({
+              dailyCapUsd: parseCap(event.target.value),
+            })
+          }
+          placeholder="No cap"
+        />
+      </div>
+      <p className="text-xs text-[var(--muted)]">
+        Spent today: ${today.toFixed(4)}
+        {session ? ` · this session: $${session.totalCost.toFixed(4)}` : ""}
+      </p>
+    </div>
+  );
+}
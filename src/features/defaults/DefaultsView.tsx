@@ -14,7 +14,7 @@ import {
   updateDefault,
   deleteDefault,
 } from "@stores/defaultsStore";
-import type { DefaultEntry } from "../../types/db";
+import type { DefaultEntry, ErrorKind, RetryPolicy } from "../../types/db";
 import type {
   GeminiImageSize,
   ImageAspectRatio,
@@ -24,6 +24,19 @@ import { setHeaderRightActions, type HeaderAction } from "@stores/headerStore";
 import { $models } from "@stores/modelsStore";
 import type { OpenRouterModel } from "../../types/openrouter";
 import { getModelsMatchingFilter, tryCompileModelFilter } from "./modelFilter";
+import BackupPanel from "./BackupPanel";
+import JudgePanel from "./JudgePanel";
+import BudgetPanel from "./BudgetPanel";
+import SchedulerPanel from "./SchedulerPanel";
+import { ERROR_KIND_LABELS } from "../../lib/errors";
+import { DEFAULT_RETRY_POLICY, RETRYABLE_ERROR_KINDS } from "../../lib/retry";
+
+function splitList(value: string) {
+  return value
+    .split(/[\s,]+/)
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
 
 function DefaultEntryForm({
   entry,
@@ -88,8 +101,40 @@ function DefaultEntryForm({
   const [imageSizeSet, setImageSizeSet] = useState(
     entry?.imageSizeSet ?? false,
   );
+  const [retryPolicy, setRetryPolicy] = useState<RetryPolicy>(
+    entry?.retryPolicy ?? DEFAULT_RETRY_POLICY,
+  );
+  const [retryPolicySet, setRetryPolicySet] = useState(
+    entry?.retryPolicySet ?? false,
+  );
+  const [fallbackModels, setFallbackModels] = useState(
+    entry?.retryPolicy?.fallbackModels?.join(", ") ?? "",
+  );
+  const [providerOrder, setProviderOrder] = useState(
+    entry?.retryPolicy?.providerOrder?.join(", ") ?? "",
+  );
   const [filterError, setFilterError] = useState<string | null>(null);
 
+  const updateRetryNumber = (
+    key: "maxAttempts" | "baseDelayMs" | "maxDelayMs",
+    value: string,
+  ) => {
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed) || parsed < (key === "maxAttempts" ? 1 : 0)) {
+      return;
+    }
+    setRetryPolicy((prev) => ({ ...prev, [key]: Math.round(parsed) }));
+  };
+
+  const toggleRetryKind = (kind: ErrorKind, enabled: boolean) => {
+    setRetryPolicy((prev) => ({
+      ...prev,
+      retryKinds: enabled
+        ? [...prev.retryKinds.filter((item) => item !== kind), kind]
+        : prev.retryKinds.filter((item) => item !== kind),
+    }));
+  };
+
   const matchingModels = useMemo(() => {
     const filter = modelFilter.trim();
     if (!filter) return models;
@@ -144,6 +189,18 @@ function DefaultEntryForm({
       imageAspectRatioSet,
       imageSize: imageSizeSet ? imageSize : undefined,
       imageSizeSet,
+      retryPolicy: retryPolicySet
+        ? {
+            ...retryPolicy,
+            maxDelayMs: Math.max(
+              retryPolicy.maxDelayMs,
+              retryPolicy.baseDelayMs,
+            ),
+            fallbackModels: splitList(fallbackModels),
+            providerOrder: splitList(providerOrder),
+          }
+        : undefined,
+      retryPolicySet,
     });
   };
 
@@ -456,6 +513,89 @@ function DefaultEntryForm({
           Sent as `image_config.image_size` (Gemini only).
         </p>
       </div>
+      <div
+        className={`${styles.formRow} ${styles.formFieldGroup} ${
+          !retryPolicySet ? styles.disabled : ""
+        }`}
+      >
+        <label className="flex items-center gap-2">
+          <Checkbox
+            checked={retryPolicySet}
+            onCheckedChange={(value) => setRetryPolicySet(Boolean(value))}
+          />
+          <span className="text-xs text-[var(--muted)]">Retry policy</span>
+        </label>
+        {retryPolicySet && (
+          <div className="ml-6 flex flex-col gap-2">
+            <div className="flex flex-wrap items-center gap-2 text-xs text-[var(--muted)]">
+              <span>Attempts</span>
+              <Input
+                type="number"
+                value={retryPolicy.maxAttempts}
+                onChange={(e) =>
+                  updateRetryNumber("maxAttempts", e.target.value)
+                }
+                min={1}
+                step={1}
+                className="w-16"
+              />
+              <span>Base delay (ms)</span>
+              <Input
+                type="number"
+                value={retryPolicy.baseDelayMs}
+                onChange={(e) =>
+                  updateRetryNumber("baseDelayMs", e.target.value)
+                }
+                min={0}
+                step={100}
+                className="w-24"
+              />
+              <span>Max delay (ms)</span>
+              <Input
+                type="number"
+                value={retryPolicy.maxDelayMs}
+                onChange={(e) =>
+                  updateRetryNumber("maxDelayMs", e.target.value)
+                }
+                min={0}
+                step={100}
+                className="w-24"
+              />
+            </div>
+            <div className="flex flex-wrap gap-3">
+              {RETRYABLE_ERROR_KINDS.map((kind) => (
+                <label key={kind} className="flex items-center gap-2">
+                  <Checkbox
+                    checked={retryPolicy.retryKinds.includes(kind)}
+                    onCheckedChange={(value) =>
+                      toggleRetryKind(kind, Boolean(value))
+                    }
+                  />
+                  <span className="text-xs text-[var(--muted)]">
+                    {ERROR_KIND_LABELS[kind]}
+                  </span>
+                </label>
+              ))}
+            </div>
+            <Input
+              value={fallbackModels}
+              onChange={(e) => setFallbackModels(e.target.value)}
+              placeholder="Fallback models, e.g. google/gemini-2.5-flash-image"
+            />
+            <Input
+              value={providerOrder}
+              onChange={(e) => setProviderOrder(e.target.value)}
+              placeholder="Provider order, e.g. google-vertex, google-ai-studio"
+            />
+          </div>
+        )}
+        <p className="text-xs text-[var(--muted)] ml-6">
+          Failed requests are re-sent with jittered exponential backoff, waiting
+          at least as long as a `Retry-After` header. Not re-sent once output
+          has arrived. Fallback models and provider order are passed to
+          OpenRouter as `models` and `provider.order`.
+        </p>
+      </div>
       <div className={styles.formActions}>
         <Button type="button" onClick={handleSave} disabled={!!filterError}>
           <Save size={16} />
@@ -681,11 +821,36 @@ export default function DefaultsView() {
                     </span>
                   </div>
                 )}
+                {entry.retryPolicySet && entry.retryPolicy && (
+                  <div className={styles.formRow}>
+                    <span className="text-xs text-[var(--muted)]">
+                      Retry Policy: {entry.retryPolicy.maxAttempts} attempts,{" "}
+                      {entry.retryPolicy.baseDelayMs}-
+                      {entry.retryPolicy.maxDelayMs}ms on{" "}
+                      {entry.retryPolicy.retryKinds.length > 0
+                        ? entry.retryPolicy.retryKinds
+                            .map((kind) => ERROR_KIND_LABELS[kind])
+                            .join(", ")
+                        : "nothing"}
+                      {entry.retryPolicy.fallbackModels?.length
+                        ? ` · fallback ${entry.retryPolicy.fallbackModels.join(", ")}`
+                        : ""}
+                      {entry.retryPolicy.providerOrder?.length
+                        ? ` · providers ${entry.retryPolicy.providerOrder.join(", ")}`
+                        : ""}
+                    </span>
+                  </div>
+                )}
               </div>
             );
           })}
         </div>
       </div>
+
+      <BudgetPanel />
+      <SchedulerPanel />
+      <JudgePanel />
+      <BackupPanel />
     </div>
   );
 }
@@ -0,0 +1,86 @@
+import { useStore } from "@nanostores/react";
+import styles from "./DefaultsView.module.scss";
+import { Button } from "@components/ui/button";
+import { Checkbox } from "@components/ui/checkbox";
+import { Input } from "@components/ui/input";
+import { Textarea } from "@components/ui/textarea";
+import { $settings, updateJudgeSettings } from "@stores/settingsStore";
+import { $models } from "@stores/modelsStore";
+import { DEFAULT_JUDGE_RUBRIC, JUDGE_FAILURE_TAGS } from "../../lib/judge";
+
+export default function JudgePanel() {
+  const settings = useStore($settings);
+  const models = useStore($models);
+  const judge = settings.judge;
+  const rubric = judge?.rubric ?? DEFAULT_JUDGE_RUBRIC;
+
+  return (
+    <div className={styles.panel}>
+      <h3>LLM Judge</h3>
+      <p className="text-xs text-[var(--muted)]">
+        A vision-capable model scores output images 1-10 against the prompt and
+        the input image, with reasons and failure tags (
+        {JUDGE_FAILURE_TAGS.join(", ")}). Use "Score" on a response, or score
+        every finished image automatically, including suite runs.
+      </p>
+      <div className={styles.formRow}>
+        <label htmlFor="judge-model" className="text-xs text-[var(--muted)]">
+          Judge model
+        </label>
+        <Input
+          id="judge-model"
+          value={judge?.modelId ?? ""}
+          onChange={(event) =>
+            void updateJudgeSettings({ modelId: event.target.value.trim() })
+          }
+          placeholder="e.g. openai/gpt-4o"
+          list="judge-models"
+        />
+        <datalist id="judge-models">
+          {models.map((model) => (
+            <option key={model.id} value={model.id}>
+              {model.name}
+            </option>
+          ))}
+        </datalist>
+      </div>
+      <div className={styles.formRow}>
+        <label htmlFor="judge-rubric" className="text-xs text-[var(--muted)]">
+          Rubric
+        </label>
+        <Textarea
+          id="judge-rubric"
+          rows={4}
+          value={rubric}
+          onChange={(event) =>
+            void updateJudgeSettings({ rubric: event.target.value })
+          }
+        />
+      </div>
+      <div className={styles.formActions}>
+        <label className="flex items-center gap-2">
+          <Checkbox
+            checked={judge?.autoScore ?? false}
+            onCheckedChange={(value) =>
+              void updateJudgeSettings({ autoScore: Boolean(value) })
+            }
+          />
+          <span className="text-xs text-[var(--muted)]">
+            Score every finished output image automatically
+          </span>
+        </label>
+        <Button
+          type="button"
+          size="sm"
+          variant="ghost"
+          onClick={() =>
+            void updateJudgeSettings({ rubric: DEFAULT_JUDGE_RUBRIC })
+          }
+          disabled={rubric === DEFAULT_JUDGE_RUBRIC}
+        >
+          Reset rubric
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+import { useStore } from "@nanostores/react";
+import styles from "./DefaultsView.module.scss";
+import { Input } from "@components/ui/input";
+import {
+  $settings,
+  DEFAULT_SCHEDULER_SETTINGS,
+  updateSchedulerSettings,
+} from "@stores/settingsStore";
+import { listProviders } from "../../lib/providers";
+
+function parseLimit(value: string): number | null {
+  if (!value.trim()) return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 1 ? Math.round(parsed) : null;
+}
+
+export default function SchedulerPanel() {
+  const settings = useStore($settings);
+  const scheduler = { ...DEFAULT_SCHEDULER_SETTINGS, ...settings.scheduler };
+
+  const setProviderLimit = (providerId: string, value: string) => {
+    const limit = parseLimit(value);
+    const perProvider = { ...scheduler.perProvider };
+    if (limit === null) delete perProvider[providerId];
+    else perProvider[providerId] = limit;
+    void updateSchedulerSettings({ perProvider });
+  };
+
+  return (
+    <div className={styles.panel}>
+      <h3>Request queue</h3>
+      <p className="text-xs text-[var(--muted)]">
+        Completions beyond these limits wait in the queue shown above the
+        session columns, where they can be reordered or cancelled. Leave a
+        provider empty to use only the global limit.
+      </p>
+      <div className={styles.formRow}>
+        <label
+          htmlFor="scheduler-global"
+          className="text-xs text-[var(--muted)]"
+        >
+          Max requests in flight
+        </label>
+        <Input
+          id="scheduler-global"
+          type="number"
+          min={1}
+          step={1}
+          value={scheduler.maxConcurrent}
+          onChange={(event) => {
+            const limit = parseLimit(event.target.value);
+            if (limit !== null) {
+              void updateSchedulerSettings({ maxConcurrent: limit });
+            }
+          }}
+        />
+      </div>
+      {listProviders(settings).map((provider) => (
+        <div key={provider.id} className={styles.formRow}>
+          <label
+            htmlFor={`scheduler-${provider.id}`}
+            className="text-xs text-[var(--muted)]"
+          >
+            {provider.name}
+          </label>
+          <Input
+            id={`scheduler-${provider.id}`}
+            type="number"
+            min={1}
+            step={1}
+            value={scheduler.perProvider[provider.id] ?? ""}
+            onChange={(event) =>
+              setProviderLimit(provider.id, event.target.value)
+            }
+            placeholder={`Global (${scheduler.maxConcurrent})`}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
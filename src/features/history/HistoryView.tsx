@@ -8,8 +8,12 @@ import {
   $history,
   deleteSession,
   exportSession,
+  exportSessionContactSheet,
+  exportSessionHtml,
+  importSession,
   loadSession,
   loadMoreHistory,
+  reconcileSessionCosts,
   updateSessionTitle,
 } from "@stores/sessionsStore";
 import {
@@ -20,7 +24,19 @@ import {
   setHistorySearch,
 } from "@stores/uiStore";
 import { formatDateTime } from "../../lib/utils";
-import { Download, Trash2, Upload, Edit2, Check, X } from "lucide-react";
+import {
+  Download,
+  Trash2,
+  Upload,
+  Edit2,
+  Check,
+  X,
+  FileText,
+  LayoutGrid,
+  Receipt,
+} from "lucide-react";
+import { SelectPopover } from "@components/ui/select-popover";
+import type { ContactSheetFormat } from "../../lib/contactSheet";
 import { setActiveView } from "@stores/appStore";
 import { $models } from "@stores/modelsStore";
 import type { Session } from "../../types/db";
@@ -29,10 +45,12 @@ function HistoryItem({
   item,
   onRename,
   models,
+  sheetFormat,
 }: {
   item: Session;
   onRename: (id: string, title: string) => void;
   models: { id: string; name?: string }[];
+  sheetFormat: ContactSheetFormat;
 }) {
   const [isEditing, setIsEditing] = useState(false);
   const [editTitle, setEditTitle] = useState(item.title ?? "");
@@ -203,6 +221,36 @@ function HistoryItem({
             <Download size={14} />
             Export
           </Button>
+          <Button
+            type="button"
+            variant="secondary"
+            size="sm"
+            onClick={() => exportSessionHtml(item.id)}
+            title="Self-contained HTML report with inlined images"
+          >
+            <FileText size={14} />
+            HTML
+          </Button>
+          <Button
+            type="button"
+            variant="secondary"
+            size="sm"
+            onClick={() => exportSessionContactSheet(item.id, sheetFormat)}
+            title="Grid image: one row per prompt, one column per model"
+          >
+            <LayoutGrid size={14} />
+            Sheet
+          </Button>
+          <Button
+            type="button"
+            variant="secondary"
+            size="sm"
+            onClick={() => void reconcileSessionCosts(item.id)}
+            title="Replace stored costs with what OpenRouter billed"
+          >
+            <Receipt size={14} />
+            Reconcile
+          </Button>
           <Button
             type="button"
             variant="ghost"
@@ -223,6 +271,9 @@ export default function HistoryView() {
   const history = useStore($history);
   const models = useStore($models);
   const uiState = useStore($uiState);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [sheetFormat, setSheetFormat] = useState<ContactSheetFormat>("png");
 
   const filteredHistory = useMemo(() => {
     if (!uiState.historySearch.trim()) return history;
@@ -253,11 +304,24 @@ export default function HistoryView() {
     await updateSessionTitle(title, id);
   };
 
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = "";
+    setIsImporting(true);
+    try {
+      for (const file of files) {
+        await importSession(file);
+      }
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
   return (
     <div className={styles.historyView}>
       <div className={styles.panel}>
         <h2>Session History</h2>
-        <p>Load, export, rename, or delete saved sessions.</p>
+        <p>Load, export, import, rename, or delete saved sessions.</p>
         <div className={styles.historyControls}>
           <div className={styles.historySearch}>
             <label
@@ -273,6 +337,39 @@ export default function HistoryView() {
               onChange={(event) => handleSearch(event.target.value)}
             />
           </div>
+          <div className={styles.historySearch}>
+            <span className="text-xs text-[var(--muted)]">
+              Contact sheet format
+            </span>
+            <SelectPopover
+              value={sheetFormat}
+              onValueChange={(value) =>
+                setSheetFormat(value as ContactSheetFormat)
+              }
+              items={[
+                { value: "png", label: "PNG" },
+                { value: "jpeg", label: "JPEG" },
+              ]}
+            />
+          </div>
+          <Button
+            type="button"
+            variant="secondary"
+            onClick={() => importInputRef.current?.click()}
+            disabled={isImporting}
+            title="Import a session ZIP exported from this app"
+          >
+            <Upload size={16} />
+            {isImporting ? "Importing..." : "Import"}
+          </Button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".zip,application/zip"
+            multiple
+            hidden
+            onChange={(event) => void handleImport(event)}
+          />
         </div>
         <div className={styles.historyList}>
           {filteredHistory.map((item) => (
@@ -281,6 +378,7 @@ export default function HistoryView() {
               item={item}
               onRename={handleRename}
               models={models}
+              sheetFormat={sheetFormat}
             />
           ))}
           {filteredHistory.length === 0 && (
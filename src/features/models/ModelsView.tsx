@@ -17,7 +17,7 @@ import {
   verticalListSortingStrategy,
 } from "@dnd-kit/sortable";
 import { CSS } from "@dnd-kit/utilities";
-import { GripVertical } from "lucide-react";
+import { GripVertical, Plus, Trash2 } from "lucide-react";
 import styles from "./ModelsView.module.scss";
 import { Button } from "@components/ui/button";
 import { Input } from "@components/ui/input";
@@ -25,9 +25,14 @@ import { Checkbox } from "@components/ui/checkbox";
 import { SelectPopover } from "@components/ui/select-popover";
 import {
   $settings,
+  addCustomModel,
+  addProvider,
+  removeProvider,
+  setModelProvider,
   setSelectedModels,
   toggleModelSelection,
   updateApiKey,
+  updateProvider,
 } from "@stores/settingsStore";
 import {
   $models,
@@ -36,12 +41,26 @@ import {
   fetchModels,
 } from "@stores/modelsStore";
 import { inferModelCapabilities } from "../../lib/modelMeta";
+import {
+  OPENROUTER_PROVIDER_ID,
+  PROVIDER_KIND_LABELS,
+  listProviders,
+} from "../../lib/providers";
+import { MOCK_SCENARIOS } from "../../lib/mockProvider";
+import type { SelectItem } from "@components/ui/select-popover";
+import type { ProviderConfig } from "../../types/db";
 
 interface SortableModelItemProps {
   model: { id: string; name: string };
+  providerId: string;
+  providerItems: SelectItem[];
 }
 
-function SortableModelItem({ model }: SortableModelItemProps) {
+function SortableModelItem({
+  model,
+  providerId,
+  providerItems,
+}: SortableModelItemProps) {
   const {
     attributes,
     listeners,
@@ -65,6 +84,14 @@ function SortableModelItem({ model }: SortableModelItemProps) {
       <div className="flex flex-col gap-1 flex-1">
         <span>{model.name}</span>
         <code className="text-xs text-[var(--muted)]">{model.id}</code>
+        {providerItems.length > 1 && (
+          <SelectPopover
+            value={providerId}
+            onValueChange={(value) => setModelProvider(model.id, value)}
+            items={providerItems}
+            className="h-8 text-xs"
+          />
+        )}
       </div>
       {/*<Button type="button" variant="ghost" size="sm" onClick={onRemove}>
         Remove
@@ -73,6 +100,106 @@ function SortableModelItem({ model }: SortableModelItemProps) {
   );
 }
 
+function ProviderCard({ provider }: { provider: ProviderConfig }) {
+  return (
+    <div className={styles.providerCard}>
+      <div className={`${styles.formRow} ${styles.formInline}`}>
+        <Input
+          value={provider.name}
+          placeholder="Provider name"
+          onChange={(event) =>
+            updateProvider(provider.id, { name: event.target.value })
+          }
+          className="flex-1"
+        />
+        <span className="text-xs text-[var(--muted)] self-center">
+          {PROVIDER_KIND_LABELS[provider.kind]}
+        </span>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={() => removeProvider(provider.id)}
+          title="Remove provider"
+        >
+          <Trash2 size={14} />
+        </Button>
+      </div>
+      {provider.kind === "mock" ? (
+        <MockScenarioList providerId={provider.id} />
+      ) : (
+        <ProviderConnectionFields provider={provider} />
+      )}
+    </div>
+  );
+}
+
+function ProviderConnectionFields({ provider }: { provider: ProviderConfig }) {
+  return (
+    <>
+      <div className={styles.formRow}>
+        <label className="text-xs text-[var(--muted)]">Base URL</label>
+        <Input
+          value={provider.baseUrl}
+          placeholder="https://host/v1"
+          onChange={(event) =>
+            updateProvider(provider.id, { baseUrl: event.target.value })
+          }
+        />
+      </div>
+      <div className={styles.formRow}>
+        <label className="text-xs text-[var(--muted)]">
+          API Key{provider.kind === "local" ? " (optional)" : ""}
+        </label>
+        <Input
+          type="password"
+          value={provider.apiKey}
+          placeholder="sk-..."
+          onChange={(event) =>
+            updateProvider(provider.id, { apiKey: event.target.value })
+          }
+        />
+      </div>
+    </>
+  );
+}
+
+function MockScenarioList({ providerId }: { providerId: string }) {
+  const settings = useStore($settings);
+  return (
+    <div className={styles.formRow}>
+      <label className="text-xs text-[var(--muted)]">
+        Scripted scenarios (no network, no cost)
+      </label>
+      {MOCK_SCENARIOS.map((entry) => {
+        const added = settings.selectedModelIds.includes(entry.modelId);
+        return (
+          <div
+            key={entry.modelId}
+            className="flex items-center justify-between gap-2"
+          >
+            <div className="flex flex-col">
+              <code className="text-xs">{entry.modelId}</code>
+              <span className="text-xs text-[var(--muted)]">
+                {entry.description}
+              </span>
+            </div>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              disabled={added}
+              onClick={() => addCustomModel(entry.modelId, providerId)}
+            >
+              {added ? "Added" : "Add"}
+            </Button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
 export default function ModelsView() {
   const settings = useStore($settings);
   const models = useStore($models);
@@ -81,6 +208,19 @@ export default function ModelsView() {
   const [query, setQuery] = useState("");
   const [providerFilter, setProviderFilter] = useState<string>("all");
   const [showSelectedOnly, setShowSelectedOnly] = useState(false);
+  const [customModelId, setCustomModelId] = useState("");
+  const [customProviderId, setCustomProviderId] = useState<string>(
+    OPENROUTER_PROVIDER_ID,
+  );
+
+  const providerItems = useMemo<SelectItem[]>(
+    () =>
+      listProviders(settings).map((provider) => ({
+        value: provider.id,
+        label: provider.name || PROVIDER_KIND_LABELS[provider.kind],
+      })),
+    [settings],
+  );
 
   const providers = useMemo(() => {
     const unique = new Set<string>();
@@ -196,6 +336,77 @@ export default function ModelsView() {
             <p className="text-xs text-[var(--danger)]">{modelsError}</p>
           )}
         </div>
+        <div className={styles.panel}>
+          <h2>Providers</h2>
+          <p>
+            Point model columns at a direct OpenAI-compatible endpoint, a local
+            server, or the offline mock backend. Columns use OpenRouter unless
+            mapped otherwise.
+          </p>
+          {settings.providers.map((provider) => (
+            <ProviderCard key={provider.id} provider={provider} />
+          ))}
+          <div className={`${styles.formRow} ${styles.formInline}`}>
+            <Button
+              type="button"
+              variant="secondary"
+              size="sm"
+              onClick={() => addProvider("openai")}
+            >
+              <Plus size={14} />
+              OpenAI-compatible
+            </Button>
+            <Button
+              type="button"
+              variant="secondary"
+              size="sm"
+              onClick={() => addProvider("local")}
+            >
+              <Plus size={14} />
+              Local server
+            </Button>
+            <Button
+              type="button"
+              variant="secondary"
+              size="sm"
+              onClick={() => addProvider("mock")}
+            >
+              <Plus size={14} />
+              Mock (offline)
+            </Button>
+          </div>
+          {settings.providers.length > 0 && (
+            <div className={styles.formRow}>
+              <label className="text-xs text-[var(--muted)]">
+                Add model by id
+              </label>
+              <div className={`${styles.formRow} ${styles.formInline}`}>
+                <Input
+                  value={customModelId}
+                  placeholder="e.g. gpt-image-1 or my-local-model"
+                  onChange={(event) => setCustomModelId(event.target.value)}
+                  className="flex-1"
+                />
+                <SelectPopover
+                  value={customProviderId}
+                  onValueChange={setCustomProviderId}
+                  items={providerItems}
+                  className="w-48"
+                />
+                <Button
+                  type="button"
+                  onClick={async () => {
+                    await addCustomModel(customModelId, customProviderId);
+                    setCustomModelId("");
+                  }}
+                  disabled={!customModelId.trim()}
+                >
+                  Add
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
       </div>
 
       <div className={styles.contentRow}>
@@ -364,7 +575,15 @@ export default function ModelsView() {
                 >
                   <div className="flex flex-col gap-2">
                     {selectedModelsList.map((model) => (
-                      <SortableModelItem key={model.id} model={model} />
+                      <SortableModelItem
+                        key={model.id}
+                        model={model}
+                        providerId={
+                          settings.modelProviderIds[model.id] ??
+                          OPENROUTER_PROVIDER_ID
+                        }
+                        providerItems={providerItems}
+                      />
                     ))}
                   </div>
                 </SortableContext>
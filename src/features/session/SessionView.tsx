@@ -13,15 +13,51 @@ import { $models } from "@stores/modelsStore";
 import { $settings, moveSelectedModel } from "@stores/settingsStore";
 import ModelColumn from "@features/session/components/ModelColumn";
 import InputDock from "@features/session/components/InputDock";
-import { RotateCcw, ArrowLeft, ArrowRight, Dot } from "lucide-react";
+import CompareViewer from "@features/session/components/CompareViewer";
+import ChainTimeline from "@features/session/components/ChainTimeline";
+import RequestQueuePanel from "@features/session/components/RequestQueuePanel";
+import {
+  RotateCcw,
+  ArrowLeft,
+  ArrowRight,
+  Dot,
+  GitCompare,
+  X,
+  Eye,
+  EyeOff,
+  Shuffle,
+} from "lucide-react";
+import {
+  $blindMode,
+  $ratings,
+  loadSessionRatings,
+  revealBlindMode,
+  setBlindMode,
+} from "@stores/ratingsStore";
+import type { Message } from "../../types/db";
+import {
+  $uiState,
+  clearCompareImages,
+  toggleCompareImage,
+  type CompareImage,
+} from "@stores/uiStore";
 import {
   setHeaderCenter,
   setHeaderRightActions,
   type HeaderAction,
 } from "@stores/headerStore";
 
-function getSessionViewHeaderActions(): HeaderAction[] {
+function getSessionViewHeaderActions(blindEnabled: boolean): HeaderAction[] {
   return [
+    {
+      key: "blind-mode",
+      label: blindEnabled ? "Exit Blind Mode" : "Blind Mode",
+      icon: blindEnabled ? Eye : EyeOff,
+      onClick: () =>
+        setBlindMode(!blindEnabled, $settings.get().selectedModelIds),
+      variant: blindEnabled ? "secondary" : "ghost",
+      title: "Hide model names and shuffle columns while rating responses",
+    },
     {
       key: "clear-session",
       label: "New Session",
@@ -32,6 +68,70 @@ function getSessionViewHeaderActions(): HeaderAction[] {
   ];
 }
 
+function latestCompletedAssistant(messages: Message[]): Message | undefined {
+  return messages
+    .filter((msg) => msg.role === "assistant" && msg.status === "complete")
+    .sort((a, b) => b.createdAt - a.createdAt)[0];
+}
+
+function CompareTray() {
+  const uiState = useStore($uiState);
+  const [snapshot, setSnapshot] = useState<CompareImage[] | null>(null);
+  const selected = uiState.compareImages;
+
+  return (
+    <>
+      <CompareViewer
+        open={snapshot !== null}
+        images={snapshot ?? []}
+        onClose={() => setSnapshot(null)}
+      />
+      {selected.length > 0 && (
+        <div className={styles.compareTray}>
+          <span className="text-xs text-[var(--muted)]">Compare:</span>
+          {selected.map((item) => (
+            <span key={item.imageId} className={styles.compareChip}>
+              {item.label}
+              <button
+                type="button"
+                onClick={() => toggleCompareImage(item)}
+                title="Remove from comparison"
+                className="text-[var(--muted)] hover:text-[var(--text)]"
+              >
+                <X size={12} />
+              </button>
+            </span>
+          ))}
+          <div className="ml-auto flex gap-2">
+            <Button
+              type="button"
+              size="sm"
+              disabled={selected.length < 2}
+              onClick={() => setSnapshot(selected)}
+              title={
+                selected.length < 2
+                  ? "Select at least two images"
+                  : "Open comparison"
+              }
+            >
+              <GitCompare size={16} />
+              Compare ({selected.length})
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={clearCompareImages}
+            >
+              Clear
+            </Button>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
+
 function SessionTitleInput() {
   const sessionState = useStore($activeSession);
   const sessionId = sessionState.session?.id;
@@ -92,21 +192,87 @@ export default function SessionView() {
   const models = useStore($models);
   const settings = useStore($settings);
 
-  const activeModels = settings.selectedModelIds;
+  const blindMode = useStore($blindMode);
+  const ratings = useStore($ratings);
+  const sessionId = sessionState.session?.id ?? null;
+
+  // Blind mode shows columns in a shuffled order; models selected later go last
+  const activeModels = blindMode.enabled
+    ? [
+        ...blindMode.order.filter((id) =>
+          settings.selectedModelIds.includes(id),
+        ),
+        ...settings.selectedModelIds.filter(
+          (id) => !blindMode.order.includes(id),
+        ),
+      ]
+    : settings.selectedModelIds;
+
+  // Names are revealed once every column's latest response has been rated
+  const allRated =
+    activeModels.length > 0 &&
+    activeModels.every((modelId) => {
+      const latest = latestCompletedAssistant(
+        sessionState.messagesByModel[modelId] ?? [],
+      );
+      return latest !== undefined && ratings[latest.id] !== undefined;
+    });
+  const isBlind = blindMode.enabled && !blindMode.revealed && !allRated;
+
+  useEffect(() => {
+    void loadSessionRatings(sessionId);
+  }, [sessionId]);
 
   useEffect(() => {
-    setHeaderRightActions(getSessionViewHeaderActions());
     setHeaderCenter(<SessionTitleInput />);
     return () => {
       setHeaderCenter(null);
-      setHeaderRightActions([]);
     };
   }, []);
 
+  useEffect(() => {
+    setHeaderRightActions(getSessionViewHeaderActions(blindMode.enabled));
+    return () => {
+      setHeaderRightActions([]);
+    };
+  }, [blindMode.enabled]);
+
   return (
     <div className={styles.sessionView}>
       <div className={styles.columnsSection}>
-        {activeModels.length > 0 && (
+        {blindMode.enabled && (
+          <div className={styles.compareTray}>
+            <span className="text-xs text-[var(--muted)]">
+              {isBlind
+                ? "Blind mode: rate the latest response in every column to reveal the models."
+                : "Blind mode: models revealed."}
+            </span>
+            <div className="ml-auto flex gap-2">
+              {isBlind && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={revealBlindMode}
+                >
+                  <Eye size={16} />
+                  Reveal now
+                </Button>
+              )}
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setBlindMode(true, settings.selectedModelIds)}
+                title="Shuffle columns and hide names again"
+              >
+                <Shuffle size={16} />
+                Reshuffle
+              </Button>
+            </div>
+          </div>
+        )}
+        {activeModels.length > 0 && !blindMode.enabled && (
           <div className={styles.columnControls}>
             {activeModels.map((modelId, index) => {
               const canMoveLeft = index > 0;
@@ -149,9 +315,23 @@ export default function SessionView() {
             })}
           </div>
         )}
+        <CompareTray />
+        {/* The queue names models, so it stays hidden in blind mode */}
+        {!isBlind && <RequestQueuePanel />}
+        {sessionState.session?.mode === "chain" && !isBlind && (
+          <ChainTimeline
+            messagesByModel={sessionState.messagesByModel}
+            modelNames={Object.fromEntries(
+              models.map((model) => [model.id, model.name]),
+            )}
+          />
+        )}
         <div className={styles.columnsGrid}>
-          {activeModels.map((modelId) => {
+          {activeModels.map((modelId, index) => {
             const modelInfo = models.find((model) => model.id === modelId);
+            const displayName = isBlind
+              ? `Model ${String.fromCharCode(65 + (index % 26))}`
+              : (modelInfo?.name ?? modelId);
             const messages = sessionState.messagesByModel[modelId] ?? [];
             const stats = sessionState.statsByModel[modelId];
             return (
@@ -159,7 +339,7 @@ export default function SessionView() {
                 key={modelId}
                 fallback={
                   <div className={styles.columnCard}>
-                    <h3>{modelInfo?.name ?? modelId}</h3>
+                    <h3>{displayName}</h3>
                     <p className="text-sm text-[var(--danger)]">
                       Error loading this model column
                     </p>
@@ -168,10 +348,11 @@ export default function SessionView() {
               >
                 <ModelColumn
                   modelId={modelId}
-                  modelName={modelInfo?.name ?? modelId}
+                  modelName={displayName}
                   messages={messages}
                   stats={stats}
                   isStreaming={sessionState.streamingByModel[modelId]}
+                  blind={isBlind}
                 />
               </ErrorBoundary>
             );
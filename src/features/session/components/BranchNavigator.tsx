@@ -0,0 +1,98 @@
+import { useMemo } from "react";
+import type { Message, MessageBranchOrigin } from "../../../types/db";
+import styles from "../SessionView.module.scss";
+import { ArrowRightLeft, GitBranch, Repeat, RotateCcw } from "lucide-react";
+
+interface BranchNode {
+  runIndex: number;
+  kind?: MessageBranchOrigin["kind"];
+  fromModelId?: string;
+  prompt: string;
+  children: BranchNode[];
+}
+
+/**
+ * Runs arranged as a tree: edited, re-run and replayed branches sit under the
+ * run they were forked from; independent runs (multiplier) and runs handed
+ * over from another model's column are roots.
+ */
+function buildBranchTree(runs: Array<[number, Message[]]>): BranchNode[] {
+  const nodes = new Map<number, BranchNode>();
+  const parents = new Map<number, number>();
+  for (const [runIndex, messages] of runs) {
+    const origin = messages.find((message) => message.branchFrom)?.branchFrom;
+    const lastUser = [...messages]
+      .reverse()
+      .find((message) => message.role === "user");
+    nodes.set(runIndex, {
+      runIndex,
+      kind: origin?.kind,
+      fromModelId: origin?.modelId,
+      prompt: lastUser?.contentText.trim().replace(/\s+/g, " ") ?? "",
+      children: [],
+    });
+    if (origin && !origin.modelId && origin.runIndex !== runIndex) {
+      parents.set(runIndex, origin.runIndex);
+    }
+  }
+  const roots: BranchNode[] = [];
+  nodes.forEach((node, runIndex) => {
+    const parent = nodes.get(parents.get(runIndex) ?? -1);
+    if (parent) parent.children.push(node);
+    else roots.push(node);
+  });
+  return roots;
+}
+
+export default function BranchNavigator({
+  runs,
+  activeRunIndex,
+  onSelect,
+}: {
+  runs: Array<[number, Message[]]>;
+  activeRunIndex: number | undefined;
+  onSelect: (runIndex: number) => void;
+}) {
+  const tree = useMemo(() => buildBranchTree(runs), [runs]);
+
+  const renderNode = (node: BranchNode, depth: number) => (
+    <li key={node.runIndex}>
+      <button
+        type="button"
+        onClick={() => onSelect(node.runIndex)}
+        className={`${styles.branchNode} ${
+          node.runIndex === activeRunIndex ? styles.branchNodeActive : ""
+        }`}
+        style={{ paddingLeft: 8 + depth * 14 }}
+        title={
+          [node.fromModelId ? `From ${node.fromModelId}` : "", node.prompt]
+            .filter(Boolean)
+            .join(" · ") || undefined
+        }
+      >
+        {node.kind === "edit" ? (
+          <GitBranch size={12} />
+        ) : node.kind === "rerun" ? (
+          <RotateCcw size={12} />
+        ) : node.kind === "handoff" ? (
+          <ArrowRightLeft size={12} />
+        ) : node.kind === "replay" ? (
+          <Repeat size={12} />
+        ) : null}
+        <span className={styles.branchNodeLabel}>Run {node.runIndex}</span>
+        {node.prompt && (
+          <span className={styles.branchNodePrompt}>{node.prompt}</span>
+        )}
+      </button>
+      {node.children.length > 0 && (
+        <ul>{node.children.map((child) => renderNode(child, depth + 1))}</ul>
+      )}
+    </li>
+  );
+
+  return (
+    <ul className={styles.branchTree}>
+      {tree.map((node) => renderNode(node, 0))}
+    </ul>
+  );
+}
@@ -0,0 +1,148 @@
+import { Fragment, useEffect, useMemo, useRef, useState } from "react";
+import styles from "../SessionView.module.scss";
+import type { Message } from "../../../types/db";
+import { getImage } from "../../../lib/idb";
+import { collectChains } from "../../../lib/session/chain";
+import { formatDuration } from "../../../lib/utils";
+import { SelectPopover } from "@components/ui/select-popover";
+import { ArrowRight, Loader2 } from "lucide-react";
+
+function lastImageId(message: Message | undefined) {
+  return message?.imageIds[message.imageIds.length - 1];
+}
+
+/**
+ * Horizontal view of one chain execution: the input, then each step's model
+ * and output image, left to right in the order they ran.
+ */
+export default function ChainTimeline({
+  messagesByModel,
+  modelNames,
+}: {
+  messagesByModel: Record<string, Message[]>;
+  modelNames: Record<string, string>;
+}) {
+  const chains = useMemo(
+    () => collectChains(messagesByModel),
+    [messagesByModel],
+  );
+  const [selectedChainId, setSelectedChainId] = useState<string | null>(null);
+  const chain =
+    chains.find((item) => item.chainId === selectedChainId) ??
+    chains[chains.length - 1];
+
+  const [thumbs, setThumbs] = useState<Record<string, string>>({});
+  const thumbsRef = useRef<Record<string, string>>({});
+  const imageIds = useMemo(() => {
+    if (!chain) return [];
+    const ids = [lastImageId(chain.steps[0]?.prompt)];
+    chain.steps.forEach((step) => ids.push(lastImageId(step.response)));
+    return ids.filter((id): id is string => Boolean(id));
+  }, [chain]);
+  const imageKey = imageIds.join("|");
+
+  useEffect(() => {
+    let active = true;
+    const loadThumbs = async () => {
+      const map: Record<string, string> = {};
+      for (const imageId of imageKey ? imageKey.split("|") : []) {
+        const asset = await getImage(imageId);
+        if (asset) map[imageId] = URL.createObjectURL(asset.blob);
+      }
+      if (!active) {
+        Object.values(map).forEach((url) => URL.revokeObjectURL(url));
+        return;
+      }
+      setThumbs((prev) => {
+        Object.values(prev).forEach((url) => URL.revokeObjectURL(url));
+        return map;
+      });
+      thumbsRef.current = map;
+    };
+    void loadThumbs();
+    return () => {
+      active = false;
+    };
+  }, [imageKey]);
+
+  useEffect(
+    () => () => {
+      Object.values(thumbsRef.current).forEach((url) =>
+        URL.revokeObjectURL(url),
+      );
+    },
+    [],
+  );
+
+  if (!chain) return null;
+  const inputImageId = lastImageId(chain.steps[0]?.prompt);
+
+  return (
+    <div className={styles.chainTimeline}>
+      {chains.length > 1 && (
+        <div className={styles.chainTimelineHeader}>
+          <span className="text-xs text-[var(--muted)]">Chain</span>
+          <SelectPopover
+            className="h-8 w-48 text-xs"
+            value={chain.chainId}
+            onValueChange={setSelectedChainId}
+            items={chains.map((item, index) => ({
+              value: item.chainId,
+              label: `#${index + 1} · ${new Date(item.createdAt).toLocaleTimeString()}`,
+            }))}
+          />
+        </div>
+      )}
+      <div className={styles.chainTrack}>
+        <div className={styles.chainNode}>
+          <div className={styles.chainThumb}>
+            {inputImageId && thumbs[inputImageId] ? (
+              <img src={thumbs[inputImageId]} alt="Chain input" />
+            ) : (
+              <span className="text-xs text-[var(--muted)]">No image</span>
+            )}
+          </div>
+          <span className={styles.chainNodeTitle}>Input</span>
+        </div>
+        {chain.steps.map((step) => {
+          const response = step.response;
+          const outputId = lastImageId(response);
+          const status = response?.status ?? "pending";
+          return (
+            <Fragment key={step.prompt.id}>
+              <ArrowRight size={16} className={styles.chainArrow} />
+              <div
+                className={`${styles.chainNode} ${
+                  status === "error" || status === "aborted"
+                    ? styles.chainNodeFailed
+                    : ""
+                }`}
+                title={step.prompt.contentText}
+              >
+                <div className={styles.chainThumb}>
+                  {outputId && thumbs[outputId] ? (
+                    <img src={thumbs[outputId]} alt={`Step ${step.step}`} />
+                  ) : status === "streaming" ? (
+                    <Loader2 size={18} className="animate-spin" />
+                  ) : (
+                    <span className="text-xs text-[var(--muted)]">
+                      {status === "complete" ? "No image" : status}
+                    </span>
+                  )}
+                </div>
+                <span className={styles.chainNodeTitle}>
+                  {step.step}. {modelNames[step.modelId] ?? step.modelId}
+                </span>
+                {response?.completedAt !== undefined && (
+                  <span className="text-xs text-[var(--muted)]">
+                    {formatDuration(response.completedAt - response.createdAt)}
+                  </span>
+                )}
+              </div>
+            </Fragment>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,559 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@components/ui/dialog";
+import { Button } from "@components/ui/button";
+import { Slider } from "@components/ui/slider";
+import { SelectPopover, type SelectItem } from "@components/ui/select-popover";
+import { getImage } from "../../../lib/idb";
+import {
+  blobToImageData,
+  canvasToBlob,
+  clamp,
+  computeDiffHeatmap,
+} from "../../../lib/image";
+import type { CompareImage } from "@stores/uiStore";
+
+type CompareMode = "side-by-side" | "split" | "onion" | "diff";
+
+const COMPARE_MODES: Array<{ value: CompareMode; label: string }> = [
+  { value: "side-by-side", label: "Side by side" },
+  { value: "split", label: "Split" },
+  { value: "onion", label: "Onion skin" },
+  { value: "diff", label: "Difference" },
+];
+
+const MAX_ZOOM = 8;
+
+type LoadedCompareImage = CompareImage & {
+  url: string;
+  blob: Blob;
+  width: number;
+  height: number;
+};
+
+type DiffState = {
+  key: string;
+  url: string;
+  meanDiff: number;
+  changedRatio: number;
+};
+
+type DragState =
+  | {
+      kind: "pan";
+      pointerId: number;
+      startX: number;
+      startY: number;
+      startOffsetX: number;
+      startOffsetY: number;
+    }
+  | { kind: "split"; pointerId: number };
+
+export default function CompareViewer({
+  images,
+  open,
+  onClose,
+}: {
+  images: CompareImage[];
+  open: boolean;
+  onClose: () => void;
+}) {
+  const dragRef = useRef<DragState | null>(null);
+  const [assets, setAssets] = useState<LoadedCompareImage[]>([]);
+  const [mode, setMode] = useState<CompareMode>("side-by-side");
+  const [baseId, setBaseId] = useState<string | null>(null);
+  const [overlayId, setOverlayId] = useState<string | null>(null);
+  // Zoom is relative to "fit" so all panes share it regardless of pane size
+  const [zoom, setZoom] = useState(1);
+  const [offsetX, setOffsetX] = useState(0);
+  const [offsetY, setOffsetY] = useState(0);
+  const [split, setSplit] = useState(0.5);
+  const [opacity, setOpacity] = useState(0.5);
+  const [gain, setGain] = useState(4);
+  const [diff, setDiff] = useState<DiffState | null>(null);
+  const [paneEl, setPaneEl] = useState<HTMLDivElement | null>(null);
+  const [paneSize, setPaneSize] = useState<{
+    width: number;
+    height: number;
+  } | null>(null);
+
+  useEffect(() => {
+    if (!open || images.length === 0) return;
+    let active = true;
+    const load = async () => {
+      const loaded: LoadedCompareImage[] = [];
+      for (const image of images) {
+        const asset = await getImage(image.imageId);
+        if (!asset) continue;
+        loaded.push({
+          ...image,
+          url: URL.createObjectURL(asset.blob),
+          blob: asset.blob,
+          width: asset.width,
+          height: asset.height,
+        });
+      }
+      if (!active) {
+        loaded.forEach((item) => URL.revokeObjectURL(item.url));
+        return;
+      }
+      setAssets(loaded);
+      setBaseId(loaded[0]?.imageId ?? null);
+      setOverlayId(loaded[1]?.imageId ?? null);
+      setZoom(1);
+      setOffsetX(0);
+      setOffsetY(0);
+    };
+    void load();
+    return () => {
+      active = false;
+    };
+  }, [open, images]);
+
+  useEffect(() => {
+    return () => {
+      assets.forEach((item) => URL.revokeObjectURL(item.url));
+    };
+  }, [assets]);
+
+  useEffect(() => {
+    if (!paneEl) return;
+    const observer = new ResizeObserver((entries) => {
+      const rect = entries[0]?.contentRect;
+      if (rect) setPaneSize({ width: rect.width, height: rect.height });
+    });
+    observer.observe(paneEl);
+    return () => observer.disconnect();
+  }, [paneEl]);
+
+  const base = assets.find((item) => item.imageId === baseId) ?? assets[0];
+  const overlay =
+    assets.find((item) => item.imageId === overlayId) ?? assets[1];
+  const isOverlayMode = mode !== "side-by-side";
+  const diffKey =
+    base && overlay ? `${base.imageId}|${overlay.imageId}|${gain}` : null;
+
+  // Heatmap is computed in the base image's frame; the overlay is resampled to it
+  useEffect(() => {
+    if (mode !== "diff" || !base || !overlay || !diffKey) return;
+    let active = true;
+    const compute = async () => {
+      try {
+        const [a, b] = await Promise.all([
+          blobToImageData(base.blob, base.width, base.height),
+          blobToImageData(overlay.blob, base.width, base.height),
+        ]);
+        const result = computeDiffHeatmap(a, b, { gain });
+        const canvas = document.createElement("canvas");
+        canvas.width = result.heatmap.width;
+        canvas.height = result.heatmap.height;
+        canvas.getContext("2d")?.putImageData(result.heatmap, 0, 0);
+        const blob = await canvasToBlob(canvas);
+        if (!active) return;
+        setDiff({
+          key: diffKey,
+          url: URL.createObjectURL(blob),
+          meanDiff: result.meanDiff,
+          changedRatio: result.changedRatio,
+        });
+      } catch (error) {
+        if (import.meta.env.DEV) {
+          console.error("[CompareViewer] Error computing difference:", error);
+        }
+      }
+    };
+    void compute();
+    return () => {
+      active = false;
+    };
+  }, [mode, base, overlay, gain, diffKey]);
+
+  useEffect(() => {
+    return () => {
+      if (diff) URL.revokeObjectURL(diff.url);
+    };
+  }, [diff]);
+
+  // Every pane draws into the same frame so pixel coordinates line up
+  const frame = base ? { width: base.width, height: base.height } : null;
+  const fitScale =
+    frame && paneSize
+      ? Math.min(paneSize.width / frame.width, paneSize.height / frame.height)
+      : 1;
+  const scale = fitScale * zoom;
+  const minZoom = 0.25;
+  const maxZoom = Math.max(MAX_ZOOM / fitScale, 1);
+
+  const clampPan = (
+    nextX: number,
+    nextY: number,
+    nextScale = scale,
+  ): { x: number; y: number } => {
+    if (!frame || !paneSize) return { x: nextX, y: nextY };
+    const maxX = Math.max(0, (frame.width * nextScale - paneSize.width) / 2);
+    const maxY = Math.max(0, (frame.height * nextScale - paneSize.height) / 2);
+    return { x: clamp(nextX, -maxX, maxX), y: clamp(nextY, -maxY, maxY) };
+  };
+
+  const resetView = (nextZoom = 1) => {
+    setZoom(nextZoom);
+    setOffsetX(0);
+    setOffsetY(0);
+  };
+
+  const applyZoom = (nextZoom: number) => {
+    const clampedZoom = clamp(nextZoom, minZoom, maxZoom);
+    const ratio = clampedZoom / zoom;
+    const clamped = clampPan(
+      offsetX * ratio,
+      offsetY * ratio,
+      fitScale * clampedZoom,
+    );
+    setZoom(clampedZoom);
+    setOffsetX(clamped.x);
+    setOffsetY(clamped.y);
+  };
+
+  const onPointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!frame) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = {
+      kind: "pan",
+      pointerId: event.pointerId,
+      startX: event.clientX,
+      startY: event.clientY,
+      startOffsetX: offsetX,
+      startOffsetY: offsetY,
+    };
+  };
+
+  const onSplitPointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    event.stopPropagation();
+    event.currentTarget.parentElement?.setPointerCapture(event.pointerId);
+    dragRef.current = { kind: "split", pointerId: event.pointerId };
+  };
+
+  const onPointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag || drag.pointerId !== event.pointerId) return;
+    if (drag.kind === "split") {
+      const rect = event.currentTarget.getBoundingClientRect();
+      setSplit(clamp((event.clientX - rect.left) / rect.width, 0, 1));
+      return;
+    }
+    const clamped = clampPan(
+      drag.startOffsetX + event.clientX - drag.startX,
+      drag.startOffsetY + event.clientY - drag.startY,
+    );
+    setOffsetX(clamped.x);
+    setOffsetY(clamped.y);
+  };
+
+  const onPointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag || drag.pointerId !== event.pointerId) return;
+    dragRef.current = null;
+  };
+
+  const onWheel = (event: React.WheelEvent<HTMLDivElement>) => {
+    if (!frame) return;
+    event.preventDefault();
+    const nextZoom = clamp(
+      zoom * (event.deltaY > 0 ? 0.9 : 1.1),
+      minZoom,
+      maxZoom,
+    );
+    const nextScale = fitScale * nextZoom;
+
+    // Keep the point under the cursor fixed, in whichever pane was scrolled
+    const rect = event.currentTarget.getBoundingClientRect();
+    const pointX = event.clientX - rect.left - rect.width / 2;
+    const pointY = event.clientY - rect.top - rect.height / 2;
+    const imageX = (pointX - offsetX) / scale;
+    const imageY = (pointY - offsetY) / scale;
+    const clamped = clampPan(
+      pointX - imageX * nextScale,
+      pointY - imageY * nextScale,
+      nextScale,
+    );
+    setZoom(nextZoom);
+    setOffsetX(clamped.x);
+    setOffsetY(clamped.y);
+  };
+
+  const renderFramed = (
+    src: string,
+    alt: string,
+    style?: React.CSSProperties,
+  ) =>
+    frame && (
+      <img
+        src={src}
+        alt={alt}
+        draggable={false}
+        style={{
+          position: "absolute",
+          left: "50%",
+          top: "50%",
+          width: frame.width,
+          height: frame.height,
+          maxWidth: "none",
+          objectFit: "contain",
+          transform: `translate(calc(-50% + ${offsetX}px), calc(-50% + ${offsetY}px)) scale(${scale})`,
+          transformOrigin: "center center",
+          userSelect: "none",
+          pointerEvents: "none",
+          ...style,
+        }}
+      />
+    );
+
+  const renderLabel = (text: string, align: "left" | "right" = "left") => (
+    <span
+      className={`absolute top-2 ${
+        align === "left" ? "left-2" : "right-2"
+      } rounded bg-black/70 px-2 py-0.5 text-xs text-white pointer-events-none`}
+    >
+      {text}
+    </span>
+  );
+
+  const imageItems: SelectItem[] = assets.map((item) => ({
+    value: item.imageId,
+    label: item.label,
+  }));
+  const columnCount = Math.min(assets.length, 3);
+  const paneHeight =
+    isOverlayMode || assets.length <= columnCount ? "h-[60vh]" : "h-[32vh]";
+  const currentDiff = diff && diff.key === diffKey ? diff : null;
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => (!next ? onClose() : null)}>
+      <DialogContent className="w-[min(96vw,1400px)] p-4">
+        <DialogHeader className="flex-row items-center justify-between gap-3 pb-3 pr-12">
+          <DialogTitle>Compare Images</DialogTitle>
+          <div className="flex flex-wrap gap-2">
+            {COMPARE_MODES.map((option) => (
+              <Button
+                key={option.value}
+                type="button"
+                size="sm"
+                variant={mode === option.value ? "default" : "outline"}
+                disabled={option.value !== "side-by-side" && assets.length < 2}
+                onClick={() => {
+                  setMode(option.value);
+                  resetView();
+                }}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+        </DialogHeader>
+
+        <div className="grid gap-4 md:grid-cols-[1fr,260px]">
+          {!isOverlayMode ? (
+            <div
+              className="grid gap-2"
+              style={{
+                gridTemplateColumns: `repeat(${Math.max(columnCount, 1)}, minmax(0, 1fr))`,
+              }}
+            >
+              {assets.map((item, index) => (
+                <div
+                  key={item.imageId}
+                  ref={index === 0 ? setPaneEl : undefined}
+                  className={`relative overflow-hidden rounded-xl border border-white/10 bg-black/20 ${paneHeight}`}
+                  onPointerDown={onPointerDown}
+                  onPointerMove={onPointerMove}
+                  onPointerUp={onPointerUp}
+                  onPointerCancel={onPointerUp}
+                  onWheel={onWheel}
+                  style={{ touchAction: "none" }}
+                >
+                  {renderFramed(item.url, item.label)}
+                  {renderLabel(item.label)}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div
+              ref={setPaneEl}
+              className={`relative overflow-hidden rounded-xl border border-white/10 bg-black/20 ${paneHeight}`}
+              onPointerDown={onPointerDown}
+              onPointerMove={onPointerMove}
+              onPointerUp={onPointerUp}
+              onPointerCancel={onPointerUp}
+              onWheel={onWheel}
+              style={{ touchAction: "none" }}
+            >
+              {mode === "diff" ? (
+                currentDiff ? (
+                  renderFramed(currentDiff.url, "difference")
+                ) : (
+                  <div className="absolute inset-0 flex items-center justify-center text-sm text-[var(--muted)]">
+                    Computing difference...
+                  </div>
+                )
+              ) : (
+                base && renderFramed(base.url, base.label)
+              )}
+              {mode === "onion" &&
+                overlay &&
+                renderFramed(overlay.url, overlay.label, { opacity })}
+              {mode === "split" && overlay && (
+                <>
+                  <div
+                    className="absolute inset-0 pointer-events-none"
+                    style={{ clipPath: `inset(0 0 0 ${split * 100}%)` }}
+                  >
+                    {renderFramed(overlay.url, overlay.label)}
+                  </div>
+                  <div
+                    className="absolute top-0 bottom-0 w-4 -translate-x-1/2 cursor-ew-resize flex justify-center"
+                    style={{ left: `${split * 100}%` }}
+                    onPointerDown={onSplitPointerDown}
+                  >
+                    <div className="h-full w-0.5 bg-white/80 shadow" />
+                  </div>
+                </>
+              )}
+              {base && renderLabel(base.label)}
+              {mode !== "diff" &&
+                overlay &&
+                renderLabel(overlay.label, "right")}
+            </div>
+          )}
+
+          <div className="flex flex-col gap-3">
+            {isOverlayMode && (
+              <div className="flex flex-col gap-2 rounded-xl border border-white/10 bg-white/5 p-3">
+                <div className="text-xs text-[var(--muted)]">Base</div>
+                <SelectPopover
+                  value={base?.imageId ?? ""}
+                  onValueChange={(value) => setBaseId(value)}
+                  items={imageItems}
+                />
+                <div className="text-xs text-[var(--muted)]">Compare with</div>
+                <SelectPopover
+                  value={overlay?.imageId ?? ""}
+                  onValueChange={(value) => setOverlayId(value)}
+                  items={imageItems}
+                />
+                {mode === "split" && (
+                  <>
+                    <div className="flex items-center justify-between text-xs text-[var(--muted)]">
+                      <span>Split</span>
+                      <span>{Math.round(split * 100)}%</span>
+                    </div>
+                    <Slider
+                      value={[split]}
+                      min={0}
+                      max={1}
+                      step={0.01}
+                      onValueChange={(value) => setSplit(value[0] ?? 0.5)}
+                    />
+                  </>
+                )}
+                {mode === "onion" && (
+                  <>
+                    <div className="flex items-center justify-between text-xs text-[var(--muted)]">
+                      <span>Overlay opacity</span>
+                      <span>{Math.round(opacity * 100)}%</span>
+                    </div>
+                    <Slider
+                      value={[opacity]}
+                      min={0}
+                      max={1}
+                      step={0.01}
+                      onValueChange={(value) => setOpacity(value[0] ?? 0.5)}
+                    />
+                  </>
+                )}
+                {mode === "diff" && (
+                  <>
+                    <div className="flex items-center justify-between text-xs text-[var(--muted)]">
+                      <span>Gain</span>
+                      <span>×{gain}</span>
+                    </div>
+                    <Slider
+                      value={[gain]}
+                      min={1}
+                      max={16}
+                      step={1}
+                      onValueChange={(value) => setGain(value[0] ?? 1)}
+                    />
+                    {currentDiff && (
+                      <div className="space-y-1 text-sm text-[var(--text)]">
+                        <div>
+                          Mean difference:{" "}
+                          {(currentDiff.meanDiff * 100).toFixed(2)}%
+                        </div>
+                        <div>
+                          Changed pixels:{" "}
+                          {(currentDiff.changedRatio * 100).toFixed(2)}%
+                        </div>
+                      </div>
+                    )}
+                    {base &&
+                      overlay &&
+                      (base.width !== overlay.width ||
+                        base.height !== overlay.height) && (
+                        <div className="text-xs text-[var(--muted)]">
+                          Sizes differ ({overlay.width} × {overlay.height} vs{" "}
+                          {base.width} × {base.height}); the second image is
+                          resampled to the base.
+                        </div>
+                      )}
+                  </>
+                )}
+              </div>
+            )}
+
+            <div className="flex flex-col gap-2 rounded-xl border border-white/10 bg-white/5 p-3">
+              <div className="flex items-center justify-between text-xs text-[var(--muted)]">
+                <span>Zoom</span>
+                <span>{Math.round(scale * 100)}%</span>
+              </div>
+              <Slider
+                value={[zoom]}
+                min={minZoom}
+                max={maxZoom}
+                step={0.01}
+                onValueChange={(value) => applyZoom(value[0] ?? 1)}
+              />
+              <div className="flex gap-2">
+                <Button
+                  type="button"
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => resetView()}
+                >
+                  Fit
+                </Button>
+                <Button
+                  type="button"
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => resetView(fitScale > 0 ? 1 / fitScale : 1)}
+                >
+                  100%
+                </Button>
+              </div>
+            </div>
+
+            <div className="text-xs text-[var(--muted)]">
+              Zoom and pan are synced across all panes. Drag to pan, scroll to
+              zoom.
+              {mode === "split" && " Drag the divider to move the split."}
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
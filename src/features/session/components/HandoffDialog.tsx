@@ -0,0 +1,116 @@
+import { useMemo, useState } from "react";
+import { useStore } from "@nanostores/react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@components/ui/dialog";
+import { Input } from "@components/ui/input";
+import { Button } from "@components/ui/button";
+import { $models } from "@stores/modelsStore";
+import { $settings } from "@stores/settingsStore";
+import { inferModelCapabilities } from "../../../lib/modelMeta";
+
+const MAX_RESULTS = 50;
+
+export default function HandoffDialog({
+  open,
+  sourceModelId,
+  sourceModelName,
+  runIndex,
+  onClose,
+  onSelect,
+}: {
+  open: boolean;
+  sourceModelId: string;
+  sourceModelName: string;
+  runIndex?: number;
+  onClose: () => void;
+  onSelect: (modelId: string) => void;
+}) {
+  const models = useStore($models);
+  const settings = useStore($settings);
+  const [query, setQuery] = useState("");
+
+  const candidates = useMemo(() => {
+    const queryWords = query.trim().toLowerCase().split(/\s+/).filter(Boolean);
+    const names = new Map(models.map((model) => [model.id, model.name]));
+    // Columns already in the session first, then the rest of the catalog
+    const ids = Array.from(
+      new Set([...settings.selectedModelIds, ...models.map((m) => m.id)]),
+    ).filter((id) => id !== sourceModelId);
+    return ids
+      .filter((id) => {
+        const name = names.get(id) ?? id;
+        return queryWords.every(
+          (word) =>
+            id.toLowerCase().includes(word) ||
+            name.toLowerCase().includes(word),
+        );
+      })
+      .slice(0, MAX_RESULTS)
+      .map((id) => {
+        const model = models.find((item) => item.id === id);
+        return {
+          id,
+          name: names.get(id) ?? id,
+          inSession: settings.selectedModelIds.includes(id),
+          imageOutput: model
+            ? inferModelCapabilities(model).likelyImageOutput
+            : false,
+        };
+      });
+  }, [models, query, settings.selectedModelIds, sourceModelId]);
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !next && onClose()}>
+      <DialogContent className="w-[min(92vw,560px)]">
+        <DialogHeader>
+          <DialogTitle>Continue with another model</DialogTitle>
+          <DialogDescription>
+            Sends {sourceModelName}
+            {runIndex !== undefined ? ` run ${runIndex}` : ""} (prompts and its
+            image outputs, up to the latest prompt) to the chosen model as a new
+            run in its column.
+          </DialogDescription>
+        </DialogHeader>
+        <Input
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+          placeholder="Search models"
+          autoFocus
+        />
+        <div className="mt-3 flex max-h-[50vh] flex-col gap-1 overflow-y-auto">
+          {candidates.length === 0 && (
+            <p className="text-xs text-[var(--muted)]">No models match.</p>
+          )}
+          {candidates.map((candidate) => (
+            <Button
+              key={candidate.id}
+              type="button"
+              variant="ghost"
+              className="justify-between text-left"
+              onClick={() => onSelect(candidate.id)}
+            >
+              <span className="truncate">
+                {candidate.name}
+                <span className="ml-2 text-xs text-[var(--muted)]">
+                  {candidate.id}
+                </span>
+              </span>
+              <span className="shrink-0 text-xs text-[var(--muted)]">
+                {candidate.inSession
+                  ? "in session"
+                  : candidate.imageOutput
+                    ? "image output"
+                    : ""}
+              </span>
+            </Button>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
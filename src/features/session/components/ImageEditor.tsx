@@ -8,6 +8,7 @@ import {
   DialogTitle,
 } from "@components/ui/dialog";
 import { Slider } from "@components/ui/slider";
+import { Brush, Eraser, Redo2, Undo2 } from "lucide-react";
 import styles from "../SessionView.module.scss";
 import {
   clamp,
@@ -15,9 +16,44 @@ import {
   downscaleImage,
   loadImageFromFile,
 } from "../../../lib/image";
+import type { ImageAspectRatio } from "../../../types/imageGeneration";
 
 const SIZE_OPTIONS = [256, 512, 1024] as const;
 const PREVIEW_SIZE = 420;
+const MASK_TINT = "rgb(255, 64, 96)";
+const MAX_MASK_HISTORY = 30;
+const MIN_FREE_CROP = 8;
+const ASPECT_PRESETS: ImageAspectRatio[] = [
+  "1:1",
+  "2:3",
+  "3:2",
+  "3:4",
+  "4:3",
+  "4:5",
+  "5:4",
+  "9:16",
+  "16:9",
+  "21:9",
+];
+
+// "free" draws a crop rectangle; "none" keeps the whole image and only downscales
+type CropPreset = ImageAspectRatio | "free" | "none";
+type CropRect = { x: number; y: number; width: number; height: number };
+
+type EditorMode = "crop" | "mask";
+type MaskTool = "brush" | "eraser";
+
+type StrokeState = {
+  pointerId: number;
+  lastX: number;
+  lastY: number;
+};
+
+type FreeCropDrag = {
+  pointerId: number;
+  startX: number;
+  startY: number;
+};
 
 type DragState = {
   pointerId: number;
@@ -27,46 +63,62 @@ type DragState = {
   startOffsetY: number;
 };
 
+function parseAspectRatio(ratio: ImageAspectRatio) {
+  const [width, height] = ratio.split(":").map(Number);
+  return width / height;
+}
+
+/** Fits a width/height ratio into a box whose longest side is `longest`. */
+function fitLongestSide(ratio: number, longest: number) {
+  return ratio >= 1
+    ? { width: longest, height: Math.max(1, Math.round(longest / ratio)) }
+    : { width: Math.max(1, Math.round(longest * ratio)), height: longest };
+}
+
 function drawCropped({
   ctx,
   image,
-  targetSize,
+  targetWidth,
+  targetHeight,
   zoom,
   offsetX,
   offsetY,
 }: {
   ctx: CanvasRenderingContext2D;
   image: HTMLImageElement;
-  targetSize: number;
+  targetWidth: number;
+  targetHeight: number;
   zoom: number;
   offsetX: number;
   offsetY: number;
 }) {
-  ctx.clearRect(0, 0, targetSize, targetSize);
+  ctx.clearRect(0, 0, targetWidth, targetHeight);
 
   const baseScale = computeCoverScale({
     sourceWidth: image.naturalWidth,
     sourceHeight: image.naturalHeight,
-    targetWidth: targetSize,
-    targetHeight: targetSize,
+    targetWidth,
+    targetHeight,
   });
   const scale = baseScale * zoom;
   const drawW = image.naturalWidth * scale;
   const drawH = image.naturalHeight * scale;
-  const x = targetSize / 2 - drawW / 2 + offsetX;
-  const y = targetSize / 2 - drawH / 2 + offsetY;
+  const x = targetWidth / 2 - drawW / 2 + offsetX;
+  const y = targetHeight / 2 - drawH / 2 + offsetY;
   ctx.drawImage(image, x, y, drawW, drawH);
 }
 
 function clampOffsets({
   image,
-  targetSize,
+  targetWidth,
+  targetHeight,
   zoom,
   offsetX,
   offsetY,
 }: {
   image: HTMLImageElement;
-  targetSize: number;
+  targetWidth: number;
+  targetHeight: number;
   zoom: number;
   offsetX: number;
   offsetY: number;
@@ -74,20 +126,81 @@ function clampOffsets({
   const baseScale = computeCoverScale({
     sourceWidth: image.naturalWidth,
     sourceHeight: image.naturalHeight,
-    targetWidth: targetSize,
-    targetHeight: targetSize,
+    targetWidth,
+    targetHeight,
   });
   const scale = baseScale * zoom;
   const drawW = image.naturalWidth * scale;
   const drawH = image.naturalHeight * scale;
-  const maxX = Math.max(0, (drawW - targetSize) / 2);
-  const maxY = Math.max(0, (drawH - targetSize) / 2);
+  const maxX = Math.max(0, (drawW - targetWidth) / 2);
+  const maxY = Math.max(0, (drawH - targetHeight) / 2);
   return {
     offsetX: clamp(offsetX, -maxX, maxX),
     offsetY: clamp(offsetY, -maxY, maxY),
   };
 }
 
+/**
+ * Renders the painted overlay inside `region` as a black/white PNG at output
+ * size (white = region to edit). Returns null when nothing is painted.
+ */
+async function buildMaskBlob(
+  maskCanvas: HTMLCanvasElement,
+  region: CropRect,
+  width: number,
+  height: number,
+): Promise<Blob | null> {
+  const maskCtx = maskCanvas.getContext("2d");
+  if (!maskCtx) return null;
+  const { data } = maskCtx.getImageData(
+    Math.floor(region.x),
+    Math.floor(region.y),
+    Math.max(1, Math.round(region.width)),
+    Math.max(1, Math.round(region.height)),
+  );
+  let painted = false;
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] > 0) {
+      painted = true;
+      break;
+    }
+  }
+  if (!painted) return null;
+
+  // Recolor strokes to pure white while keeping their alpha
+  const white = document.createElement("canvas");
+  white.width = maskCanvas.width;
+  white.height = maskCanvas.height;
+  const whiteCtx = white.getContext("2d");
+  if (!whiteCtx) return null;
+  whiteCtx.drawImage(maskCanvas, 0, 0);
+  whiteCtx.globalCompositeOperation = "source-in";
+  whiteCtx.fillStyle = "#ffffff";
+  whiteCtx.fillRect(0, 0, white.width, white.height);
+
+  const out = document.createElement("canvas");
+  out.width = width;
+  out.height = height;
+  const ctx = out.getContext("2d");
+  if (!ctx) return null;
+  ctx.fillStyle = "#000000";
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(
+    white,
+    region.x,
+    region.y,
+    region.width,
+    region.height,
+    0,
+    0,
+    width,
+    height,
+  );
+  return await new Promise<Blob | null>((resolve) =>
+    out.toBlob((result) => resolve(result), "image/png"),
+  );
+}
+
 export default function ImageEditor({
   file,
   open,
@@ -96,10 +209,27 @@ export default function ImageEditor({
 }: {
   file: File;
   open: boolean;
-  onConfirm: (blob: Blob, size: number) => void;
+  onConfirm: (result: {
+    blob: Blob;
+    size: number;
+    width: number;
+    height: number;
+    mask: Blob | null;
+  }) => void;
   onCancel: () => void;
 }) {
   const previewCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const maskCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const strokeRef = useRef<StrokeState | null>(null);
+  const freeDragRef = useRef<FreeCropDrag | null>(null);
+  const [preset, setPreset] = useState<CropPreset>("1:1");
+  const [freeRect, setFreeRect] = useState<CropRect | null>(null);
+  const [mode, setMode] = useState<EditorMode>("crop");
+  const [tool, setTool] = useState<MaskTool>("brush");
+  const [brushSize, setBrushSize] = useState(32);
+  const [showMaskOnly, setShowMaskOnly] = useState(false);
+  const [undoStack, setUndoStack] = useState<ImageData[]>([]);
+  const [redoStack, setRedoStack] = useState<ImageData[]>([]);
   const [size, setSize] = useState<(typeof SIZE_OPTIONS)[number]>(512);
   const [zoom, setZoom] = useState(1.2);
   const [offsetX, setOffsetX] = useState(0);
@@ -107,6 +237,26 @@ export default function ImageEditor({
   const [image, setImage] = useState<HTMLImageElement | null>(null);
   const dragRef = useRef<DragState | null>(null);
 
+  const isCoverCrop = preset !== "free" && preset !== "none";
+  const imageRatio = image ? image.naturalWidth / image.naturalHeight : 1;
+  const frameRatio = isCoverCrop ? parseAspectRatio(preset) : imageRatio;
+  const preview = fitLongestSide(frameRatio, PREVIEW_SIZE);
+  const cropRect: CropRect =
+    preset === "free" && freeRect
+      ? freeRect
+      : { x: 0, y: 0, width: preview.width, height: preview.height };
+  const output = (() => {
+    if (isCoverCrop) return fitLongestSide(frameRatio, size);
+    if (preset === "free") {
+      return fitLongestSide(cropRect.width / cropRect.height, size);
+    }
+    const longest = image
+      ? Math.max(image.naturalWidth, image.naturalHeight)
+      : size;
+    // Never upscale when only downscaling
+    return fitLongestSide(imageRatio, Math.min(size, longest));
+  })();
+
   useEffect(() => {
     if (!open) return;
     const previousOverflow = document.body.style.overflow;
@@ -124,7 +274,8 @@ export default function ImageEditor({
     }
     const clamped = clampOffsets({
       image,
-      targetSize: PREVIEW_SIZE,
+      targetWidth: preview.width,
+      targetHeight: preview.height,
       zoom,
       offsetX: nextX,
       offsetY: nextY,
@@ -195,23 +346,94 @@ export default function ImageEditor({
   useEffect(() => {
     if (!image || !previewCanvasRef.current) return;
     const canvas = previewCanvasRef.current;
-    canvas.width = PREVIEW_SIZE;
-    canvas.height = PREVIEW_SIZE;
+    canvas.width = preview.width;
+    canvas.height = preview.height;
     const ctx = canvas.getContext("2d");
     if (!ctx) return;
+    if (showMaskOnly) {
+      ctx.fillStyle = "#000000";
+      ctx.fillRect(0, 0, preview.width, preview.height);
+      return;
+    }
+    // Free and no-crop modes show the whole image; the frame matches its ratio
     drawCropped({
       ctx,
       image,
-      targetSize: PREVIEW_SIZE,
-      zoom,
-      offsetX,
-      offsetY,
+      targetWidth: preview.width,
+      targetHeight: preview.height,
+      zoom: isCoverCrop ? zoom : 1,
+      offsetX: isCoverCrop ? offsetX : 0,
+      offsetY: isCoverCrop ? offsetY : 0,
     });
-  }, [image, zoom, offsetX, offsetY]);
+    if (preset === "free" && freeRect) {
+      ctx.save();
+      ctx.fillStyle = "rgba(0, 0, 0, 0.55)";
+      ctx.beginPath();
+      ctx.rect(0, 0, preview.width, preview.height);
+      ctx.rect(freeRect.x, freeRect.y, freeRect.width, freeRect.height);
+      ctx.fill("evenodd");
+      ctx.strokeStyle = "#ffffff";
+      ctx.setLineDash([6, 4]);
+      ctx.strokeRect(freeRect.x, freeRect.y, freeRect.width, freeRect.height);
+      ctx.restore();
+    }
+  }, [
+    image,
+    zoom,
+    offsetX,
+    offsetY,
+    showMaskOnly,
+    preview.width,
+    preview.height,
+    isCoverCrop,
+    preset,
+    freeRect,
+  ]);
+
+  const getCanvasPoint = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = event.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: clamp(
+        ((event.clientX - rect.left) * canvas.width) / rect.width,
+        0,
+        canvas.width,
+      ),
+      y: clamp(
+        ((event.clientY - rect.top) * canvas.height) / rect.height,
+        0,
+        canvas.height,
+      ),
+    };
+  };
+
+  const selectPreset = (next: CropPreset) => {
+    setPreset(next);
+    setFreeRect(null);
+    setOffsetX(0);
+    setOffsetY(0);
+    // The mask is painted in frame coordinates, so a new frame starts clean
+    const maskCanvas = maskCanvasRef.current;
+    maskCanvas
+      ?.getContext("2d")
+      ?.clearRect(0, 0, maskCanvas.width, maskCanvas.height);
+    setUndoStack([]);
+    setRedoStack([]);
+  };
 
   const onPointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
-    if (!image) return;
+    if (!image || preset === "none") return;
     event.currentTarget.setPointerCapture(event.pointerId);
+    if (preset === "free") {
+      const point = getCanvasPoint(event);
+      freeDragRef.current = {
+        pointerId: event.pointerId,
+        startX: point.x,
+        startY: point.y,
+      };
+      setFreeRect({ x: point.x, y: point.y, width: 0, height: 0 });
+      return;
+    }
     dragRef.current = {
       pointerId: event.pointerId,
       startX: event.clientX,
@@ -222,6 +444,17 @@ export default function ImageEditor({
   };
 
   const onPointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const freeDrag = freeDragRef.current;
+    if (freeDrag && freeDrag.pointerId === event.pointerId) {
+      const point = getCanvasPoint(event);
+      setFreeRect({
+        x: Math.min(freeDrag.startX, point.x),
+        y: Math.min(freeDrag.startY, point.y),
+        width: Math.abs(point.x - freeDrag.startX),
+        height: Math.abs(point.y - freeDrag.startY),
+      });
+      return;
+    }
     const drag = dragRef.current;
     if (!drag || drag.pointerId !== event.pointerId) return;
     const dx = event.clientX - drag.startX;
@@ -230,31 +463,170 @@ export default function ImageEditor({
   };
 
   const onPointerUp = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const freeDrag = freeDragRef.current;
+    if (freeDrag && freeDrag.pointerId === event.pointerId) {
+      freeDragRef.current = null;
+      // A click without a real drag resets to the whole image
+      setFreeRect((prev) =>
+        prev && prev.width >= MIN_FREE_CROP && prev.height >= MIN_FREE_CROP
+          ? prev
+          : null,
+      );
+      return;
+    }
     const drag = dragRef.current;
     if (!drag || drag.pointerId !== event.pointerId) return;
     dragRef.current = null;
   };
 
+  const getMaskContext = () =>
+    maskCanvasRef.current?.getContext("2d", { willReadFrequently: true }) ??
+    null;
+
+  const snapshotMask = () => {
+    const ctx = getMaskContext();
+    if (!ctx) return null;
+    return ctx.getImageData(0, 0, ctx.canvas.width, ctx.canvas.height);
+  };
+
+  const pushUndo = () => {
+    const snapshot = snapshotMask();
+    if (!snapshot) return;
+    setUndoStack((prev) => [...prev.slice(-(MAX_MASK_HISTORY - 1)), snapshot]);
+    setRedoStack([]);
+  };
+
+  const paintStroke = (
+    fromX: number,
+    fromY: number,
+    toX: number,
+    toY: number,
+  ) => {
+    const ctx = getMaskContext();
+    if (!ctx) return;
+    ctx.save();
+    ctx.globalCompositeOperation =
+      tool === "eraser" ? "destination-out" : "source-over";
+    ctx.strokeStyle = MASK_TINT;
+    ctx.fillStyle = MASK_TINT;
+    ctx.lineWidth = brushSize;
+    ctx.lineCap = "round";
+    ctx.lineJoin = "round";
+    ctx.beginPath();
+    ctx.moveTo(fromX, fromY);
+    ctx.lineTo(toX, toY);
+    ctx.stroke();
+    ctx.beginPath();
+    ctx.arc(toX, toY, brushSize / 2, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.restore();
+  };
+
+  const onMaskPointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (mode !== "mask") return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    pushUndo();
+    const point = getCanvasPoint(event);
+    strokeRef.current = {
+      pointerId: event.pointerId,
+      lastX: point.x,
+      lastY: point.y,
+    };
+    paintStroke(point.x, point.y, point.x, point.y);
+  };
+
+  const onMaskPointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const stroke = strokeRef.current;
+    if (!stroke || stroke.pointerId !== event.pointerId) return;
+    const point = getCanvasPoint(event);
+    paintStroke(stroke.lastX, stroke.lastY, point.x, point.y);
+    stroke.lastX = point.x;
+    stroke.lastY = point.y;
+  };
+
+  const onMaskPointerUp = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const stroke = strokeRef.current;
+    if (!stroke || stroke.pointerId !== event.pointerId) return;
+    strokeRef.current = null;
+  };
+
+  const undoMask = () => {
+    const previous = undoStack[undoStack.length - 1];
+    const current = snapshotMask();
+    const ctx = getMaskContext();
+    if (!previous || !current || !ctx) return;
+    ctx.putImageData(previous, 0, 0);
+    setUndoStack((prev) => prev.slice(0, -1));
+    setRedoStack((prev) => [...prev, current]);
+  };
+
+  const redoMask = () => {
+    const next = redoStack[redoStack.length - 1];
+    const current = snapshotMask();
+    const ctx = getMaskContext();
+    if (!next || !current || !ctx) return;
+    ctx.putImageData(next, 0, 0);
+    setRedoStack((prev) => prev.slice(0, -1));
+    setUndoStack((prev) => [...prev, current]);
+  };
+
+  const clearMask = () => {
+    const ctx = getMaskContext();
+    if (!ctx) return;
+    pushUndo();
+    ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+  };
+
   const handleConfirm = async () => {
     if (!image) return;
     const outCanvas = document.createElement("canvas");
-    outCanvas.width = size;
-    outCanvas.height = size;
+    outCanvas.width = output.width;
+    outCanvas.height = output.height;
     const ctx = outCanvas.getContext("2d");
     if (!ctx) return;
-    const scaleFactor = size / PREVIEW_SIZE;
-    drawCropped({
-      ctx,
-      image,
-      targetSize: size,
-      zoom,
-      offsetX: offsetX * scaleFactor,
-      offsetY: offsetY * scaleFactor,
-    });
+    if (isCoverCrop) {
+      const scaleFactor = output.width / preview.width;
+      drawCropped({
+        ctx,
+        image,
+        targetWidth: output.width,
+        targetHeight: output.height,
+        zoom,
+        offsetX: offsetX * scaleFactor,
+        offsetY: offsetY * scaleFactor,
+      });
+    } else {
+      const sourceScale = image.naturalWidth / preview.width;
+      ctx.drawImage(
+        image,
+        cropRect.x * sourceScale,
+        cropRect.y * sourceScale,
+        cropRect.width * sourceScale,
+        cropRect.height * sourceScale,
+        0,
+        0,
+        output.width,
+        output.height,
+      );
+    }
     const blob = await new Promise<Blob>((resolve) =>
       outCanvas.toBlob((result) => resolve(result ?? new Blob()), "image/png"),
     );
-    onConfirm(blob, size);
+    const mask = maskCanvasRef.current
+      ? await buildMaskBlob(
+          maskCanvasRef.current,
+          cropRect,
+          output.width,
+          output.height,
+        )
+      : null;
+    onConfirm({
+      blob,
+      size,
+      width: output.width,
+      height: output.height,
+      mask,
+    });
   };
 
   return (
@@ -263,56 +635,244 @@ export default function ImageEditor({
         <DialogHeader>
           <DialogTitle>Quick Edit</DialogTitle>
           <DialogDescription>
-            Drag to pan. Use the slider to zoom. Output is square.
+            Pick a crop shape, then drag to pan or draw the crop. Switch to Mask
+            to paint the region the model should edit.
           </DialogDescription>
         </DialogHeader>
 
         <div className={styles.imageEditorLayout}>
           <div>
-            <canvas
-              ref={previewCanvasRef}
-              className={styles.imageEditorCanvas}
-              onPointerDown={onPointerDown}
-              onPointerMove={onPointerMove}
-              onPointerUp={onPointerUp}
-              onPointerCancel={onPointerUp}
-              style={{ touchAction: "none", cursor: "grab" }}
-            />
+            <div
+              className={styles.imageEditorStage}
+              // Keep tall frames within the viewport
+              style={{
+                maxWidth: `calc(60vh * ${preview.width / preview.height})`,
+              }}
+            >
+              <canvas
+                ref={previewCanvasRef}
+                className={styles.imageEditorCanvas}
+                onPointerDown={onPointerDown}
+                onPointerMove={onPointerMove}
+                onPointerUp={onPointerUp}
+                onPointerCancel={onPointerUp}
+                style={{
+                  touchAction: "none",
+                  cursor:
+                    preset === "free"
+                      ? "crosshair"
+                      : preset === "none"
+                        ? "default"
+                        : "grab",
+                  aspectRatio: `${preview.width} / ${preview.height}`,
+                }}
+              />
+              <canvas
+                ref={maskCanvasRef}
+                width={preview.width}
+                height={preview.height}
+                className={`${styles.imageEditorMaskCanvas} ${
+                  showMaskOnly ? styles.imageEditorMaskOnly : ""
+                }`}
+                onPointerDown={onMaskPointerDown}
+                onPointerMove={onMaskPointerMove}
+                onPointerUp={onMaskPointerUp}
+                onPointerCancel={onMaskPointerUp}
+                style={{
+                  touchAction: "none",
+                  cursor: "crosshair",
+                  pointerEvents: mode === "mask" ? "auto" : "none",
+                }}
+              />
+            </div>
             <div className="mt-2 text-xs text-[var(--muted)]">
-              Tip: zoom first, then drag to frame the subject.
+              {mode === "crop"
+                ? preset === "free"
+                  ? "Drag on the image to draw the crop rectangle."
+                  : preset === "none"
+                    ? "The whole image is kept and only downscaled."
+                    : "Tip: zoom first, then drag to frame the subject."
+                : "Paint over the area to change. The mask follows the framed output."}
             </div>
           </div>
 
           <div className={styles.imageEditorSidebar}>
             <div className={styles.imageEditorControl}>
-              <label className="text-xs text-[var(--muted)]">Zoom</label>
-              <Slider
-                value={[zoom]}
-                min={1}
-                max={3}
-                step={0.01}
-                onValueChange={(value) => {
-                  const nextZoom = value[0] ?? 1;
-                  setZoom(nextZoom);
-                  if (!image) return;
-                  const clamped = clampOffsets({
-                    image,
-                    targetSize: PREVIEW_SIZE,
-                    zoom: nextZoom,
-                    offsetX,
-                    offsetY,
-                  });
-                  setOffsetX(clamped.offsetX);
-                  setOffsetY(clamped.offsetY);
-                }}
-              />
-              <div className={styles.imageEditorHint}>
-                {Math.round(zoom * 100)}%
+              <label className="text-xs text-[var(--muted)]">Mode</label>
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  variant={mode === "crop" ? "default" : "outline"}
+                  size="sm"
+                  type="button"
+                  onClick={() => setMode("crop")}
+                >
+                  Crop
+                </Button>
+                <Button
+                  variant={mode === "mask" ? "default" : "outline"}
+                  size="sm"
+                  type="button"
+                  onClick={() => setMode("mask")}
+                >
+                  Mask
+                </Button>
+              </div>
+            </div>
+
+            {mode === "mask" && (
+              <>
+                <div className={styles.imageEditorControl}>
+                  <label className="text-xs text-[var(--muted)]">Tool</label>
+                  <div className="flex flex-wrap gap-2">
+                    <Button
+                      variant={tool === "brush" ? "default" : "outline"}
+                      size="sm"
+                      type="button"
+                      onClick={() => setTool("brush")}
+                    >
+                      <Brush size={14} />
+                      Brush
+                    </Button>
+                    <Button
+                      variant={tool === "eraser" ? "default" : "outline"}
+                      size="sm"
+                      type="button"
+                      onClick={() => setTool("eraser")}
+                    >
+                      <Eraser size={14} />
+                      Eraser
+                    </Button>
+                  </div>
+                </div>
+
+                <div className={styles.imageEditorControl}>
+                  <label className="text-xs text-[var(--muted)]">
+                    Brush size
+                  </label>
+                  <Slider
+                    value={[brushSize]}
+                    min={4}
+                    max={120}
+                    step={1}
+                    onValueChange={(value) => setBrushSize(value[0] ?? 32)}
+                  />
+                  <div className={styles.imageEditorHint}>{brushSize}px</div>
+                </div>
+
+                <div className={styles.imageEditorControl}>
+                  <div className="flex flex-wrap gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      type="button"
+                      onClick={undoMask}
+                      disabled={undoStack.length === 0}
+                      title="Undo"
+                    >
+                      <Undo2 size={14} />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      type="button"
+                      onClick={redoMask}
+                      disabled={redoStack.length === 0}
+                      title="Redo"
+                    >
+                      <Redo2 size={14} />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      type="button"
+                      onClick={clearMask}
+                    >
+                      Clear
+                    </Button>
+                    <Button
+                      variant={showMaskOnly ? "default" : "outline"}
+                      size="sm"
+                      type="button"
+                      onClick={() => setShowMaskOnly((prev) => !prev)}
+                    >
+                      Preview mask
+                    </Button>
+                  </div>
+                  <div className={styles.imageEditorHint}>
+                    White marks the region to edit. The mask is sent as a second
+                    image with a note explaining it.
+                  </div>
+                </div>
+              </>
+            )}
+
+            <div className={styles.imageEditorControl}>
+              <label className="text-xs text-[var(--muted)]">Crop</label>
+              <div className="flex flex-wrap gap-2">
+                {ASPECT_PRESETS.map((option) => (
+                  <Button
+                    key={option}
+                    variant={preset === option ? "default" : "outline"}
+                    size="sm"
+                    type="button"
+                    onClick={() => selectPreset(option)}
+                  >
+                    {option}
+                  </Button>
+                ))}
+                <Button
+                  variant={preset === "free" ? "default" : "outline"}
+                  size="sm"
+                  type="button"
+                  onClick={() => selectPreset("free")}
+                >
+                  Free
+                </Button>
+                <Button
+                  variant={preset === "none" ? "default" : "outline"}
+                  size="sm"
+                  type="button"
+                  onClick={() => selectPreset("none")}
+                >
+                  No crop
+                </Button>
               </div>
             </div>
 
+            {isCoverCrop && (
+              <div className={styles.imageEditorControl}>
+                <label className="text-xs text-[var(--muted)]">Zoom</label>
+                <Slider
+                  value={[zoom]}
+                  min={1}
+                  max={3}
+                  step={0.01}
+                  onValueChange={(value) => {
+                    const nextZoom = value[0] ?? 1;
+                    setZoom(nextZoom);
+                    if (!image) return;
+                    const clamped = clampOffsets({
+                      image,
+                      targetWidth: preview.width,
+                      targetHeight: preview.height,
+                      zoom: nextZoom,
+                      offsetX,
+                      offsetY,
+                    });
+                    setOffsetX(clamped.offsetX);
+                    setOffsetY(clamped.offsetY);
+                  }}
+                />
+                <div className={styles.imageEditorHint}>
+                  {Math.round(zoom * 100)}%
+                </div>
+              </div>
+            )}
+
             <div className={styles.imageEditorControl}>
-              <label className="text-xs text-[var(--muted)]">Output size</label>
+              <label className="text-xs text-[var(--muted)]">
+                Longest side
+              </label>
               <div className="flex flex-wrap gap-2">
                 {SIZE_OPTIONS.map((option) => (
                   <Button
@@ -327,7 +887,7 @@ export default function ImageEditor({
                 ))}
               </div>
               <div className={styles.imageEditorHint}>
-                Output: {size} × {size}
+                Output: {output.width} × {output.height}
               </div>
             </div>
           </div>
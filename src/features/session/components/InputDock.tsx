@@ -7,6 +7,7 @@ import { Input } from "@components/ui/input";
 import { Textarea } from "@components/ui/textarea";
 import { SelectPopover } from "@components/ui/select-popover";
 import {
+  $autoIterate,
   $inputState,
   addPendingImage,
   clearInput,
@@ -14,19 +15,89 @@ import {
   setInputRole,
   setInputText,
   setMultiplier,
+  updateAutoIterate,
 } from "@stores/inputStore";
 import { $settings } from "@stores/settingsStore";
-import { pushMessageToAll, sendMessageToAll } from "@stores/sessionsStore";
+import { $models } from "@stores/modelsStore";
+import {
+  $activeSession,
+  pushMessageToAll,
+  sendChain,
+  sendMessageToAll,
+  setChainTemplate,
+  setSessionMode,
+} from "@stores/sessionsStore";
+import { DEFAULT_CHAIN_TEMPLATE } from "../../../lib/session/chain";
+import {
+  $dailySpend,
+  estimateSendCost,
+  getBudgetBreach,
+} from "@stores/budgetStore";
+import { $uiState } from "@stores/uiStore";
+import {
+  isProviderConfigured,
+  resolveProviderConfig,
+} from "../../../lib/providers";
 import ImageEditor from "./ImageEditor";
-import { ImagePlus, Send, Upload, X } from "lucide-react";
+import { ImagePlus, Link2, Repeat, Send, Upload, X } from "lucide-react";
 
 export default function InputDock() {
   const inputState = useStore($inputState);
+  const autoIterate = useStore($autoIterate);
   const settings = useStore($settings);
+  const activeSession = useStore($activeSession);
+  const session = activeSession.session;
+  const uiState = useStore($uiState);
+  // Subscribed so the budget check below re-runs as spend comes in
+  useStore($dailySpend);
+  const models = useStore($models);
+  const isChain = session?.mode === "chain";
   const [editorFile, setEditorFile] = useState<File | null>(null);
   const fileInputRef = useRef<HTMLInputElement | null>(null);
 
-  const canSend = settings.selectedModelIds.length > 0 && settings.apiKey;
+  const hasConfiguredProvider = settings.selectedModelIds.some((modelId) =>
+    isProviderConfigured(resolveProviderConfig(settings, modelId)),
+  );
+  const targetModelIds = useMemo(
+    () =>
+      uiState.soloModelIds.size > 0
+        ? settings.selectedModelIds.filter((id) => uiState.soloModelIds.has(id))
+        : settings.selectedModelIds,
+    [settings.selectedModelIds, uiState.soloModelIds],
+  );
+  const estimate = useMemo(
+    () =>
+      estimateSendCost({
+        modelIds: targetModelIds,
+        // Chain steps each start a fresh run
+        messagesByModel: isChain ? {} : activeSession.messagesByModel,
+        text: inputState.text,
+        imageCount: isChain
+          ? Math.max(1, inputState.pendingImages.length)
+          : inputState.pendingImages.length,
+        multiplier: isChain ? 1 : inputState.multiplier,
+      }),
+    [
+      targetModelIds,
+      isChain,
+      activeSession.messagesByModel,
+      inputState.text,
+      inputState.pendingImages.length,
+      inputState.multiplier,
+    ],
+  );
+  const budgetBreach = getBudgetBreach(session, estimate.total);
+  const canSend =
+    settings.selectedModelIds.length > 0 &&
+    hasConfiguredProvider &&
+    !budgetBreach &&
+    !(
+      !isChain &&
+      autoIterate.enabled &&
+      (autoIterate.source === "judge"
+        ? !autoIterate.judgeModelId
+        : !autoIterate.instruction.trim())
+    );
 
   const isImageFile = (file: File) => {
     const hasImageType = file.type.startsWith("image/");
@@ -79,16 +150,34 @@ export default function InputDock() {
     setEditorFile(fileFromClipboard);
   };
 
-  const handleConfirmImage = (blob: Blob, size: number) => {
-    const file = new File([blob], `edited-${size}.png`, { type: blob.type });
-    addPendingImage(file, size);
+  const handleConfirmImage = ({
+    blob,
+    size,
+    width,
+    height,
+    mask,
+  }: {
+    blob: Blob;
+    size: number;
+    width: number;
+    height: number;
+    mask: Blob | null;
+  }) => {
+    const file = new File([blob], `edited-${width}x${height}.png`, {
+      type: blob.type,
+    });
+    const maskFile = mask
+      ? new File([mask], `mask-${width}x${height}.png`, { type: "image/png" })
+      : undefined;
+    addPendingImage(file, { size, width, height, maskFile });
     setEditorFile(null);
   };
 
   const handleSend = async () => {
     const stateToSend = { ...inputState };
     clearInput();
-    await sendMessageToAll(stateToSend);
+    if (isChain) await sendChain(stateToSend);
+    else await sendMessageToAll(stateToSend, undefined, autoIterate);
   };
 
   const handlePush = async () => {
@@ -102,6 +191,7 @@ export default function InputDock() {
       inputState.pendingImages.map((image) => ({
         id: image.id,
         url: image.previewUrl,
+        hasMask: Boolean(image.maskFile),
       })),
     [inputState.pendingImages],
   );
@@ -135,19 +225,56 @@ export default function InputDock() {
               ]}
             />
           </div>
-          <div className={styles.inputBlockNarrow}>
-            <SelectPopover
-              value={inputState.multiplier.toString()}
-              onValueChange={(value) => setMultiplier(Number(value))}
-              placeholder="Runs"
-              items={[
-                { value: "1", label: "1x" },
-                { value: "2", label: "2x" },
-                { value: "3", label: "3x" },
-                { value: "4", label: "4x" },
-              ]}
-            />
+          <div className="flex gap-1">
+            <Button
+              type="button"
+              size="sm"
+              variant={isChain ? "outline" : "default"}
+              onClick={() => void setSessionMode("parallel")}
+              title="Send the prompt to every model at once"
+            >
+              Parallel
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              variant={isChain ? "default" : "outline"}
+              onClick={() => void setSessionMode("chain")}
+              title="Run the models in column order, each editing the previous model's output image"
+            >
+              <Link2 size={14} />
+              Chain
+            </Button>
           </div>
+          {!isChain && (
+            <Button
+              type="button"
+              size="sm"
+              variant={autoIterate.enabled ? "default" : "outline"}
+              onClick={() =>
+                updateAutoIterate({ enabled: !autoIterate.enabled })
+              }
+              title="After each image answer, automatically send follow-up edit turns"
+            >
+              <Repeat size={14} />
+              Auto-iterate
+            </Button>
+          )}
+          {!isChain && (
+            <div className={styles.inputBlockNarrow}>
+              <SelectPopover
+                value={inputState.multiplier.toString()}
+                onValueChange={(value) => setMultiplier(Number(value))}
+                placeholder="Runs"
+                items={[
+                  { value: "1", label: "1x" },
+                  { value: "2", label: "2x" },
+                  { value: "3", label: "3x" },
+                  { value: "4", label: "4x" },
+                ]}
+              />
+            </div>
+          )}
           <div className={styles.inputBlockNarrow}>
             <Input
               ref={fileInputRef}
@@ -172,7 +299,7 @@ export default function InputDock() {
               type="button"
               variant="secondary"
               onClick={handlePush}
-              disabled={!settings.selectedModelIds.length}
+              disabled={!settings.selectedModelIds.length || isChain}
             >
               <Upload size={16} />
               Push
@@ -203,6 +330,11 @@ export default function InputDock() {
               {previewList.map((preview) => (
                 <div key={preview.id} className={styles.inputImageThumbnail}>
                   <img src={preview.url} alt="preview" />
+                  {preview.hasMask && (
+                    <span className="absolute bottom-1 left-1 rounded bg-black/70 px-1 text-[10px] text-white">
+                      mask
+                    </span>
+                  )}
                   <button
                     type="button"
                     className={styles.inputImageRemove}
@@ -217,9 +349,137 @@ export default function InputDock() {
           )}
         </div>
       </div>
-      {!settings.apiKey && (
+      {!isChain && autoIterate.enabled && (
+        <div className={styles.autoIteratePanel}>
+          <Button
+            type="button"
+            size="sm"
+            variant={
+              autoIterate.source === "instruction" ? "default" : "outline"
+            }
+            onClick={() => updateAutoIterate({ source: "instruction" })}
+          >
+            Fixed instruction
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            variant={autoIterate.source === "judge" ? "default" : "outline"}
+            onClick={() => updateAutoIterate({ source: "judge" })}
+          >
+            Judge critique
+          </Button>
+          {autoIterate.source === "instruction" ? (
+            <Input
+              className={styles.autoIterateWide}
+              value={autoIterate.instruction}
+              onChange={(event) =>
+                updateAutoIterate({ instruction: event.target.value })
+              }
+              placeholder="Follow-up instruction"
+            />
+          ) : (
+            <>
+              <Input
+                className={styles.autoIterateWide}
+                value={autoIterate.judgeModelId}
+                onChange={(event) =>
+                  updateAutoIterate({ judgeModelId: event.target.value.trim() })
+                }
+                placeholder="Judge model id, e.g. openai/gpt-4o"
+                list="auto-iterate-judges"
+              />
+              <datalist id="auto-iterate-judges">
+                {models.map((model) => (
+                  <option key={model.id} value={model.id}>
+                    {model.name}
+                  </option>
+                ))}
+              </datalist>
+            </>
+          )}
+          <label className="flex items-center gap-2 text-xs text-[var(--muted)]">
+            Rounds
+            <Input
+              type="number"
+              min={1}
+              max={20}
+              className="w-20"
+              value={autoIterate.maxRounds}
+              onChange={(event) =>
+                updateAutoIterate({
+                  maxRounds: Math.min(
+                    20,
+                    Math.max(1, Math.round(Number(event.target.value) || 1)),
+                  ),
+                })
+              }
+            />
+          </label>
+          <label className="flex items-center gap-2 text-xs text-[var(--muted)]">
+            Budget $
+            <Input
+              type="number"
+              min={0}
+              step={0.01}
+              className="w-24"
+              value={autoIterate.budgetUsd ?? ""}
+              onChange={(event) =>
+                updateAutoIterate({
+                  budgetUsd:
+                    event.target.value === ""
+                      ? null
+                      : Math.max(0, Number(event.target.value) || 0),
+                })
+              }
+              placeholder="none"
+            />
+          </label>
+        </div>
+      )}
+      {isChain && settings.selectedModelIds.length > 0 && (
+        <div className={styles.chainSteps}>
+          <span className="text-xs text-[var(--muted)]">
+            Step prompts run in column order. Use {"{{prompt}}"} for the message
+            above, {"{{previous}}"} for the previous step's text and{" "}
+            {"{{step}}"} for the step number.
+          </span>
+          {settings.selectedModelIds.map((modelId, index) => (
+            <div key={modelId} className={styles.chainStepRow}>
+              <span title={modelId}>
+                {index + 1}.{" "}
+                {models.find((model) => model.id === modelId)?.name ?? modelId}
+              </span>
+              <Input
+                value={session?.chainTemplates?.[modelId] ?? ""}
+                onChange={(event) =>
+                  void setChainTemplate(modelId, event.target.value)
+                }
+                placeholder={DEFAULT_CHAIN_TEMPLATE}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+      {targetModelIds.length > 0 && (
+        <p
+          className={`text-xs mt-3 ${
+            budgetBreach ? "text-[var(--danger)]" : "text-[var(--muted)]"
+          }`}
+        >
+          Estimated cost ≈ ${estimate.total.toFixed(4)}
+          {estimate.unpricedModelIds.length > 0 &&
+            ` (no pricing for ${estimate.unpricedModelIds.length} model${
+              estimate.unpricedModelIds.length === 1 ? "" : "s"
+            })`}
+          {!isChain && autoIterate.enabled && " for the first round"}
+          {budgetBreach && ` — blocked by the ${budgetBreach.message}`}
+        </p>
+      )}
+      {!hasConfiguredProvider && (
         <p className="text-xs text-[var(--muted)] mt-3">
-          Add your OpenRouter API key in Settings to enable Send.
+          Add your OpenRouter API key (or configure a provider) in Settings to
+          enable Send.
         </p>
       )}
     </div>
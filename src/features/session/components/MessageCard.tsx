@@ -1,27 +1,68 @@
+import { useState } from "react";
 import { useStore } from "@nanostores/react";
-import type { Message } from "../../../types/db";
+import type { Message, MessageCostSource, Rating } from "../../../types/db";
 import styles from "../SessionView.module.scss";
 import { Button } from "@components/ui/button";
+import { Textarea } from "@components/ui/textarea";
 import { formatDuration, formatTimestamp } from "../../../lib/utils";
+import { formatImageMetrics } from "../../../lib/metrics";
+import { ERROR_KIND_LABELS } from "../../../lib/errors";
+import RatingBar from "./RatingBar";
 import {
   $uiState,
   toggleCollapsedBlock,
   toggleHiddenMessage,
 } from "@stores/uiStore";
-import { Trash2, Eye, EyeOff, ChevronDown, ChevronUp } from "lucide-react";
+import {
+  Trash2,
+  Eye,
+  EyeOff,
+  ChevronDown,
+  ChevronUp,
+  Repeat,
+  GitCompare,
+  GitBranch,
+  Gavel,
+  Pencil,
+} from "lucide-react";
+
+const COST_SOURCE_TITLES: Record<MessageCostSource, string> = {
+  estimated: "Calculated from model pricing; the provider reported no cost",
+  reported: "Cost reported by the provider with the completion",
+  reconciled: "Billed cost from OpenRouter's generation endpoint",
+};
 
 export default function MessageCard({
   message,
   images,
   onRemove,
   onOpenImage,
+  onReplay,
+  onToggleCompare,
+  onEdit,
+  onJudge,
+  rating,
+  onRate,
+  onClearRating,
+  blind,
 }: {
   message: Message;
   images: Array<{ id: string; url: string }>;
   onRemove: () => void;
   onOpenImage: (imageId: string) => void;
+  onReplay?: () => void;
+  onToggleCompare?: (imageId: string) => void;
+  onEdit?: (text: string, mode: "branch" | "replace") => void;
+  onJudge?: () => void;
+  rating?: Rating;
+  onRate?: (update: Partial<Pick<Rating, "score" | "tags" | "note">>) => void;
+  onClearRating?: () => void;
+  // Blind voting: hide everything that hints at the model (cost, retries, judge)
+  blind?: boolean;
 }) {
   const uiState = useStore($uiState);
+  const [editText, setEditText] = useState<string | null>(null);
+  const compareIds = new Set(uiState.compareImages.map((item) => item.imageId));
   const isHidden = uiState.hiddenMessageIds.has(message.id);
   const reasoningId = `${message.id}:reasoning`;
   const thinkingId = `${message.id}:thinking`;
@@ -51,7 +92,22 @@ export default function MessageCard({
       }`}
     >
       <div className={styles.messageMeta}>
-        <span>{message.role.toUpperCase()}</span>
+        <span>
+          {message.role.toUpperCase()}
+          {message.autoIterate && (
+            <span
+              className="ml-2 normal-case text-[var(--muted)]"
+              title={
+                message.autoIterate.judgeModelId
+                  ? `Critique by ${message.autoIterate.judgeModelId}`
+                  : undefined
+              }
+            >
+              auto round {message.autoIterate.round}
+              {message.autoIterate.source === "judge" ? " · judge" : ""}
+            </span>
+          )}
+        </span>
         <div className="flex items-center gap-2">
           <Button
             variant="ghost"
@@ -69,13 +125,20 @@ export default function MessageCard({
       {!isHidden && (
         <>
           {/* Show error for assistant messages only */}
-          {message.error && message.role === "assistant" && (
-            <div
-              className={`text-xs text-[var(--danger)] break-words whitespace-pre-wrap ${styles.messageError}`}
-            >
-              {message.error}
-            </div>
-          )}
+          {(message.error || message.errorKind) &&
+            message.role === "assistant" && (
+              <div
+                className={`text-xs text-[var(--danger)] break-words whitespace-pre-wrap ${styles.messageError}`}
+              >
+                {message.errorKind && (
+                  <strong>
+                    {ERROR_KIND_LABELS[message.errorKind]}
+                    {message.error ? ": " : ""}
+                  </strong>
+                )}
+                {message.error}
+              </div>
+            )}
           {/* Show reasoning/thinking FIRST, before main content - always expanded by default */}
           {(hasReasoning || hasThinking) && (
             <div className="flex flex-col gap-2 mb-3">
@@ -135,30 +198,127 @@ export default function MessageCard({
             </div>
           )}
           {/* Main content text */}
-          {message.contentText && (
-            <div className={message.status === "streaming" ? "opacity-70" : ""}>
-              {message.contentText}
+          {editText !== null ? (
+            <div className={styles.messageEdit}>
+              <Textarea
+                value={editText}
+                onChange={(event) => setEditText(event.target.value)}
+                rows={3}
+                autoFocus
+              />
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  type="button"
+                  size="sm"
+                  onClick={() => {
+                    onEdit?.(editText, "branch");
+                    setEditText(null);
+                  }}
+                  title="Keep this run and continue the edited prompt in a new run"
+                >
+                  <GitBranch size={14} />
+                  Save as branch
+                </Button>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="secondary"
+                  onClick={() => {
+                    onEdit?.(editText, "replace");
+                    setEditText(null);
+                  }}
+                  title="Rewrite this message and discard the rest of this run"
+                >
+                  Replace
+                </Button>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => setEditText(null)}
+                >
+                  Cancel
+                </Button>
+              </div>
             </div>
+          ) : (
+            message.contentText && (
+              <div
+                className={message.status === "streaming" ? "opacity-70" : ""}
+              >
+                {message.contentText}
+              </div>
+            )
           )}
           {/* Images */}
           {images.length > 0 && (
             <div className={styles.imagePreview}>
               {images.map((img) => (
-                <button
-                  key={img.id}
-                  type="button"
-                  className="cursor-zoom-in relative group"
-                  onClick={() => onOpenImage(img.id)}
-                  title={`Image ID: ${img.id}`}
-                >
-                  <img src={img.url} alt="message" />
-                  <div className="absolute bottom-0 left-0 right-0 bg-black/70 text-xs font-mono text-white p-1 opacity-0 group-hover:opacity-100 transition-opacity text-[10px] break-all">
-                    {img.id.slice(0, 16)}...
-                  </div>
-                </button>
+                <div key={img.id} className="relative group">
+                  <button
+                    type="button"
+                    className="cursor-zoom-in relative"
+                    onClick={() => onOpenImage(img.id)}
+                    title={`Image ID: ${img.id}`}
+                  >
+                    <img src={img.url} alt="message" />
+                    {message.maskImageIds?.[img.id] && (
+                      <span className="absolute top-1 left-1 rounded bg-black/70 px-1 text-[10px] text-white">
+                        masked
+                      </span>
+                    )}
+                    <div className="absolute bottom-0 left-0 right-0 bg-black/70 text-xs font-mono text-white p-1 opacity-0 group-hover:opacity-100 transition-opacity text-[10px] break-all">
+                      {img.id.slice(0, 16)}...
+                    </div>
+                  </button>
+                  {onToggleCompare && (
+                    <button
+                      type="button"
+                      className={`${styles.compareToggle} ${
+                        compareIds.has(img.id)
+                          ? styles.compareToggleActive
+                          : "opacity-0 group-hover:opacity-100"
+                      }`}
+                      onClick={() => onToggleCompare(img.id)}
+                      title={
+                        compareIds.has(img.id)
+                          ? "Remove from comparison"
+                          : "Add to comparison"
+                      }
+                    >
+                      <GitCompare size={14} />
+                    </button>
+                  )}
+                  {message.imageMetrics?.[img.id] && (
+                    <div
+                      className={styles.imageMetrics}
+                      title="Compared with this run's input image. Higher PSNR/SSIM and lower pHash/Hist mean more of the input was preserved."
+                    >
+                      vs input:{" "}
+                      {formatImageMetrics(message.imageMetrics[img.id])}
+                    </div>
+                  )}
+                  {!message.imageMetrics?.[img.id] &&
+                    message.imageMetricsError && (
+                      <div
+                        className={styles.imageMetrics}
+                        title={message.imageMetricsError}
+                      >
+                        vs input: unavailable
+                      </div>
+                    )}
+                </div>
               ))}
             </div>
           )}
+          {message.role === "assistant" && message.status === "queued" && (
+            <div
+              className={styles.streamingIndicator}
+              title="Waiting for a free request slot (see the request queue)"
+            >
+              <span>queued</span>
+            </div>
+          )}
           {/* Streaming indicator for assistant messages */}
           {message.role === "assistant" && message.status === "streaming" && (
             <div className={styles.streamingIndicator}>
@@ -171,17 +331,134 @@ export default function MessageCard({
             </div>
           )}
           {message.role === "assistant" &&
-            (ttfbMs !== null || totalMs !== null) && (
+            (ttfbMs !== null ||
+              totalMs !== null ||
+              (!blind && message.usage?.cost !== undefined)) && (
               <div className={styles.messageTiming}>
                 {ttfbMs !== null && <span>TTFB {formatDuration(ttfbMs)}</span>}
                 {totalMs !== null && (
                   <span>Total {formatDuration(totalMs)}</span>
                 )}
+                {!blind && message.usage?.cost !== undefined && (
+                  <span>
+                    ${message.usage.cost.toFixed(6)}
+                    {message.usage.costSource && (
+                      <span
+                        className={`${styles.costBadge} ${
+                          message.usage.costSource === "reconciled"
+                            ? styles.costBadgeReconciled
+                            : ""
+                        }`}
+                        title={COST_SOURCE_TITLES[message.usage.costSource]}
+                      >
+                        {message.usage.costSource}
+                      </span>
+                    )}
+                  </span>
+                )}
+              </div>
+            )}
+          {message.role === "assistant" &&
+            !blind &&
+            (message.attempts?.length ?? 0) > 1 && (
+              <details className={styles.messageAttempts}>
+                <summary>{message.attempts!.length} attempts</summary>
+                <ol>
+                  {message.attempts!.map((attempt) => (
+                    <li key={attempt.attempt}>
+                      {attempt.errorKind
+                        ? ERROR_KIND_LABELS[attempt.errorKind]
+                        : "OK"}{" "}
+                      after{" "}
+                      {formatDuration(attempt.endedAt - attempt.startedAt)}
+                      {attempt.retryAfterMs !== undefined &&
+                        ` · Retry-After ${formatDuration(attempt.retryAfterMs)}`}
+                      {attempt.delayMs !== undefined &&
+                        ` · waited ${formatDuration(attempt.delayMs)}`}
+                      {attempt.error && (
+                        <div className={styles.messageAttemptError}>
+                          {attempt.error}
+                        </div>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              </details>
+            )}
+          {message.judgement && !blind && (
+            <div className={styles.messageJudgement}>
+              <div className="flex flex-wrap items-center gap-2">
+                <strong title={`Judged by ${message.judgement.judgeModelId}`}>
+                  Judge {message.judgement.score}/10
+                </strong>
+                {message.judgement.failureTags.map((tag) => (
+                  <span key={tag} className={styles.judgementTag}>
+                    {tag}
+                  </span>
+                ))}
               </div>
+              {message.judgement.reasons.length > 0 && (
+                <ul>
+                  {message.judgement.reasons.map((reason, index) => (
+                    <li key={index}>{reason}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+          {message.role === "assistant" &&
+            message.status === "complete" &&
+            onRate && (
+              <RatingBar
+                rating={rating}
+                onRate={onRate}
+                onClear={() => onClearRating?.()}
+              />
             )}
         </>
       )}
       <div className={styles.messageActions}>
+        {onEdit && message.role === "user" && editText === null && (
+          <Button
+            variant="ghost"
+            size="sm"
+            type="button"
+            onClick={() => setEditText(message.contentText)}
+            title="Edit this prompt and re-run"
+          >
+            <Pencil size={16} />
+            Edit
+          </Button>
+        )}
+        {onJudge &&
+          message.role === "assistant" &&
+          message.status === "complete" &&
+          message.imageIds.length > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              type="button"
+              onClick={onJudge}
+              title="Score this image with the LLM judge"
+            >
+              <Gavel size={16} />
+              {message.judgement ? "Re-score" : "Score"}
+            </Button>
+          )}
+        {onReplay &&
+          message.hasStreamRecording &&
+          message.status !== "streaming" && (
+            <Button
+              variant="ghost"
+              size="sm"
+              type="button"
+              onClick={onReplay}
+              title="Re-parse the recorded provider stream"
+            >
+              <Repeat size={16} />
+              Replay
+            </Button>
+          )}
         <Button variant="ghost" size="sm" type="button" onClick={onRemove}>
           <Trash2 size={16} />
           Remove
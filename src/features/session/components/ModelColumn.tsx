@@ -5,15 +5,29 @@ import styles from "../SessionView.module.scss";
 import { Button } from "@components/ui/button";
 import {
   abortStream,
+  editUserMessage,
+  handoffRunToModel,
+  judgeMessage,
   removeMessageFromModel,
+  replayAssistantMessage,
   rerunLastAssistantMessage,
 } from "@stores/sessionsStore";
 import MessageCard from "./MessageCard";
-import { Ban, Circle, CircleDot, RotateCcw } from "lucide-react";
+import BranchNavigator from "./BranchNavigator";
+import HandoffDialog from "./HandoffDialog";
+import {
+  ArrowRightLeft,
+  Ban,
+  Circle,
+  CircleDot,
+  RotateCcw,
+} from "lucide-react";
 import { getImage } from "../../../lib/idb";
 import { ScrollArea } from "@components/ui/scroll-area";
 import ImageViewer from "./ImageViewer";
-import { $uiState, toggleSoloModel } from "@stores/uiStore";
+import { $uiState, toggleCompareImage, toggleSoloModel } from "@stores/uiStore";
+import { $ratings, clearRating, rateMessage } from "@stores/ratingsStore";
+import { getTurnKey } from "../../../lib/ratings";
 
 export default function ModelColumn({
   modelId,
@@ -21,12 +35,14 @@ export default function ModelColumn({
   messages,
   stats,
   isStreaming,
+  blind,
 }: {
   modelId: string;
   modelName: string;
   messages: Message[];
   stats?: SessionStats;
   isStreaming?: boolean;
+  blind?: boolean; // Model identity hidden: modelName is a placeholder and cost is not shown
 }) {
   const [imageUrls, setImageUrls] = useState<
     Record<string, Array<{ id: string; url: string }>>
@@ -38,7 +54,9 @@ export default function ModelColumn({
   const [activeRunIndex, setActiveRunIndex] = useState<number | undefined>(
     undefined,
   );
+  const [handoffOpen, setHandoffOpen] = useState(false);
   const uiState = useStore($uiState);
+  const ratings = useStore($ratings);
   const isSolo = uiState.soloModelIds.has(modelId);
   const hasAnySolo = uiState.soloModelIds.size > 0;
   const shouldDim = hasAnySolo && !isSolo;
@@ -105,6 +123,15 @@ export default function ModelColumn({
     return run ? run[1] : [];
   }, [runs, activeRunIndex, defaultRunIndex, messages]);
 
+  const selectedRunIndex = activeRunIndex ?? defaultRunIndex ?? runs[0]?.[0];
+  const handoffOrigin = displayMessages.find(
+    (message) => message.branchFrom?.kind === "handoff",
+  )?.branchFrom;
+  const canHandoff =
+    !blind &&
+    !isStreaming &&
+    displayMessages.some((message) => message.role === "user");
+
   useEffect(() => {
     let active = true;
     const loadImages = async () => {
@@ -164,27 +191,38 @@ export default function ModelColumn({
         imageId={viewerImageId}
         onClose={() => setViewerImageId(null)}
       />
+      <HandoffDialog
+        open={handoffOpen}
+        sourceModelId={modelId}
+        sourceModelName={modelName}
+        runIndex={runs.length > 1 ? selectedRunIndex : undefined}
+        onClose={() => setHandoffOpen(false)}
+        onSelect={async (targetModelId) => {
+          setHandoffOpen(false);
+          try {
+            await handoffRunToModel(modelId, selectedRunIndex, targetModelId);
+          } catch (error) {
+            if (import.meta.env.DEV) {
+              console.error("[ModelColumn] Error handing off run:", error);
+            }
+          }
+        }}
+      />
       <div className={styles.columnHeader}>
         <div>
           <h3 className="text-sm font-bold">{modelName}</h3>
+          {handoffOrigin && !blind && (
+            <span className="text-xs text-[var(--muted)]">
+              Continued from {handoffOrigin.modelId} run{" "}
+              {handoffOrigin.runIndex}
+            </span>
+          )}
           {runs.length > 1 && (
-            <div className="flex gap-2 mt-2">
-              {runs.map(([runIdx]) => (
-                <button
-                  key={runIdx}
-                  type="button"
-                  onClick={() => setActiveRunIndex(runIdx)}
-                  className={`text-xs px-2 py-1 rounded ${
-                    activeRunIndex === runIdx ||
-                    (activeRunIndex === undefined && runIdx === defaultRunIndex)
-                      ? "bg-white/10 border border-white/20"
-                      : "bg-white/5 border border-transparent hover:bg-white/8"
-                  }`}
-                >
-                  Run {runIdx}
-                </button>
-              ))}
-            </div>
+            <BranchNavigator
+              runs={runs}
+              activeRunIndex={activeRunIndex ?? defaultRunIndex}
+              onSelect={setActiveRunIndex}
+            />
           )}
         </div>
         <div className="flex gap-2">
@@ -227,6 +265,18 @@ export default function ModelColumn({
                 Re-run
               </Button>
             )}
+          {canHandoff && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => setHandoffOpen(true)}
+              title="Replay this run's context against another model"
+            >
+              <ArrowRightLeft size={16} />
+              Hand off
+            </Button>
+          )}
           <Button
             type="button"
             variant="ghost"
@@ -256,14 +306,14 @@ export default function ModelColumn({
               key={message.id}
               message={message}
               images={imageUrls[message.id] ?? []}
+              blind={blind}
               onRemove={async () => {
                 try {
-                  // Pass the active runIndex so we only delete messages for that run
-                  // If no runIndex is active, delete normally (for single-run case)
+                  // Pass the run on screen so we only delete messages for that run
                   await removeMessageFromModel(
                     modelId,
                     message.id,
-                    activeRunIndex,
+                    selectedRunIndex,
                   );
                 } catch (error) {
                   if (import.meta.env.DEV) {
@@ -275,18 +325,73 @@ export default function ModelColumn({
                 }
               }}
               onOpenImage={(imageId) => setViewerImageId(imageId)}
+              onReplay={async () => {
+                try {
+                  const runIndex = await replayAssistantMessage(
+                    modelId,
+                    message.id,
+                  );
+                  if (runIndex !== null) setActiveRunIndex(runIndex);
+                } catch (error) {
+                  if (import.meta.env.DEV) {
+                    console.error(
+                      "[ModelColumn] Error replaying message:",
+                      error,
+                    );
+                  }
+                }
+              }}
+              onJudge={() =>
+                void judgeMessage(message.sessionId, modelId, message.id)
+              }
+              onEdit={
+                isStreaming
+                  ? undefined
+                  : async (text, mode) => {
+                      const runIndex = await editUserMessage(
+                        modelId,
+                        message.id,
+                        text,
+                        mode,
+                      );
+                      if (runIndex !== null) setActiveRunIndex(runIndex);
+                    }
+              }
+              rating={ratings[message.id]}
+              onRate={(update) =>
+                rateMessage(message, getTurnKey(messages, message), update)
+              }
+              onClearRating={() => clearRating(message.id)}
+              onToggleCompare={(imageId) =>
+                toggleCompareImage({
+                  imageId,
+                  label: [
+                    modelName,
+                    message.runIndex !== undefined
+                      ? `Run ${message.runIndex}`
+                      : null,
+                    message.role !== "assistant" ? message.role : null,
+                  ]
+                    .filter(Boolean)
+                    .join(" · "),
+                })
+              }
             />
           ))}
         </div>
       </ScrollArea>
       <div className={styles.columnFooter}>
-        <span>
-          Tokens: {stats?.inputTokens ?? 0} in / {stats?.outputTokens ?? 0} out
-          - Cost: $
-          {typeof stats?.totalCost === "number"
-            ? stats.totalCost.toFixed(6)
-            : "0.000000"}
-        </span>
+        {blind ? (
+          <span>Hidden until revealed</span>
+        ) : (
+          <span>
+            Tokens: {stats?.inputTokens ?? 0} in / {stats?.outputTokens ?? 0}{" "}
+            out - Cost: $
+            {typeof stats?.totalCost === "number"
+              ? stats.totalCost.toFixed(6)
+              : "0.000000"}
+          </span>
+        )}
       </div>
     </div>
   );
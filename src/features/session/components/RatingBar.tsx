@@ -0,0 +1,120 @@
+import { useState } from "react";
+import type { Rating } from "../../../types/db";
+import styles from "../SessionView.module.scss";
+import { Textarea } from "@components/ui/textarea";
+import { RATING_TAGS } from "../../../lib/ratings";
+import { MessageSquare, Star, X } from "lucide-react";
+
+export default function RatingBar({
+  rating,
+  onRate,
+  onClear,
+}: {
+  rating?: Rating;
+  onRate: (update: Partial<Pick<Rating, "score" | "tags" | "note">>) => void;
+  onClear: () => void;
+}) {
+  const [expanded, setExpanded] = useState(false);
+  const [noteDraft, setNoteDraft] = useState<string | null>(null);
+  const [hoverScore, setHoverScore] = useState<number | null>(null);
+  const shownScore = hoverScore ?? rating?.score ?? 0;
+  const tags = rating?.tags ?? [];
+
+  return (
+    <div className={styles.ratingBar}>
+      <div className="flex items-center gap-1">
+        {[1, 2, 3, 4, 5].map((score) => (
+          <button
+            key={score}
+            type="button"
+            className={styles.ratingStar}
+            onMouseEnter={() => setHoverScore(score)}
+            onMouseLeave={() => setHoverScore(null)}
+            onClick={() => onRate({ score })}
+            title={`Rate ${score} of 5`}
+          >
+            <Star
+              size={16}
+              fill={score <= shownScore ? "currentColor" : "none"}
+              className={
+                score <= shownScore
+                  ? "text-[var(--accent)]"
+                  : "text-[var(--muted)]"
+              }
+            />
+          </button>
+        ))}
+        {rating && (
+          <>
+            <button
+              type="button"
+              className={styles.ratingStar}
+              onClick={() => setExpanded((prev) => !prev)}
+              title="Tags and note"
+            >
+              <MessageSquare
+                size={14}
+                className={
+                  tags.length > 0 || rating.note
+                    ? "text-[var(--text)]"
+                    : "text-[var(--muted)]"
+                }
+              />
+            </button>
+            <button
+              type="button"
+              className={styles.ratingStar}
+              onClick={onClear}
+              title="Clear rating"
+            >
+              <X size={14} className="text-[var(--muted)]" />
+            </button>
+          </>
+        )}
+        {!expanded && tags.length > 0 && (
+          <span className="text-[10px] text-[var(--muted)]">
+            {tags.join(", ")}
+          </span>
+        )}
+      </div>
+      {rating && expanded && (
+        <div className="flex flex-col gap-2">
+          <div className="flex flex-wrap gap-1">
+            {RATING_TAGS.map((tag) => {
+              const active = tags.includes(tag);
+              return (
+                <button
+                  key={tag}
+                  type="button"
+                  className={`${styles.ratingTag} ${
+                    active ? styles.ratingTagActive : ""
+                  }`}
+                  onClick={() =>
+                    onRate({
+                      tags: active
+                        ? tags.filter((item) => item !== tag)
+                        : [...tags, tag],
+                    })
+                  }
+                >
+                  {tag}
+                </button>
+              );
+            })}
+          </div>
+          <Textarea
+            rows={2}
+            placeholder="Note (why this score?)"
+            value={noteDraft ?? rating.note ?? ""}
+            onChange={(event) => setNoteDraft(event.target.value)}
+            onBlur={() => {
+              if (noteDraft === null) return;
+              onRate({ note: noteDraft.trim() || undefined });
+              setNoteDraft(null);
+            }}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
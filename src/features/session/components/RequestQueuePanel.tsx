@@ -0,0 +1,168 @@
+import { useState } from "react";
+import { useStore } from "@nanostores/react";
+import styles from "../SessionView.module.scss";
+import { Button } from "@components/ui/button";
+import {
+  $requestQueue,
+  cancelAllQueuedRequests,
+  cancelQueuedRequest,
+  moveQueuedRequest,
+  moveQueuedRequestToFront,
+} from "@stores/queueStore";
+import { $activeSession, abortStream } from "@stores/sessionsStore";
+import { $settings } from "@stores/settingsStore";
+import { $models } from "@stores/modelsStore";
+import { listProviders } from "../../../lib/providers";
+import {
+  ArrowDown,
+  ArrowUp,
+  ChevronDown,
+  ChevronUp,
+  ChevronsUp,
+  Square,
+  X,
+} from "lucide-react";
+
+/**
+ * Requests held by the scheduler, across all sessions: running ones first,
+ * then the waiting ones in the order they will start.
+ */
+export default function RequestQueuePanel() {
+  const queue = useStore($requestQueue);
+  const settings = useStore($settings);
+  const models = useStore($models);
+  const activeSessionId = useStore($activeSession).session?.id;
+  const [expanded, setExpanded] = useState(false);
+
+  if (queue.length === 0) return null;
+  const running = queue.filter((item) => item.startedAt !== undefined);
+  const waiting = queue.filter((item) => item.startedAt === undefined);
+  const providerNames = Object.fromEntries(
+    listProviders(settings).map((provider) => [provider.id, provider.name]),
+  );
+  const modelNames = Object.fromEntries(
+    models.map((model) => [model.id, model.name]),
+  );
+
+  return (
+    <div className={styles.requestQueue}>
+      <div className={styles.requestQueueHeader}>
+        <span className="text-xs text-[var(--muted)]">
+          Requests: {running.length} running · {waiting.length} queued
+        </span>
+        <div className="ml-auto flex gap-2">
+          {waiting.length > 0 && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={cancelAllQueuedRequests}
+            >
+              <X size={16} />
+              Cancel queued
+            </Button>
+          )}
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => setExpanded((prev) => !prev)}
+            title={expanded ? "Hide the queue" : "Show the queue"}
+          >
+            {expanded ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+          </Button>
+        </div>
+      </div>
+      {expanded && (
+        <ol className={styles.requestQueueList}>
+          {queue.map((item) => {
+            const isRunning = item.startedAt !== undefined;
+            const waitingIndex = waiting.indexOf(item);
+            return (
+              <li key={item.id} className={styles.requestQueueItem}>
+                <span
+                  className={
+                    isRunning
+                      ? styles.requestQueueRunning
+                      : "text-[var(--muted)]"
+                  }
+                >
+                  {isRunning ? "running" : `#${waitingIndex + 1}`}
+                </span>
+                <span className="truncate">
+                  {modelNames[item.modelId] ?? item.modelId}
+                  {item.runIndex !== undefined ? ` · run ${item.runIndex}` : ""}
+                </span>
+                <span className="text-xs text-[var(--muted)]">
+                  {providerNames[item.providerId] ?? item.providerId}
+                  {item.sessionId !== activeSessionId ? " · other session" : ""}
+                </span>
+                <div className="ml-auto flex gap-1">
+                  {isRunning ? (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() =>
+                        void abortStream(
+                          item.modelId,
+                          item.runIndex,
+                          item.sessionId,
+                        )
+                      }
+                      title="Stop this request"
+                    >
+                      <Square size={14} />
+                    </Button>
+                  ) : (
+                    <>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        disabled={waitingIndex === 0}
+                        onClick={() => moveQueuedRequestToFront(item.id)}
+                        title="Send next"
+                      >
+                        <ChevronsUp size={14} />
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        disabled={waitingIndex === 0}
+                        onClick={() => moveQueuedRequest(item.id, -1)}
+                        title="Move up"
+                      >
+                        <ArrowUp size={14} />
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        disabled={waitingIndex === waiting.length - 1}
+                        onClick={() => moveQueuedRequest(item.id, 1)}
+                        title="Move down"
+                      >
+                        <ArrowDown size={14} />
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => cancelQueuedRequest(item.id)}
+                        title="Cancel this request"
+                      >
+                        <X size={14} />
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
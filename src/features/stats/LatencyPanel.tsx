@@ -0,0 +1,190 @@
+import { useMemo, useState } from "react";
+import styles from "./StatsView.module.scss";
+import { Button } from "@components/ui/button";
+import { SelectPopover } from "@components/ui/select-popover";
+import type { Message } from "../../types/db";
+import {
+  LATENCY_METRICS,
+  buildHistogram,
+  collectLatencyValues,
+  formatLatencyValue,
+  summarizeLatencyByModel,
+  type LatencyMetric,
+} from "../../lib/latency";
+
+const ALL_MODELS = "__all__";
+
+/**
+ * Latency and throughput percentiles per model, across all sessions or only
+ * the session on screen, with a histogram of one metric.
+ */
+export default function LatencyPanel({
+  allMessages,
+  sessionMessages,
+  modelName,
+}: {
+  allMessages: Message[];
+  sessionMessages: Message[];
+  modelName: (modelId: string) => string;
+}) {
+  const [scope, setScope] = useState<"all" | "session">("all");
+  const [metric, setMetric] = useState<LatencyMetric>("total");
+  const [histogramModelId, setHistogramModelId] = useState(ALL_MODELS);
+  const messages = scope === "all" ? allMessages : sessionMessages;
+
+  const summaries = useMemo(
+    () =>
+      summarizeLatencyByModel(messages).sort(
+        (a, b) =>
+          (a.metrics.total?.p50 ?? Infinity) -
+          (b.metrics.total?.p50 ?? Infinity),
+      ),
+    [messages],
+  );
+  const histogram = useMemo(
+    () =>
+      buildHistogram(
+        collectLatencyValues(
+          messages,
+          metric,
+          histogramModelId === ALL_MODELS ? undefined : histogramModelId,
+        ),
+      ),
+    [messages, metric, histogramModelId],
+  );
+  const maxCount = Math.max(0, ...histogram.map((bin) => bin.count));
+  const metricLabel =
+    LATENCY_METRICS.find((item) => item.value === metric)?.label ?? metric;
+
+  return (
+    <div className={`${styles.panel} ${styles.panelWide}`}>
+      <h2>Latency</h2>
+      <p>
+        p50 / p90 / p99 of completed answers. Times are measured from sending
+        the request; tokens/sec counts output tokens after the first one
+        arrived.
+      </p>
+      <div className={styles.spendControls}>
+        <Button
+          type="button"
+          size="sm"
+          variant={scope === "all" ? "default" : "outline"}
+          onClick={() => setScope("all")}
+        >
+          All sessions
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          variant={scope === "session" ? "default" : "outline"}
+          onClick={() => setScope("session")}
+        >
+          Current session
+        </Button>
+      </div>
+
+      {summaries.length === 0 ? (
+        <p className="text-sm text-[var(--muted)]">
+          {scope === "session"
+            ? "No completed answers in this session yet."
+            : "Timings appear once completions finish."}
+        </p>
+      ) : (
+        <>
+          <div className="overflow-x-auto">
+            <table className={styles.latencyTable}>
+              <thead>
+                <tr>
+                  <th>Model</th>
+                  {LATENCY_METRICS.map((item) => (
+                    <th key={item.value}>{item.label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {summaries.map((summary) => (
+                  <tr key={summary.modelId}>
+                    <td>{modelName(summary.modelId)}</td>
+                    {LATENCY_METRICS.map(({ value }) => {
+                      const stats = summary.metrics[value];
+                      return (
+                        <td
+                          key={value}
+                          className="font-mono text-xs"
+                          title={stats ? `${stats.count} samples` : undefined}
+                        >
+                          {stats
+                            ? [stats.p50, stats.p90, stats.p99]
+                                .map((item) => formatLatencyValue(value, item))
+                                .join(" / ")
+                            : "—"}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className={styles.spendControls}>
+            <SelectPopover
+              className="h-8 w-52 text-xs"
+              value={metric}
+              onValueChange={(value) => setMetric(value as LatencyMetric)}
+              items={LATENCY_METRICS}
+            />
+            <SelectPopover
+              className="h-8 w-52 text-xs"
+              value={histogramModelId}
+              onValueChange={setHistogramModelId}
+              items={[
+                { value: ALL_MODELS, label: "All models" },
+                ...summaries.map((summary) => ({
+                  value: summary.modelId,
+                  label: modelName(summary.modelId),
+                })),
+              ]}
+            />
+          </div>
+          {histogram.length === 0 ? (
+            <p className="text-sm text-[var(--muted)]">
+              No {metricLabel.toLowerCase()} samples.
+            </p>
+          ) : (
+            <>
+              <div className={styles.spendChart}>
+                {histogram.map((bin) => (
+                  <div
+                    key={bin.start}
+                    className={styles.spendBar}
+                    title={`${formatLatencyValue(metric, bin.start)} – ${formatLatencyValue(metric, bin.end)}: ${bin.count}`}
+                  >
+                    <div
+                      className={styles.spendBarFill}
+                      style={{
+                        height: `${maxCount > 0 ? (bin.count / maxCount) * 100 : 0}%`,
+                      }}
+                    />
+                  </div>
+                ))}
+              </div>
+              <div className={styles.spendAxis}>
+                <span>{formatLatencyValue(metric, histogram[0].start)}</span>
+                <span>
+                  {metricLabel} · most {maxCount} per bin
+                </span>
+                <span>
+                  {formatLatencyValue(
+                    metric,
+                    histogram[histogram.length - 1].end,
+                  )}
+                </span>
+              </div>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,217 @@
+import { useMemo, useState } from "react";
+import styles from "./StatsView.module.scss";
+import { Button } from "@components/ui/button";
+import { Input } from "@components/ui/input";
+import type { UsageRecord } from "../../types/db";
+import { localDayKey } from "../../lib/budget";
+import {
+  bucketSpend,
+  costPerImageByModel,
+  cumulativeSpend,
+  usageRecordsToCsv,
+  type SpendPeriod,
+} from "../../lib/spend";
+import { Download } from "lucide-react";
+
+const PERIODS: Array<{ value: SpendPeriod; label: string }> = [
+  { value: "day", label: "Daily" },
+  { value: "week", label: "Weekly" },
+  { value: "month", label: "Monthly" },
+];
+
+function dayStart(key: string) {
+  const [year, month, day] = key.split("-").map(Number);
+  return new Date(year, month - 1, day).getTime();
+}
+
+function formatUsd(value: number) {
+  return `$${value.toFixed(value >= 1 ? 2 : 4)}`;
+}
+
+/**
+ * Spend over time from the per-request usage records: bars per period, a
+ * cumulative burn line, cost per output image and a CSV of the filtered rows.
+ */
+export default function SpendDashboard({
+  records,
+  modelName,
+}: {
+  records: UsageRecord[];
+  modelName: (modelId: string) => string;
+}) {
+  const [period, setPeriod] = useState<SpendPeriod>("day");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  const filtered = useMemo(() => {
+    const start = from ? dayStart(from) : -Infinity;
+    // Inclusive: everything before the start of the next day
+    const end = to ? dayStart(to) + 24 * 60 * 60 * 1000 : Infinity;
+    return records.filter(
+      (record) => record.createdAt >= start && record.createdAt < end,
+    );
+  }, [records, from, to]);
+
+  const buckets = useMemo(
+    () => bucketSpend(filtered, period),
+    [filtered, period],
+  );
+  const burn = useMemo(() => cumulativeSpend(buckets), [buckets]);
+  const perImage = useMemo(() => costPerImageByModel(filtered), [filtered]);
+  const total = burn[burn.length - 1]?.total ?? 0;
+  const maxBucket = Math.max(0, ...buckets.map((bucket) => bucket.cost));
+  const unpriced = filtered.filter((record) => record.cost === undefined);
+
+  const exportCsv = () => {
+    const names = Object.fromEntries(
+      Array.from(new Set(filtered.map((record) => record.modelId))).map(
+        (modelId) => [modelId, modelName(modelId)],
+      ),
+    );
+    const blob = new Blob([usageRecordsToCsv(filtered, names)], {
+      type: "text/csv",
+    });
+    const url = URL.createObjectURL(blob);
+    const anchor = document.createElement("a");
+    anchor.href = url;
+    anchor.download = `spend-${from || "start"}-to-${to || localDayKey()}.csv`;
+    anchor.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const burnPoints = burn
+    .map((point, index) => {
+      const x = burn.length > 1 ? (index / (burn.length - 1)) * 100 : 50;
+      const y = total > 0 ? 100 - (point.total / total) * 100 : 100;
+      return `${x},${y}`;
+    })
+    .join(" ");
+
+  return (
+    <div className={`${styles.panel} ${styles.panelWide}`}>
+      <h2>Spend</h2>
+      <p>
+        Every completion, judge score and auto-iterate critique, including
+        sessions that were deleted since.
+      </p>
+      <div className={styles.spendControls}>
+        {PERIODS.map((item) => (
+          <Button
+            key={item.value}
+            type="button"
+            size="sm"
+            variant={period === item.value ? "default" : "outline"}
+            onClick={() => setPeriod(item.value)}
+          >
+            {item.label}
+          </Button>
+        ))}
+        <label className="text-xs text-[var(--muted)]" htmlFor="spend-from">
+          From
+        </label>
+        <Input
+          id="spend-from"
+          type="date"
+          className="h-8 w-40"
+          value={from}
+          max={to || undefined}
+          onChange={(event) => setFrom(event.target.value)}
+        />
+        <label className="text-xs text-[var(--muted)]" htmlFor="spend-to">
+          To
+        </label>
+        <Input
+          id="spend-to"
+          type="date"
+          className="h-8 w-40"
+          value={to}
+          min={from || undefined}
+          onChange={(event) => setTo(event.target.value)}
+        />
+        <Button
+          type="button"
+          size="sm"
+          variant="secondary"
+          onClick={exportCsv}
+          disabled={filtered.length === 0}
+        >
+          <Download size={14} />
+          CSV
+        </Button>
+      </div>
+
+      {filtered.length === 0 ? (
+        <p className="text-sm text-[var(--muted)]">
+          No spend recorded in this range.
+        </p>
+      ) : (
+        <>
+          <div className={styles.statRow}>
+            <span>
+              <strong>Total</strong>{" "}
+              <span className="text-xs text-[var(--muted)]">
+                ({filtered.length} request{filtered.length === 1 ? "" : "s"}
+                {unpriced.length > 0 ? `, ${unpriced.length} without cost` : ""}
+                )
+              </span>
+            </span>
+            <strong>{formatUsd(total)}</strong>
+          </div>
+
+          <div className={styles.spendChart}>
+            {buckets.map((bucket) => (
+              <div
+                key={bucket.key}
+                className={styles.spendBar}
+                title={`${bucket.label}: ${formatUsd(bucket.cost)} · ${bucket.requests} requests · ${bucket.images} images`}
+              >
+                <div
+                  className={styles.spendBarFill}
+                  style={{
+                    height: `${maxBucket > 0 ? (bucket.cost / maxBucket) * 100 : 0}%`,
+                  }}
+                />
+              </div>
+            ))}
+          </div>
+          <div className={styles.spendAxis}>
+            <span>{buckets[0]?.label}</span>
+            <span>peak {formatUsd(maxBucket)}</span>
+            <span>{buckets[buckets.length - 1]?.label}</span>
+          </div>
+
+          <h3 className="text-sm">Cumulative burn</h3>
+          <svg
+            className={styles.spendBurn}
+            viewBox="0 0 100 100"
+            preserveAspectRatio="none"
+            role="img"
+            aria-label={`Cumulative spend reaching ${formatUsd(total)}`}
+          >
+            <polyline points={burnPoints} vectorEffect="non-scaling-stroke" />
+          </svg>
+
+          <h3 className="text-sm">Cost per output image</h3>
+          <div className={styles.statList}>
+            {perImage.map((entry) => (
+              <div className={styles.statRow} key={`${entry.modelId}-spend`}>
+                <span>
+                  {modelName(entry.modelId)}{" "}
+                  <span className="text-xs text-[var(--muted)]">
+                    ({entry.images} image{entry.images === 1 ? "" : "s"},{" "}
+                    {formatUsd(entry.cost)})
+                  </span>
+                </span>
+                <span className="font-mono text-xs">
+                  {entry.costPerImage !== null
+                    ? formatUsd(entry.costPerImage)
+                    : "no images"}
+                </span>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -3,23 +3,215 @@ import { useStore } from "@nanostores/react";
 import styles from "./StatsView.module.scss";
 import { $activeSession, $history } from "@stores/sessionsStore";
 import { $models } from "@stores/modelsStore";
-import { getAllStats } from "../../lib/idb";
-import type { SessionStats } from "../../types/db";
+import { $ratings } from "@stores/ratingsStore";
+import {
+  getAllMessages,
+  getAllRatings,
+  getAllStats,
+  getAllUsageRecords,
+  getImage,
+} from "../../lib/idb";
+import { computeRatingLeaderboard } from "../../lib/ratings";
+import { ERROR_KIND_LABELS, summarizeReliability } from "../../lib/errors";
+import { computeImageMetrics, formatImageMetrics } from "../../lib/metrics";
+import type {
+  ImageMetrics,
+  Message,
+  Rating,
+  SessionStats,
+  UsageRecord,
+} from "../../types/db";
+import { Button } from "@components/ui/button";
+import SpendDashboard from "./SpendDashboard";
+import LatencyPanel from "./LatencyPanel";
+
+type FidelitySummary = {
+  modelId: string;
+  count: number;
+  psnr: number;
+  ssim: number;
+  phashDistance: number;
+  histogramDistance: number;
+};
+
+type JudgeSummary = {
+  modelId: string;
+  count: number;
+  averageScore: number;
+  tagCounts: Array<[string, number]>; // Most frequent first
+};
+
+type CrossModelResult = {
+  key: string;
+  left: string;
+  right: string;
+  metrics: ImageMetrics;
+};
+
+function latestOutputImageId(messages: Message[]): string | null {
+  const withImages = messages
+    .filter((msg) => msg.role === "assistant" && msg.imageIds.length > 0)
+    .sort((a, b) => b.createdAt - a.createdAt);
+  const latest = withImages[0];
+  return latest ? (latest.imageIds[latest.imageIds.length - 1] ?? null) : null;
+}
 
 export default function StatsView() {
   const sessionState = useStore($activeSession);
   const history = useStore($history);
   const models = useStore($models);
   const [allStats, setAllStats] = useState<SessionStats[]>([]);
+  const [allMessages, setAllMessages] = useState<Message[]>([]);
+  const [allRatings, setAllRatings] = useState<Rating[]>([]);
+  const [usageRecords, setUsageRecords] = useState<UsageRecord[]>([]);
+  const sessionRatings = useStore($ratings);
+  const [crossModel, setCrossModel] = useState<CrossModelResult[] | null>(null);
+  const [crossModelBusy, setCrossModelBusy] = useState(false);
 
   // Load all stats from IndexedDB on mount and when history or active session changes
   useEffect(() => {
     const loadStats = async () => {
-      const stats = await getAllStats();
+      const [stats, messages, ratings, usage] = await Promise.all([
+        getAllStats(),
+        getAllMessages(),
+        getAllRatings(),
+        getAllUsageRecords(),
+      ]);
       setAllStats(stats);
+      setAllMessages(messages);
+      setAllRatings(ratings);
+      setUsageRecords(usage);
     };
     void loadStats();
-  }, [history, sessionState.session?.id]);
+  }, [history, sessionState.session?.id, sessionRatings]);
+
+  const leaderboard = useMemo(
+    () => computeRatingLeaderboard(allRatings),
+    [allRatings],
+  );
+
+  // Average output-vs-input metrics per model across all sessions; branch
+  // copies and replays repeat an output that is already counted
+  const fidelityList = useMemo(() => {
+    const byModel = new Map<string, FidelitySummary>();
+    for (const message of allMessages) {
+      if (message.role !== "assistant" || !message.imageMetrics) continue;
+      if (message.branchFrom) continue;
+      for (const metrics of Object.values(message.imageMetrics)) {
+        const entry = byModel.get(message.modelId) ?? {
+          modelId: message.modelId,
+          count: 0,
+          psnr: 0,
+          ssim: 0,
+          phashDistance: 0,
+          histogramDistance: 0,
+        };
+        entry.count += 1;
+        entry.psnr += metrics.psnr;
+        entry.ssim += metrics.ssim;
+        entry.phashDistance += metrics.phashDistance;
+        entry.histogramDistance += metrics.histogramDistance;
+        byModel.set(message.modelId, entry);
+      }
+    }
+    return Array.from(byModel.values())
+      .map((entry) => ({
+        ...entry,
+        psnr: entry.psnr / entry.count,
+        ssim: entry.ssim / entry.count,
+        phashDistance: entry.phashDistance / entry.count,
+        histogramDistance: entry.histogramDistance / entry.count,
+        modelName:
+          models.find((model) => model.id === entry.modelId)?.name ??
+          entry.modelId,
+      }))
+      .sort((a, b) => b.ssim - a.ssim);
+  }, [allMessages, models]);
+
+  // Average LLM judge score and most common failure tags per model
+  const judgeList = useMemo(() => {
+    const byModel = new Map<
+      string,
+      { count: number; total: number; tags: Map<string, number> }
+    >();
+    for (const message of allMessages) {
+      if (message.role !== "assistant" || !message.judgement) continue;
+      const entry = byModel.get(message.modelId) ?? {
+        count: 0,
+        total: 0,
+        tags: new Map<string, number>(),
+      };
+      entry.count += 1;
+      entry.total += message.judgement.score;
+      message.judgement.failureTags.forEach((tag) =>
+        entry.tags.set(tag, (entry.tags.get(tag) ?? 0) + 1),
+      );
+      byModel.set(message.modelId, entry);
+    }
+    return Array.from(byModel.entries())
+      .map(([modelId, entry]): JudgeSummary => ({
+        modelId,
+        count: entry.count,
+        averageScore: entry.total / entry.count,
+        tagCounts: Array.from(entry.tags.entries()).sort((a, b) => b[1] - a[1]),
+      }))
+      .sort((a, b) => b.averageScore - a.averageScore);
+  }, [allMessages]);
+
+  const reliabilityList = useMemo(
+    () => summarizeReliability(allMessages),
+    [allMessages],
+  );
+
+  const sessionMessages = useMemo(
+    () => Object.values(sessionState.messagesByModel).flat(),
+    [sessionState.messagesByModel],
+  );
+
+  const modelName = (modelId: string) =>
+    models.find((model) => model.id === modelId)?.name ?? modelId;
+
+  // Pairwise comparison of each model's latest output in the active session
+  const computeCrossModel = async () => {
+    setCrossModelBusy(true);
+    try {
+      const outputs = Object.entries(sessionState.messagesByModel)
+        .map(([modelId, messages]) => ({
+          modelId,
+          imageId: latestOutputImageId(messages),
+        }))
+        .filter(
+          (item): item is { modelId: string; imageId: string } =>
+            item.imageId !== null,
+        );
+      const results: CrossModelResult[] = [];
+      for (let i = 0; i < outputs.length; i++) {
+        const reference = await getImage(outputs[i].imageId);
+        if (!reference) continue;
+        for (let j = i + 1; j < outputs.length; j++) {
+          const candidate = await getImage(outputs[j].imageId);
+          if (!candidate) continue;
+          results.push({
+            key: `${outputs[i].modelId}|${outputs[j].modelId}`,
+            left: outputs[i].modelId,
+            right: outputs[j].modelId,
+            metrics: await computeImageMetrics(
+              reference.blob,
+              candidate.blob,
+              outputs[i].imageId,
+            ),
+          });
+        }
+      }
+      setCrossModel(results);
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.error("[StatsView] Error comparing model outputs:", error);
+      }
+    } finally {
+      setCrossModelBusy(false);
+    }
+  };
 
   // Aggregate stats by modelId across all sessions
   const aggregatedStats = useMemo(() => {
@@ -65,6 +257,14 @@ export default function StatsView() {
 
   return (
     <div className={styles.statsView}>
+      <SpendDashboard records={usageRecords} modelName={modelName} />
+
+      <LatencyPanel
+        allMessages={allMessages}
+        sessionMessages={sessionMessages}
+        modelName={modelName}
+      />
+
       <div className={styles.panel}>
         <h2>Token Usage</h2>
         <p>Track inputs vs outputs per model and per session.</p>
@@ -97,6 +297,185 @@ export default function StatsView() {
         </div>
       </div>
 
+      <div className={`${styles.panel} ${styles.panelWide}`}>
+        <h2>Human Ratings</h2>
+        <p>
+          Win rate and Elo from 1-5 ratings. Models rated on the same prompt of
+          a session play one game per pair; the higher score wins.
+        </p>
+        <div className={styles.statList}>
+          {leaderboard.length === 0 && (
+            <p className="text-sm text-[var(--muted)]">
+              Rate assistant responses (optionally in blind mode) to build the
+              leaderboard.
+            </p>
+          )}
+          {leaderboard.map((entry) => (
+            <div className={styles.statRow} key={`${entry.modelId}-rating`}>
+              <span>
+                {modelName(entry.modelId)}{" "}
+                <span className="text-xs text-[var(--muted)]">
+                  ({entry.ratings} rating{entry.ratings === 1 ? "" : "s"}, avg{" "}
+                  {entry.averageScore.toFixed(2)})
+                </span>
+              </span>
+              <span className="font-mono text-xs">
+                {entry.wins}W {entry.losses}L {entry.draws}D ·{" "}
+                {(entry.winRate * 100).toFixed(0)}% · Elo{" "}
+                {Math.round(entry.elo)}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className={`${styles.panel} ${styles.panelWide}`}>
+        <h2>Judge Scores</h2>
+        <p>
+          Average 1-10 score from the LLM judge and how often each failure tag
+          was given, across all sessions.
+        </p>
+        <div className={styles.statList}>
+          {judgeList.length === 0 && (
+            <p className="text-sm text-[var(--muted)]">
+              Pick a judge model in Settings and score some outputs to fill this
+              in.
+            </p>
+          )}
+          {judgeList.map((entry) => (
+            <div className={styles.statRow} key={`${entry.modelId}-judge`}>
+              <span>
+                {modelName(entry.modelId)}{" "}
+                <span className="text-xs text-[var(--muted)]">
+                  ({entry.count} scored, avg {entry.averageScore.toFixed(2)})
+                </span>
+              </span>
+              <span className="font-mono text-xs">
+                {entry.tagCounts.length > 0
+                  ? entry.tagCounts
+                      .map(([tag, count]) => `${tag} ×${count}`)
+                      .join(" · ")
+                  : "no failure tags"}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className={`${styles.panel} ${styles.panelWide}`}>
+        <h2>Reliability</h2>
+        <p>
+          Share of answers per model that failed or came back without the
+          requested image, and why. Aborted runs are listed but not counted as
+          failures.
+        </p>
+        <div className={styles.statList}>
+          {reliabilityList.length === 0 && (
+            <p className="text-sm text-[var(--muted)]">
+              Failure rates appear once completions finish.
+            </p>
+          )}
+          {reliabilityList.map((entry) => (
+            <div
+              className={styles.statRow}
+              key={`${entry.modelId}-reliability`}
+            >
+              <span>
+                {modelName(entry.modelId)}{" "}
+                <span className="text-xs text-[var(--muted)]">
+                  ({entry.failures}/{entry.attempts} failed,{" "}
+                  {(entry.failureRate * 100).toFixed(0)}%
+                  {entry.aborted > 0 ? `, ${entry.aborted} aborted` : ""})
+                </span>
+              </span>
+              <span className="font-mono text-xs">
+                {entry.kinds.length > 0
+                  ? entry.kinds
+                      .map(
+                        ([kind, count]) =>
+                          `${ERROR_KIND_LABELS[kind]} ×${count}`,
+                      )
+                      .join(" · ")
+                  : "no failures"}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className={`${styles.panel} ${styles.panelWide}`}>
+        <h2>Image Fidelity</h2>
+        <p>
+          Average similarity of each model's output to the input image of the
+          same run. Higher PSNR/SSIM and lower pHash/histogram distance mean
+          more of the unedited image was preserved.
+        </p>
+        <div className={styles.statList}>
+          {fidelityList.length === 0 && (
+            <p className="text-sm text-[var(--muted)]">
+              Metrics appear once a model returns an image for a run that had an
+              input image.
+            </p>
+          )}
+          {fidelityList.map((entry) => (
+            <div className={styles.statRow} key={`${entry.modelId}-fidelity`}>
+              <span>
+                {entry.modelName}{" "}
+                <span className="text-xs text-[var(--muted)]">
+                  ({entry.count} image{entry.count === 1 ? "" : "s"})
+                </span>
+              </span>
+              <span className="font-mono text-xs">
+                {formatImageMetrics({
+                  referenceImageId: "",
+                  psnr: entry.psnr,
+                  ssim: entry.ssim,
+                  phashDistance: Math.round(entry.phashDistance * 10) / 10,
+                  histogramDistance: entry.histogramDistance,
+                  computedAt: 0,
+                })}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className={`${styles.panel} ${styles.panelWide}`}>
+        <h2>Cross-model Similarity</h2>
+        <p>
+          Compares the latest output image of each model in the current session
+          against each other.
+        </p>
+        <div>
+          <Button
+            type="button"
+            variant="secondary"
+            size="sm"
+            onClick={computeCrossModel}
+            disabled={crossModelBusy || !sessionState.session}
+          >
+            {crossModelBusy ? "Comparing..." : "Compare outputs"}
+          </Button>
+        </div>
+        <div className={styles.statList}>
+          {crossModel && crossModel.length === 0 && (
+            <p className="text-sm text-[var(--muted)]">
+              At least two models need an output image in this session.
+            </p>
+          )}
+          {crossModel?.map((result) => (
+            <div className={styles.statRow} key={result.key}>
+              <span>
+                {modelName(result.left)} ↔ {modelName(result.right)}
+              </span>
+              <span className="font-mono text-xs">
+                {formatImageMetrics(result.metrics)}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+
       <div className={styles.panel}>
         <h2>Cost Tracking</h2>
         <p>Compare total costs and drill into message-level spend.</p>
@@ -0,0 +1,521 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useStore } from "@nanostores/react";
+import styles from "./SuitesView.module.scss";
+import { Button } from "@components/ui/button";
+import { Input } from "@components/ui/input";
+import { Textarea } from "@components/ui/textarea";
+import {
+  $suiteRun,
+  $suites,
+  MAX_SUITE_CONCURRENCY,
+  addSuiteCase,
+  addSuiteCaseImages,
+  createSuite,
+  deleteSuite,
+  loadSuiteResults,
+  loadSuites,
+  pauseSuiteRun,
+  removeSuiteCase,
+  resumeSuiteRun,
+  runSuite,
+  suiteJobKey,
+  updateSuite,
+  updateSuiteCase,
+} from "@stores/suitesStore";
+import { loadSession } from "@stores/sessionsStore";
+import { $settings } from "@stores/settingsStore";
+import { $models } from "@stores/modelsStore";
+import { setActiveView } from "@stores/appStore";
+import { getImage } from "../../lib/idb";
+import { formatDateTime } from "../../lib/utils";
+import type { Message, Suite } from "../../types/db";
+import {
+  ExternalLink,
+  ImagePlus,
+  Pause,
+  Play,
+  Plus,
+  Trash2,
+  X,
+} from "lucide-react";
+
+function Thumb({
+  imageId,
+  onRemove,
+}: {
+  imageId: string;
+  onRemove?: () => void;
+}) {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    let active = true;
+    void getImage(imageId).then((asset) => {
+      if (!asset || !active) return;
+      objectUrl = URL.createObjectURL(asset.blob);
+      setUrl(objectUrl);
+    });
+    return () => {
+      active = false;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [imageId]);
+
+  return (
+    <div className={styles.thumb}>
+      {url ? <img src={url} alt="" /> : null}
+      {onRemove ? (
+        <button
+          type="button"
+          className={styles.thumbRemove}
+          onClick={onRemove}
+          title="Remove image"
+        >
+          <X size={12} />
+        </button>
+      ) : null}
+    </div>
+  );
+}
+
+function ResultCell({
+  message,
+  status,
+  onOpen,
+}: {
+  message?: Message;
+  status?: string;
+  onOpen?: () => void;
+}) {
+  const label =
+    status === "running" || status === "queued"
+      ? status
+      : (message?.status ?? status ?? "—");
+  const imageId = message?.imageIds[message.imageIds.length - 1];
+  return (
+    <div className={styles.resultCell}>
+      <span
+        className={`${styles.statusChip} ${
+          label === "complete"
+            ? styles.statusComplete
+            : label === "error"
+              ? styles.statusError
+              : ""
+        }`}
+      >
+        {label}
+      </span>
+      {message?.judgement ? (
+        <span
+          className={styles.statusChip}
+          title={[
+            ...message.judgement.failureTags,
+            ...message.judgement.reasons,
+          ].join("\n")}
+        >
+          judge {message.judgement.score}/10
+        </span>
+      ) : null}
+      {imageId ? <Thumb imageId={imageId} /> : null}
+      {message?.contentText && !imageId ? (
+        <span className={styles.resultText}>{message.contentText}</span>
+      ) : null}
+      {onOpen ? (
+        <Button
+          type="button"
+          size="sm"
+          variant="ghost"
+          onClick={onOpen}
+          title="Open session"
+        >
+          <ExternalLink size={14} />
+        </Button>
+      ) : null}
+    </div>
+  );
+}
+
+function SuiteEditor({ suite }: { suite: Suite }) {
+  const run = useStore($suiteRun);
+  const models = useStore($models);
+  const settings = useStore($settings);
+  const [results, setResults] = useState<Record<string, Message | undefined>>(
+    {},
+  );
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [imageTargetCase, setImageTargetCase] = useState<string | null>(null);
+
+  const isThisRun = run?.suiteId === suite.id;
+  const isRunning = isThisRun && run?.status !== "done";
+  const isOtherRunning = !!run && !isThisRun && run.status !== "done";
+
+  const modelName = (id: string) =>
+    models.find((model) => model.id === id)?.name ?? id;
+
+  // Reload the matrix whenever a job settles or the case sessions change
+  const settledCount = isThisRun
+    ? Object.values(run?.jobs ?? {}).filter(
+        (status) => status === "complete" || status === "error",
+      ).length
+    : 0;
+  useEffect(() => {
+    let active = true;
+    void loadSuiteResults(suite).then((next) => {
+      if (active) setResults(next);
+    });
+    return () => {
+      active = false;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [suite.id, suite.caseSessionIds, suite.modelIds, settledCount]);
+
+  const progress = useMemo(() => {
+    if (!isThisRun || !run) return null;
+    const statuses = Object.values(run.jobs);
+    const done = statuses.filter(
+      (status) => status === "complete" || status === "error",
+    ).length;
+    const failed = statuses.filter((status) => status === "error").length;
+    return { done, failed, total: statuses.length };
+  }, [isThisRun, run]);
+
+  const handleOpen = async (sessionId: string) => {
+    await loadSession(sessionId);
+    setActiveView("session");
+  };
+
+  const handleFiles = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = "";
+    if (!imageTargetCase || files.length === 0) return;
+    await addSuiteCaseImages(suite.id, imageTargetCase, files);
+    setImageTargetCase(null);
+  };
+
+  return (
+    <div className={styles.panel}>
+      <div className={styles.editorHeader}>
+        <Input
+          value={suite.name}
+          onChange={(event) =>
+            updateSuite(suite.id, { name: event.target.value })
+          }
+          aria-label="Suite name"
+        />
+        <label className={styles.concurrency}>
+          Concurrency
+          <Input
+            type="number"
+            min={1}
+            max={MAX_SUITE_CONCURRENCY}
+            value={suite.concurrency}
+            onChange={(event) =>
+              updateSuite(suite.id, {
+                concurrency: Math.max(
+                  1,
+                  Math.min(
+                    MAX_SUITE_CONCURRENCY,
+                    Number(event.target.value) || 1,
+                  ),
+                ),
+              })
+            }
+          />
+        </label>
+        <Button
+          type="button"
+          variant="danger"
+          size="sm"
+          onClick={() => void deleteSuite(suite.id)}
+          disabled={isRunning}
+          title="Delete suite"
+        >
+          <Trash2 size={14} />
+        </Button>
+      </div>
+
+      <div className={styles.section}>
+        <div className={styles.sectionHeader}>
+          <h3>Models</h3>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              updateSuite(suite.id, {
+                modelIds: [...settings.selectedModelIds],
+              })
+            }
+            disabled={isRunning}
+          >
+            Use selected models
+          </Button>
+        </div>
+        <div className={styles.chips}>
+          {suite.modelIds.length === 0 ? (
+            <span className={styles.muted}>
+              No models. Select models in the Models view first.
+            </span>
+          ) : (
+            suite.modelIds.map((modelId) => (
+              <span key={modelId} className={styles.chip}>
+                {modelName(modelId)}
+                <button
+                  type="button"
+                  onClick={() =>
+                    updateSuite(suite.id, {
+                      modelIds: suite.modelIds.filter((id) => id !== modelId),
+                    })
+                  }
+                  disabled={isRunning}
+                  title="Remove model"
+                >
+                  <X size={12} />
+                </button>
+              </span>
+            ))
+          )}
+        </div>
+      </div>
+
+      <div className={styles.section}>
+        <div className={styles.sectionHeader}>
+          <h3>Cases ({suite.cases.length})</h3>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => void addSuiteCase(suite.id)}
+            disabled={isRunning}
+          >
+            <Plus size={14} />
+            Add case
+          </Button>
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          multiple
+          hidden
+          onChange={(event) => void handleFiles(event)}
+        />
+        {suite.cases.map((item, index) => (
+          <div key={item.id} className={styles.caseRow}>
+            <span className={styles.caseIndex}>#{index + 1}</span>
+            <div className={styles.caseBody}>
+              <Textarea
+                value={item.text}
+                placeholder="Prompt"
+                rows={2}
+                onChange={(event) =>
+                  updateSuiteCase(suite.id, item.id, {
+                    text: event.target.value,
+                  })
+                }
+              />
+              <Input
+                value={item.expectedNotes ?? ""}
+                placeholder="Expected outcome (notes)"
+                onChange={(event) =>
+                  updateSuiteCase(suite.id, item.id, {
+                    expectedNotes: event.target.value,
+                  })
+                }
+              />
+              <div className={styles.caseImages}>
+                {item.imageIds.map((imageId) => (
+                  <Thumb
+                    key={imageId}
+                    imageId={imageId}
+                    onRemove={() =>
+                      updateSuiteCase(suite.id, item.id, {
+                        imageIds: item.imageIds.filter((id) => id !== imageId),
+                      })
+                    }
+                  />
+                ))}
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    setImageTargetCase(item.id);
+                    fileInputRef.current?.click();
+                  }}
+                  title="Add input images"
+                >
+                  <ImagePlus size={14} />
+                </Button>
+              </div>
+            </div>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => void removeSuiteCase(suite.id, item.id)}
+              disabled={isRunning}
+              title="Remove case"
+            >
+              <Trash2 size={14} />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <div className={styles.section}>
+        <div className={styles.sectionHeader}>
+          <h3>Run</h3>
+          <div className={styles.runActions}>
+            {isRunning && run?.status === "running" ? (
+              <Button
+                type="button"
+                variant="secondary"
+                size="sm"
+                onClick={pauseSuiteRun}
+              >
+                <Pause size={14} />
+                Pause
+              </Button>
+            ) : isRunning && run?.status === "paused" ? (
+              <Button type="button" size="sm" onClick={resumeSuiteRun}>
+                <Play size={14} />
+                Resume
+              </Button>
+            ) : (
+              <Button
+                type="button"
+                size="sm"
+                onClick={() => void runSuite(suite.id)}
+                disabled={isOtherRunning}
+                title={isOtherRunning ? "Another suite is running" : undefined}
+              >
+                <Play size={14} />
+                Run suite
+              </Button>
+            )}
+          </div>
+        </div>
+        {progress ? (
+          <div className={styles.progress}>
+            <div className={styles.progressTrack}>
+              <div
+                className={styles.progressFill}
+                style={{
+                  width: `${progress.total > 0 ? (progress.done / progress.total) * 100 : 0}%`,
+                }}
+              />
+            </div>
+            <span className={styles.muted}>
+              {progress.done}/{progress.total} done
+              {progress.failed > 0 ? ` · ${progress.failed} failed` : ""}
+              {run?.status === "paused" ? " · paused" : ""}
+            </span>
+          </div>
+        ) : suite.lastRunAt ? (
+          <span className={styles.muted}>
+            Last run {formatDateTime(suite.lastRunAt)}
+          </span>
+        ) : null}
+      </div>
+
+      {suite.cases.length > 0 && suite.modelIds.length > 0 ? (
+        <div className={styles.matrixWrap}>
+          <table className={styles.matrix}>
+            <thead>
+              <tr>
+                <th>Case</th>
+                {suite.modelIds.map((modelId) => (
+                  <th key={modelId}>{modelName(modelId)}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {suite.cases.map((item, index) => {
+                const sessionId = suite.caseSessionIds[item.id];
+                return (
+                  <tr key={item.id}>
+                    <td className={styles.matrixCase}>
+                      #{index + 1} {item.text.slice(0, 60)}
+                    </td>
+                    {suite.modelIds.map((modelId) => {
+                      const key = suiteJobKey(item.id, modelId);
+                      return (
+                        <td key={modelId}>
+                          <ResultCell
+                            message={results[key]}
+                            status={isThisRun ? run?.jobs[key] : undefined}
+                            onOpen={
+                              sessionId && results[key]
+                                ? () => void handleOpen(sessionId)
+                                : undefined
+                            }
+                          />
+                        </td>
+                      );
+                    })}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+export default function SuitesView() {
+  const suites = useStore($suites);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    void loadSuites();
+  }, []);
+
+  const selected =
+    suites.find((suite) => suite.id === selectedId) ?? suites[0] ?? null;
+
+  const handleCreate = async () => {
+    const suite = await createSuite();
+    setSelectedId(suite.id);
+  };
+
+  return (
+    <div className={styles.suitesView}>
+      <div className={`${styles.panel} ${styles.suiteList}`}>
+        <div className={styles.sectionHeader}>
+          <h2>Suites</h2>
+          <Button type="button" size="sm" onClick={() => void handleCreate()}>
+            <Plus size={14} />
+            New
+          </Button>
+        </div>
+        {suites.length === 0 ? (
+          <p className={styles.muted}>
+            A suite is a fixed list of prompts and input images that runs
+            against a set of models in one batch.
+          </p>
+        ) : (
+          suites.map((suite) => (
+            <button
+              key={suite.id}
+              type="button"
+              className={`${styles.suiteItem} ${
+                selected?.id === suite.id ? styles.suiteItemActive : ""
+              }`}
+              onClick={() => setSelectedId(suite.id)}
+            >
+              <strong>{suite.name || "Untitled suite"}</strong>
+              <span className={styles.muted}>
+                {suite.cases.length} cases · {suite.modelIds.length} models
+              </span>
+            </button>
+          ))
+        )}
+      </div>
+      {selected ? <SuiteEditor key={selected.id} suite={selected} /> : null}
+    </div>
+  );
+}
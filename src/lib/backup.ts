@@ -0,0 +1,530 @@
+import { strFromU8, strToU8, unzipSync, zipSync, type Zippable } from "fflate";
+import type {
+  DefaultsState,
+  ImageAsset,
+  Message,
+  Rating,
+  Session,
+  SessionStats,
+  SettingsState,
+  StreamRecording,
+  Suite,
+  UsageRecord,
+} from "../types/db";
+import type { OpenRouterModel } from "../types/openrouter";
+import {
+  clearAllStorage,
+  getAllImages,
+  getAllMessages,
+  getAllRatings,
+  getAllSessions,
+  getAllStats,
+  getAllStreamRecordings,
+  getAllUsageRecords,
+  getDefaults,
+  getImage,
+  getModels,
+  getSettings,
+  getStreamRecording,
+  getSuites,
+  saveDefaults,
+  saveImage,
+  saveMessages,
+  saveModels,
+  saveRating,
+  saveSession,
+  saveSettings,
+  saveStats,
+  saveStreamRecording,
+  saveSuite,
+  saveUsageRecord,
+} from "./idb";
+import { getImageExtension, type SessionExportImage } from "./export";
+import { usageRecordsFromMessage } from "./spend";
+
+export const BACKUP_FORMAT = "sbs-backup";
+export const BACKUP_VERSION = 1;
+
+export type BackupRestoreMode = "merge" | "replace";
+
+export type BackupStoreKey =
+  | "settings"
+  | "models"
+  | "defaults"
+  | "sessions"
+  | "messages"
+  | "stats"
+  | "images"
+  | "streams"
+  | "ratings"
+  | "suites"
+  | "usage";
+
+type BackupStream = Omit<StreamRecording, "data"> & {
+  path: string;
+  dataType: string;
+};
+
+/** Contents of `backup.json`; binary data lives next to it in the ZIP. */
+export interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: number;
+  includesApiKeys: boolean;
+  settings: SettingsState | null;
+  models: OpenRouterModel[];
+  defaults: DefaultsState | null;
+  sessions: Session[];
+  messages: Message[];
+  stats: SessionStats[];
+  ratings: Rating[];
+  suites: Suite[];
+  usage?: UsageRecord[]; // Missing in backups made before usage was recorded
+  images: SessionExportImage[];
+  streams: BackupStream[];
+}
+
+export interface BackupArchive {
+  manifest: BackupManifest;
+  images: ImageAsset[];
+  streams: StreamRecording[];
+}
+
+export interface BackupRestoreReport {
+  mode: BackupRestoreMode;
+  restored: Record<BackupStoreKey, number>;
+  conflicts: Record<BackupStoreKey, number>; // Merge only: records kept local
+  conflictDetails: string[]; // Human-readable, capped at MAX_CONFLICT_DETAILS
+  missingFiles: number; // Images/streams listed in backup.json but absent from the ZIP
+}
+
+const MAX_CONFLICT_DETAILS = 20;
+
+function emptyCounts(): Record<BackupStoreKey, number> {
+  return {
+    settings: 0,
+    models: 0,
+    defaults: 0,
+    sessions: 0,
+    messages: 0,
+    stats: 0,
+    images: 0,
+    streams: 0,
+    ratings: 0,
+    suites: 0,
+    usage: 0,
+  };
+}
+
+function stripApiKeys(settings: SettingsState): SettingsState {
+  return {
+    ...settings,
+    apiKey: "",
+    providers: (settings.providers ?? []).map((provider) => ({
+      ...provider,
+      apiKey: "",
+    })),
+  };
+}
+
+/** Fills keys that were stripped from a backup with the ones in use here. */
+function keepLocalApiKeys(
+  incoming: SettingsState,
+  local: SettingsState | null,
+): SettingsState {
+  if (!local) return incoming;
+  return {
+    ...incoming,
+    apiKey: incoming.apiKey || local.apiKey,
+    providers: (incoming.providers ?? []).map((provider) => ({
+      ...provider,
+      apiKey:
+        provider.apiKey ||
+        local.providers?.find((item) => item.id === provider.id)?.apiKey ||
+        "",
+    })),
+  };
+}
+
+/**
+ * Snapshot of every IndexedDB store as a ZIP: `backup.json` plus image and
+ * raw stream files. API keys are blanked unless explicitly included.
+ */
+export async function createBackupZip({
+  includeApiKeys,
+}: {
+  includeApiKeys: boolean;
+}): Promise<Blob> {
+  const [
+    settings,
+    models,
+    defaults,
+    sessions,
+    messages,
+    stats,
+    ratings,
+    suites,
+    usage,
+    images,
+    streams,
+  ] = await Promise.all([
+    getSettings(),
+    getModels(),
+    getDefaults(),
+    getAllSessions(),
+    getAllMessages(),
+    getAllStats(),
+    getAllRatings(),
+    getSuites(),
+    getAllUsageRecords(),
+    getAllImages(),
+    getAllStreamRecordings(),
+  ]);
+
+  const files: Zippable = {};
+  const imageEntries: SessionExportImage[] = [];
+  for (const asset of images) {
+    const path = `images/${asset.id}.${getImageExtension(asset.mimeType)}`;
+    // Images are already compressed; storing them keeps large backups fast
+    files[path] = [
+      new Uint8Array(await asset.blob.arrayBuffer()),
+      { level: 0 },
+    ];
+    imageEntries.push({
+      id: asset.id,
+      mimeType: asset.mimeType,
+      width: asset.width,
+      height: asset.height,
+      bytes: asset.bytes,
+      createdAt: asset.createdAt,
+      path,
+    });
+  }
+  const streamEntries: BackupStream[] = [];
+  for (const { data, ...recording } of streams) {
+    const path = `streams/${recording.messageId}.bin`;
+    files[path] = new Uint8Array(await data.arrayBuffer());
+    streamEntries.push({ ...recording, path, dataType: data.type });
+  }
+
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: Date.now(),
+    includesApiKeys: includeApiKeys,
+    settings: settings && !includeApiKeys ? stripApiKeys(settings) : settings,
+    models,
+    defaults,
+    sessions,
+    messages,
+    stats,
+    ratings,
+    suites,
+    usage,
+    images: imageEntries,
+    streams: streamEntries,
+  };
+  files["backup.json"] = strToU8(JSON.stringify(manifest));
+
+  const zipped = zipSync(files, { level: 6 });
+  return new Blob([zipped as unknown as BlobPart], {
+    type: "application/zip",
+  });
+}
+
+export async function readBackupZip(file: Blob): Promise<BackupArchive> {
+  const entries = unzipSync(new Uint8Array(await file.arrayBuffer()));
+  const json = entries["backup.json"];
+  if (!json) {
+    throw new Error(
+      entries["session.json"]
+        ? "This is a single-session export. Import it from History instead."
+        : "backup.json not found in the archive.",
+    );
+  }
+  let manifest: BackupManifest;
+  try {
+    manifest = JSON.parse(strFromU8(json)) as BackupManifest;
+  } catch {
+    throw new Error("backup.json is not valid JSON.");
+  }
+  if (manifest?.format !== BACKUP_FORMAT) {
+    throw new Error("backup.json is not a database backup.");
+  }
+  if (manifest.version > BACKUP_VERSION) {
+    throw new Error(
+      `Backup version ${manifest.version} is newer than this app supports.`,
+    );
+  }
+
+  const images: ImageAsset[] = [];
+  for (const entry of manifest.images ?? []) {
+    const data = entries[entry.path];
+    if (!data) continue;
+    images.push({
+      id: entry.id,
+      blob: new Blob([data as unknown as BlobPart], { type: entry.mimeType }),
+      mimeType: entry.mimeType,
+      width: entry.width,
+      height: entry.height,
+      bytes: entry.bytes,
+      createdAt: entry.createdAt,
+    });
+  }
+  const streams: StreamRecording[] = [];
+  for (const { path, dataType, ...recording } of manifest.streams ?? []) {
+    const data = entries[path];
+    if (!data) continue;
+    streams.push({
+      ...recording,
+      data: new Blob([data as unknown as BlobPart], { type: dataType }),
+    });
+  }
+
+  return {
+    manifest: {
+      ...manifest,
+      models: manifest.models ?? [],
+      sessions: manifest.sessions ?? [],
+      messages: manifest.messages ?? [],
+      stats: manifest.stats ?? [],
+      ratings: manifest.ratings ?? [],
+      suites: manifest.suites ?? [],
+      // Older backups: rebuild spend from the costs stored on messages
+      usage:
+        manifest.usage ??
+        (manifest.messages ?? []).flatMap(usageRecordsFromMessage),
+      images: manifest.images ?? [],
+      streams: manifest.streams ?? [],
+    },
+    images,
+    streams,
+  };
+}
+
+/**
+ * Writes a backup into IndexedDB. "replace" clears every store first;
+ * "merge" only adds records whose key isn't present yet, so local data always
+ * wins and every overlap is reported as a conflict.
+ */
+export async function restoreBackup(
+  archive: BackupArchive,
+  mode: BackupRestoreMode,
+): Promise<BackupRestoreReport> {
+  const { manifest } = archive;
+  const restored = emptyCounts();
+  const conflicts = emptyCounts();
+  const conflictDetails: string[] = [];
+  const noteConflict = (store: BackupStoreKey, detail: string) => {
+    conflicts[store] += 1;
+    if (conflictDetails.length < MAX_CONFLICT_DETAILS) {
+      conflictDetails.push(detail);
+    }
+  };
+  const missingFiles =
+    manifest.images.length -
+    archive.images.length +
+    (manifest.streams.length - archive.streams.length);
+
+  const localSettings = await getSettings();
+
+  if (mode === "replace") {
+    await clearAllStorage();
+    if (manifest.settings) {
+      await saveSettings(keepLocalApiKeys(manifest.settings, localSettings));
+      restored.settings = 1;
+    }
+    if (manifest.defaults) {
+      await saveDefaults(manifest.defaults);
+      restored.defaults = 1;
+    }
+    await saveModels(manifest.models);
+    restored.models = manifest.models.length;
+    for (const session of manifest.sessions) await saveSession(session);
+    restored.sessions = manifest.sessions.length;
+    await saveMessages(manifest.messages);
+    restored.messages = manifest.messages.length;
+    for (const stat of manifest.stats) await saveStats(stat);
+    restored.stats = manifest.stats.length;
+    for (const rating of manifest.ratings) await saveRating(rating);
+    restored.ratings = manifest.ratings.length;
+    for (const suite of manifest.suites) await saveSuite(suite);
+    restored.suites = manifest.suites.length;
+    for (const record of manifest.usage ?? []) await saveUsageRecord(record);
+    restored.usage = manifest.usage?.length ?? 0;
+    for (const asset of archive.images) await saveImage(asset);
+    restored.images = archive.images.length;
+    for (const recording of archive.streams) {
+      await saveStreamRecording(recording);
+    }
+    restored.streams = archive.streams.length;
+    return { mode, restored, conflicts, conflictDetails, missingFiles };
+  }
+
+  // Merge
+  if (manifest.settings) {
+    if (localSettings) {
+      // Keep local choices; pick up providers and per-model settings that only
+      // exist in the backup
+      const incoming = manifest.settings;
+      await saveSettings({
+        ...localSettings,
+        apiKey: localSettings.apiKey || incoming.apiKey,
+        providers: [
+          ...(localSettings.providers ?? []),
+          ...(incoming.providers ?? []).filter(
+            (provider) =>
+              !localSettings.providers?.some((item) => item.id === provider.id),
+          ),
+        ],
+        perModelParameters: {
+          ...incoming.perModelParameters,
+          ...localSettings.perModelParameters,
+        },
+        modelParamSchema: {
+          ...incoming.modelParamSchema,
+          ...localSettings.modelParamSchema,
+        },
+        modelProviderIds: {
+          ...incoming.modelProviderIds,
+          ...localSettings.modelProviderIds,
+        },
+      });
+      noteConflict("settings", "Settings: kept local values");
+    } else {
+      await saveSettings(manifest.settings);
+      restored.settings = 1;
+    }
+  }
+
+  if (manifest.defaults) {
+    const local = await getDefaults();
+    if (local) {
+      const added = manifest.defaults.entries.filter(
+        (entry) => !local.entries.some((item) => item.id === entry.id),
+      );
+      manifest.defaults.entries
+        .filter((entry) => local.entries.some((item) => item.id === entry.id))
+        .forEach((entry) =>
+          noteConflict("defaults", `Default "${entry.name}": kept local`),
+        );
+      if (added.length > 0) {
+        await saveDefaults({ ...local, entries: [...local.entries, ...added] });
+        restored.defaults = added.length;
+      }
+    } else {
+      await saveDefaults(manifest.defaults);
+      restored.defaults = 1;
+    }
+  }
+
+  const localModels = await getModels();
+  const newModels = manifest.models.filter(
+    (model) => !localModels.some((item) => item.id === model.id),
+  );
+  if (newModels.length > 0) {
+    await saveModels([...localModels, ...newModels]);
+    restored.models = newModels.length;
+  }
+
+  const [
+    localSessions,
+    localMessages,
+    localStats,
+    localRatings,
+    localSuites,
+    localUsage,
+  ] = await Promise.all([
+    getAllSessions(),
+    getAllMessages(),
+    getAllStats(),
+    getAllRatings(),
+    getSuites(),
+    getAllUsageRecords(),
+  ]);
+
+  const sessionIds = new Set(localSessions.map((item) => item.id));
+  for (const session of manifest.sessions) {
+    if (sessionIds.has(session.id)) {
+      noteConflict(
+        "sessions",
+        `Session "${session.title || session.id}": kept local`,
+      );
+      continue;
+    }
+    await saveSession(session);
+    restored.sessions += 1;
+  }
+
+  const messageIds = new Set(localMessages.map((item) => item.id));
+  const newMessages = manifest.messages.filter((message) => {
+    if (!messageIds.has(message.id)) return true;
+    conflicts.messages += 1;
+    return false;
+  });
+  await saveMessages(newMessages);
+  restored.messages = newMessages.length;
+
+  const statKeys = new Set(
+    localStats.map((item) => `${item.sessionId}:${item.modelId}`),
+  );
+  for (const stat of manifest.stats) {
+    if (statKeys.has(`${stat.sessionId}:${stat.modelId}`)) {
+      conflicts.stats += 1;
+      continue;
+    }
+    await saveStats(stat);
+    restored.stats += 1;
+  }
+
+  const ratingIds = new Set(localRatings.map((item) => item.messageId));
+  for (const rating of manifest.ratings) {
+    if (ratingIds.has(rating.messageId)) {
+      conflicts.ratings += 1;
+      continue;
+    }
+    await saveRating(rating);
+    restored.ratings += 1;
+  }
+
+  const suiteIds = new Set(localSuites.map((item) => item.id));
+  for (const suite of manifest.suites) {
+    if (suiteIds.has(suite.id)) {
+      noteConflict("suites", `Suite "${suite.name}": kept local`);
+      continue;
+    }
+    await saveSuite(suite);
+    restored.suites += 1;
+  }
+
+  const usageIds = new Set(localUsage.map((item) => item.id));
+  for (const record of manifest.usage ?? []) {
+    if (usageIds.has(record.id)) {
+      conflicts.usage += 1;
+      continue;
+    }
+    await saveUsageRecord(record);
+    restored.usage += 1;
+  }
+
+  for (const asset of archive.images) {
+    // Image ids are random UUIDs, so an existing id is the same image
+    if (await getImage(asset.id)) {
+      conflicts.images += 1;
+      continue;
+    }
+    await saveImage(asset);
+    restored.images += 1;
+  }
+
+  for (const recording of archive.streams) {
+    if (await getStreamRecording(recording.messageId)) {
+      conflicts.streams += 1;
+      continue;
+    }
+    await saveStreamRecording(recording);
+    restored.streams += 1;
+  }
+
+  return { mode, restored, conflicts, conflictDetails, missingFiles };
+}
@@ -0,0 +1,55 @@
+import type { Message } from "../types/db";
+import type { OpenRouterModel } from "../types/openrouter";
+import { calculateModelCostUsd } from "./cost";
+
+// Rough token figures for pre-send estimates; providers bill differently,
+// so these err on the high side rather than promise a precise number
+const CHARS_PER_TOKEN = 4;
+const TOKENS_PER_INPUT_IMAGE = 1300;
+const COMPLETION_TOKENS_TEXT = 600;
+const COMPLETION_TOKENS_IMAGE = 1400;
+
+export function localDayKey(timestamp = Date.now()) {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Estimates one completion: the run's existing context plus the new turn as
+ * prompt, a typical answer as completion, and one output image for models
+ * that generate images. Returns null when the model has no usable pricing.
+ */
+export function estimateCompletionCostUsd({
+  pricing,
+  contextMessages,
+  text,
+  imageCount,
+  imageOutput,
+}: {
+  pricing: OpenRouterModel["pricing"] | undefined;
+  contextMessages: Message[];
+  text: string;
+  imageCount: number;
+  imageOutput: boolean;
+}): number | null {
+  const contextChars = contextMessages.reduce(
+    (sum, message) => sum + message.contentText.length,
+    text.length,
+  );
+  const contextImages = contextMessages.reduce(
+    (sum, message) => sum + message.imageIds.length,
+    imageCount,
+  );
+  return calculateModelCostUsd({
+    pricing,
+    promptTokens:
+      Math.ceil(contextChars / CHARS_PER_TOKEN) +
+      contextImages * TOKENS_PER_INPUT_IMAGE,
+    completionTokens: imageOutput
+      ? COMPLETION_TOKENS_IMAGE
+      : COMPLETION_TOKENS_TEXT,
+    outputImages: imageOutput ? 1 : 0,
+  });
+}
@@ -0,0 +1,250 @@
+import type { ImageAsset, Message, Session } from "../types/db";
+import { canvasToBlob, loadImageFromFile, type LoadedImage } from "./image";
+import { getTurnKey } from "./ratings";
+import { formatDuration } from "./utils";
+
+export type ContactSheetFormat = "png" | "jpeg";
+
+const PADDING = 16;
+const GAP = 12;
+const TITLE_HEIGHT = 40;
+const LABEL_HEIGHT = 44;
+const BACKGROUND = "#121318";
+const CELL_BACKGROUND = "#1c1e25";
+const TEXT = "#f7f3ee";
+const MUTED = "#a5a0a5";
+const ERROR = "#ff6b6b";
+const FONT = 'system-ui, -apple-system, "Segoe UI", sans-serif';
+// Browsers refuse to encode canvases much beyond this on either side
+const MAX_CANVAS_SIDE = 16384;
+
+interface SheetCell {
+  imageId?: string;
+  title: string;
+  detail: string;
+  note?: string; // Shown instead of an image (error, no output)
+  isError?: boolean;
+}
+
+interface SheetRow {
+  key: string;
+  cells: SheetCell[]; // Input first, then one per model
+}
+
+function sortTurnKeys(a: string, b: string) {
+  const [runA, turnA] = a.split(":").map(Number);
+  const [runB, turnB] = b.split(":").map(Number);
+  return runA - runB || turnA - turnB;
+}
+
+function lastImageId(message: Message | undefined) {
+  return message?.imageIds[message.imageIds.length - 1];
+}
+
+/**
+ * Lays out one row per prompt turn (run + user turn, as in getTurnKey) with
+ * the turn's input image first and each model's final output after it.
+ */
+function buildRows(
+  session: Session,
+  messagesByModel: Record<string, Message[]>,
+  modelNames: Record<string, string>,
+): SheetRow[] {
+  const assistantByTurn = new Map<string, Map<string, Message>>();
+  const userByTurn = new Map<string, Message>();
+  for (const modelId of session.modelIds) {
+    const messages = messagesByModel[modelId] ?? [];
+    for (const message of messages) {
+      const key = getTurnKey(messages, message);
+      if (message.role === "user") {
+        if (!userByTurn.has(key)) userByTurn.set(key, message);
+        continue;
+      }
+      if (message.role !== "assistant") continue;
+      if (!assistantByTurn.has(key)) assistantByTurn.set(key, new Map());
+      // Keep the latest answer when a turn was retried
+      assistantByTurn.get(key)!.set(modelId, message);
+    }
+  }
+
+  return Array.from(assistantByTurn.keys())
+    .sort(sortTurnKeys)
+    .map((key) => {
+      const [runIndex, turn] = key.split(":");
+      const user = userByTurn.get(key);
+      const prompt = user?.contentText.trim().replace(/\s+/g, " ") ?? "";
+      const inputCell: SheetCell = {
+        imageId: lastImageId(user),
+        title: `Input · Run ${runIndex} · Turn ${turn}`,
+        detail: prompt || "(no prompt text)",
+        note: lastImageId(user) ? undefined : "No input image",
+      };
+      const modelCells = session.modelIds.map((modelId): SheetCell => {
+        const message = assistantByTurn.get(key)?.get(modelId);
+        const name = modelNames[modelId] ?? modelId;
+        if (!message) {
+          return {
+            title: name,
+            detail: `Run ${runIndex}`,
+            note: "No response",
+            isError: true,
+          };
+        }
+        const cost = message.usage?.cost;
+        const latency =
+          message.completedAt !== undefined
+            ? formatDuration(message.completedAt - message.createdAt)
+            : "—";
+        const imageId = lastImageId(message);
+        return {
+          imageId,
+          title: name,
+          detail: `Run ${runIndex} · ${
+            typeof cost === "number" ? `$${cost.toFixed(4)}` : "cost n/a"
+          } · ${latency}`,
+          note: imageId
+            ? undefined
+            : message.status === "error"
+              ? (message.error ?? "Error")
+              : message.contentText.trim() || "No image output",
+          isError: !imageId && message.status === "error",
+        };
+      });
+      return { key, cells: [inputCell, ...modelCells] };
+    });
+}
+
+function fitText(ctx: CanvasRenderingContext2D, text: string, width: number) {
+  if (ctx.measureText(text).width <= width) return text;
+  let end = text.length;
+  while (end > 0 && ctx.measureText(`${text.slice(0, end)}…`).width > width) {
+    end--;
+  }
+  return `${text.slice(0, end)}…`;
+}
+
+function drawContained(
+  ctx: CanvasRenderingContext2D,
+  image: LoadedImage,
+  x: number,
+  y: number,
+  size: number,
+) {
+  const scale = Math.min(size / image.width, size / image.height);
+  const width = image.width * scale;
+  const height = image.height * scale;
+  ctx.drawImage(
+    image.element,
+    x + (size - width) / 2,
+    y + (size - height) / 2,
+    width,
+    height,
+  );
+}
+
+/**
+ * Renders a session into a single grid image for design reviews. Images are
+ * letterboxed into square cells of `cellSize` px with a two-line label below.
+ */
+export async function renderContactSheet({
+  session,
+  messagesByModel,
+  images,
+  modelNames = {},
+  format = "png",
+  cellSize = 320,
+}: {
+  session: Session;
+  messagesByModel: Record<string, Message[]>;
+  images: Record<string, ImageAsset>;
+  modelNames?: Record<string, string>;
+  format?: ContactSheetFormat;
+  cellSize?: number;
+}): Promise<Blob> {
+  const rows = buildRows(session, messagesByModel, modelNames);
+  if (rows.length === 0) {
+    throw new Error("This session has no responses to lay out yet.");
+  }
+
+  const columnCount = session.modelIds.length + 1;
+  cellSize = Math.floor(
+    Math.min(
+      cellSize,
+      (MAX_CANVAS_SIDE - PADDING * 2 - (columnCount - 1) * GAP) / columnCount,
+      (MAX_CANVAS_SIDE - PADDING * 2 - TITLE_HEIGHT) / rows.length -
+        LABEL_HEIGHT -
+        GAP,
+    ),
+  );
+  const cellHeight = cellSize + LABEL_HEIGHT;
+  const canvas = document.createElement("canvas");
+  canvas.width = PADDING * 2 + columnCount * cellSize + (columnCount - 1) * GAP;
+  canvas.height =
+    PADDING * 2 +
+    TITLE_HEIGHT +
+    rows.length * cellHeight +
+    (rows.length - 1) * GAP;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+
+  ctx.fillStyle = BACKGROUND;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.textBaseline = "top";
+  ctx.fillStyle = TEXT;
+  ctx.font = `600 18px ${FONT}`;
+  ctx.fillText(
+    fitText(
+      ctx,
+      session.title || `Session ${session.id}`,
+      canvas.width - PADDING * 2,
+    ),
+    PADDING,
+    PADDING,
+  );
+
+  const loaded = new Map<string, LoadedImage | null>();
+  const loadImage = async (imageId: string) => {
+    if (!loaded.has(imageId)) {
+      const asset = images[imageId];
+      loaded.set(
+        imageId,
+        asset ? await loadImageFromFile(asset.blob).catch(() => null) : null,
+      );
+    }
+    return loaded.get(imageId) ?? null;
+  };
+
+  for (const [rowIndex, row] of rows.entries()) {
+    const y = PADDING + TITLE_HEIGHT + rowIndex * (cellHeight + GAP);
+    for (const [columnIndex, cell] of row.cells.entries()) {
+      const x = PADDING + columnIndex * (cellSize + GAP);
+      ctx.fillStyle = CELL_BACKGROUND;
+      ctx.fillRect(x, y, cellSize, cellSize);
+
+      const image = cell.imageId ? await loadImage(cell.imageId) : null;
+      if (image) {
+        drawContained(ctx, image, x, y, cellSize);
+      } else {
+        ctx.fillStyle = cell.isError ? ERROR : MUTED;
+        ctx.font = `13px ${FONT}`;
+        ctx.textAlign = "center";
+        ctx.fillText(
+          fitText(ctx, cell.note ?? "Image unavailable", cellSize - 16),
+          x + cellSize / 2,
+          y + cellSize / 2 - 8,
+        );
+        ctx.textAlign = "left";
+      }
+
+      ctx.fillStyle = TEXT;
+      ctx.font = `600 13px ${FONT}`;
+      ctx.fillText(fitText(ctx, cell.title, cellSize), x, y + cellSize + 6);
+      ctx.fillStyle = MUTED;
+      ctx.font = `12px ${FONT}`;
+      ctx.fillText(fitText(ctx, cell.detail, cellSize), x, y + cellSize + 24);
+    }
+  }
+
+  const mimeType = format === "jpeg" ? "image/jpeg" : "image/png";
+  return await canvasToBlob(canvas, mimeType, 0.9);
+}
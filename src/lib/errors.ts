@@ -0,0 +1,142 @@
+import type { ErrorKind, Message } from "../types/db";
+
+export const ERROR_KIND_LABELS: Record<ErrorKind, string> = {
+  rate_limit: "Rate limit (429)",
+  auth: "Auth / credits (401-403)",
+  bad_request: "Bad request (4xx)",
+  provider_error: "Provider error (5xx)",
+  timeout: "Timeout",
+  network: "Network",
+  content_filter: "Content filter / refusal",
+  malformed_stream: "Malformed stream",
+  no_image: "No image returned",
+  empty_response: "Empty response",
+  aborted: "Aborted",
+  unknown: "Other",
+};
+
+// Provider finish reasons that mean the output was withheld
+const FILTER_FINISH_REASONS =
+  /content_filter|safety|prohibited|blocklist|recitation|spii|image_safety/i;
+const FILTER_TEXT =
+  /content[ _-]?(filter|policy|polic(y|ies))|safety|moderation|flagged|violat|prohibited|not allowed|blocked/i;
+// Model replied in words instead of making the image
+const REFUSAL_TEXT =
+  /\b(I can(no|')t|I cannot|I'm (not able|unable)|I am (not able|unable)|unable to (create|generate|edit|help))\b/i;
+
+function statusCode(error: string) {
+  const match = error.match(/\berror: (\d{3})\b/);
+  return match ? Number(match[1]) : null;
+}
+
+/** Maps an error string from a failed completion to a kind. */
+export function classifyError(error: string): ErrorKind {
+  const status = statusCode(error);
+  if (status === 429) return "rate_limit";
+  if (status === 401 || status === 402 || status === 403) return "auth";
+  if (status === 408 || status === 504 || status === 524) return "timeout";
+  if (status !== null && status >= 500) return "provider_error";
+  if (FILTER_TEXT.test(error)) return "content_filter";
+  if (status !== null && status >= 400) return "bad_request";
+  if (/abort/i.test(error)) return "aborted";
+  if (/time(d)? ?out/i.test(error)) return "timeout";
+  if (/failed to fetch|networkerror|network error|load failed/i.test(error)) {
+    return "network";
+  }
+  if (/JSON|unexpected (token|end)|no response body/i.test(error)) {
+    return "malformed_stream";
+  }
+  if (/no visible output/i.test(error)) return "empty_response";
+  return "unknown";
+}
+
+/**
+ * Kind for an answer that finished without the image it was asked for: a
+ * safety finish reason or a refusal in the text counts as filtered.
+ */
+export function classifyMissingImage(
+  text: string,
+  finishReason: string | null,
+): ErrorKind {
+  if (finishReason && FILTER_FINISH_REASONS.test(finishReason)) {
+    return "content_filter";
+  }
+  if (REFUSAL_TEXT.test(text) || FILTER_TEXT.test(text)) {
+    return "content_filter";
+  }
+  return text.trim() ? "no_image" : "empty_response";
+}
+
+/**
+ * Stored kind, or one derived from the error text for answers saved before
+ * kinds were recorded.
+ */
+export function resolveErrorKind(message: Message): ErrorKind | undefined {
+  if (message.errorKind) return message.errorKind;
+  if (message.status === "aborted") return "aborted";
+  if (message.status === "error") return classifyError(message.error ?? "");
+  return undefined;
+}
+
+export interface ReliabilitySummary {
+  modelId: string;
+  attempts: number; // Finished answers, aborts excluded
+  failures: number;
+  failureRate: number;
+  aborted: number;
+  kinds: Array<[ErrorKind, number]>; // Most frequent first, aborts included
+}
+
+/**
+ * Failure rate and failure kinds per model. Aborts are counted but left out
+ * of the rate, since stopping a run says nothing about the model.
+ */
+export function summarizeReliability(
+  messages: Message[],
+): ReliabilitySummary[] {
+  const byModel = new Map<
+    string,
+    {
+      attempts: number;
+      failures: number;
+      aborted: number;
+      kinds: Map<ErrorKind, number>;
+    }
+  >();
+  for (const message of messages) {
+    if (
+      message.role !== "assistant" ||
+      message.status === "streaming" ||
+      message.status === "queued" ||
+      // Branch copies and replays weren't requests of their own
+      message.branchFrom
+    ) {
+      continue;
+    }
+    const entry = byModel.get(message.modelId) ?? {
+      attempts: 0,
+      failures: 0,
+      aborted: 0,
+      kinds: new Map<ErrorKind, number>(),
+    };
+    const kind = resolveErrorKind(message);
+    if (kind) entry.kinds.set(kind, (entry.kinds.get(kind) ?? 0) + 1);
+    if (kind === "aborted") {
+      entry.aborted += 1;
+    } else {
+      entry.attempts += 1;
+      if (kind) entry.failures += 1;
+    }
+    byModel.set(message.modelId, entry);
+  }
+  return Array.from(byModel.entries())
+    .map(([modelId, entry]) => ({
+      modelId,
+      attempts: entry.attempts,
+      failures: entry.failures,
+      failureRate: entry.attempts > 0 ? entry.failures / entry.attempts : 0,
+      aborted: entry.aborted,
+      kinds: Array.from(entry.kinds.entries()).sort((a, b) => b[1] - a[1]),
+    }))
+    .sort((a, b) => b.failureRate - a.failureRate);
+}
@@ -1,7 +1,26 @@
 import { zipSync, strToU8 } from "fflate";
-import type { ImageAsset, Message, Session } from "../types/db";
+import type { ImageAsset, Message, Session, SessionStats } from "../types/db";
+import { buildSessionHtmlReport } from "./htmlReport";
 
-function getImageExtension(mimeType: string) {
+export const SESSION_EXPORT_FORMAT = "sbs-session";
+export const SESSION_EXPORT_VERSION = 1;
+
+export type SessionExportImage = Omit<ImageAsset, "blob"> & {
+  path: string; // Location of the image file inside the ZIP
+};
+
+/** Machine-readable contents of `session.json`, read back by the importer. */
+export interface SessionExportPayload {
+  format: typeof SESSION_EXPORT_FORMAT;
+  version: number;
+  exportedAt: number;
+  session: Session;
+  messages: Message[];
+  stats: SessionStats[];
+  images: SessionExportImage[];
+}
+
+export function getImageExtension(mimeType: string) {
   if (mimeType.includes("png")) return "png";
   if (mimeType.includes("jpeg") || mimeType.includes("jpg")) return "jpg";
   if (mimeType.includes("webp")) return "webp";
@@ -15,11 +34,15 @@ function formatDate(timestamp: number) {
 export async function exportSessionZip({
   session,
   messagesByModel,
+  stats = [],
   images,
+  modelNames,
 }: {
   session: Session;
   messagesByModel: Record<string, Message[]>;
+  stats?: SessionStats[];
   images: Record<string, ImageAsset>;
+  modelNames?: Record<string, string>;
 }): Promise<Blob> {
   const markdownLines: string[] = [];
   markdownLines.push(`# Session ${session.id}`);
@@ -50,6 +73,12 @@ export async function exportSessionZip({
         if (!asset) continue;
         const ext = getImageExtension(asset.mimeType);
         markdownLines.push(`![${imageId}](images/${imageId}.${ext})`);
+        const maskId = message.maskImageIds?.[imageId];
+        const mask = maskId ? images[maskId] : undefined;
+        if (maskId && mask) {
+          const maskExt = getImageExtension(mask.mimeType);
+          markdownLines.push(`![mask ${maskId}](images/${maskId}.${maskExt})`);
+        }
       }
       if (message.error) {
         markdownLines.push(`Error: ${message.error}`);
@@ -62,12 +91,45 @@ export async function exportSessionZip({
     "session.md": strToU8(markdownLines.join("\n")),
   };
 
+  const imageEntries: SessionExportImage[] = [];
   for (const [imageId, asset] of Object.entries(images)) {
     const ext = getImageExtension(asset.mimeType);
+    const path = `images/${imageId}.${ext}`;
     const buffer = await asset.blob.arrayBuffer();
-    files[`images/${imageId}.${ext}`] = new Uint8Array(buffer);
+    files[path] = new Uint8Array(buffer);
+    imageEntries.push({
+      id: asset.id,
+      mimeType: asset.mimeType,
+      width: asset.width,
+      height: asset.height,
+      bytes: asset.bytes,
+      createdAt: asset.createdAt,
+      path,
+    });
   }
 
+  const payload: SessionExportPayload = {
+    format: SESSION_EXPORT_FORMAT,
+    version: SESSION_EXPORT_VERSION,
+    exportedAt: Date.now(),
+    session,
+    messages: session.modelIds.flatMap(
+      (modelId) => messagesByModel[modelId] ?? [],
+    ),
+    stats,
+    images: imageEntries,
+  };
+  files["session.json"] = strToU8(JSON.stringify(payload, null, 2));
+  files["report.html"] = strToU8(
+    await buildSessionHtmlReport({
+      session,
+      messagesByModel,
+      stats,
+      images,
+      modelNames,
+    }),
+  );
+
   const zipped = zipSync(files, { level: 9 });
   return new Blob([zipped as unknown as BlobPart], {
     type: "application/zip",
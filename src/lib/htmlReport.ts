@@ -0,0 +1,233 @@
+import type { ImageAsset, Message, Session, SessionStats } from "../types/db";
+import { blobToDataUrl } from "./image";
+import { formatDuration } from "./utils";
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function formatCost(cost: number | undefined) {
+  return `$${typeof cost === "number" && Number.isFinite(cost) ? cost.toFixed(4) : "0.0000"}`;
+}
+
+function average(values: number[]) {
+  return values.length > 0
+    ? values.reduce((sum, value) => sum + value, 0) / values.length
+    : null;
+}
+
+// Same ordering as ModelColumn: grouped by runIndex, system messages first
+function groupRuns(messages: Message[]): Array<[number, Message[]]> {
+  const runMap = new Map<number, Message[]>();
+  messages.forEach((message) => {
+    const runIndex = message.runIndex ?? 0;
+    if (!runMap.has(runIndex)) runMap.set(runIndex, []);
+    runMap.get(runIndex)!.push(message);
+  });
+  runMap.forEach((runMessages) =>
+    runMessages.sort((a, b) => {
+      if (a.role === "system" && b.role !== "system") return -1;
+      if (a.role !== "system" && b.role === "system") return 1;
+      return a.createdAt - b.createdAt;
+    }),
+  );
+  return Array.from(runMap.entries()).sort(([a], [b]) => a - b);
+}
+
+function renderMessage(message: Message, imageUrls: Map<string, string>) {
+  const parts: string[] = [];
+  const timing: string[] = [];
+  if (message.firstTokenAt) {
+    timing.push(
+      `TTFT ${formatDuration(message.firstTokenAt - message.createdAt)}`,
+    );
+  }
+  if (message.completedAt) {
+    timing.push(
+      `total ${formatDuration(message.completedAt - message.createdAt)}`,
+    );
+  }
+  parts.push(
+    `<div class="msg-head"><span class="role">${escapeHtml(message.role)}</span>${
+      timing.length ? `<span class="muted">${timing.join(" · ")}</span>` : ""
+    }</div>`,
+  );
+  const reasoning = message.contentReasoning || message.contentThinking;
+  if (reasoning) {
+    parts.push(
+      `<details class="reasoning"><summary>Reasoning</summary><div class="text">${escapeHtml(reasoning)}</div></details>`,
+    );
+  }
+  if (message.contentText) {
+    parts.push(`<div class="text">${escapeHtml(message.contentText)}</div>`);
+  }
+  const images = message.imageIds
+    .map((imageId) => imageUrls.get(imageId))
+    .filter((url): url is string => Boolean(url));
+  if (images.length > 0) {
+    parts.push(
+      `<div class="images">${images
+        .map(
+          (url) =>
+            `<a href="${url}" target="_blank"><img src="${url}" alt="" /></a>`,
+        )
+        .join("")}</div>`,
+    );
+  }
+  if (message.error) {
+    parts.push(`<div class="error">Error: ${escapeHtml(message.error)}</div>`);
+  }
+  return `<div class="msg msg-${message.role}${
+    message.status === "error" ? " msg-error" : ""
+  }">${parts.join("")}</div>`;
+}
+
+const REPORT_CSS = `
+body{margin:0;padding:24px;background:#121318;color:#f7f3ee;font:14px/1.5 system-ui,-apple-system,"Segoe UI",sans-serif}
+h1{margin:0 0 4px;font-size:20px}
+.muted{color:#a5a0a5;font-size:12px}
+.summary{margin-bottom:20px}
+.columns{display:flex;gap:16px;align-items:flex-start;overflow-x:auto}
+.column{flex:1 0 320px;max-width:520px;background:rgba(255,255,255,.04);border:1px solid rgba(255,255,255,.1);border-radius:14px;padding:14px}
+.column h2{margin:0;font-size:15px;word-break:break-word}
+.stats{display:flex;flex-wrap:wrap;gap:4px 12px;margin:6px 0 10px}
+.tabs{display:flex;flex-wrap:wrap;gap:6px;margin-bottom:10px}
+.tabs input{display:none}
+.tabs label{cursor:pointer;padding:2px 10px;border-radius:999px;border:1px solid rgba(255,255,255,.15);font-size:12px}
+.run{display:none;width:100%}
+.msg{border-radius:10px;padding:10px;margin-bottom:8px;background:rgba(255,255,255,.03)}
+.msg-user{background:rgba(255,199,102,.08)}
+.msg-system{opacity:.75}
+.msg-error{border:1px solid rgba(255,107,107,.5)}
+.msg-head{display:flex;justify-content:space-between;gap:8px;margin-bottom:4px}
+.role{text-transform:uppercase;font-size:11px;letter-spacing:.06em;color:#ffc766}
+.text{white-space:pre-wrap;word-break:break-word}
+.reasoning{margin-bottom:6px;font-size:12px;color:#a5a0a5}
+.reasoning summary{cursor:pointer}
+.images{display:flex;flex-wrap:wrap;gap:6px;margin-top:6px}
+.images img{max-width:100%;max-height:360px;border-radius:8px;display:block}
+.error{color:#ff6b6b;margin-top:6px}
+`;
+
+/**
+ * Standalone HTML report of a session: model columns side by side, images
+ * inlined as data URLs, collapsible reasoning and CSS-only run tabs, so it
+ * renders anywhere without the app or network access.
+ */
+export async function buildSessionHtmlReport({
+  session,
+  messagesByModel,
+  stats = [],
+  images,
+  modelNames = {},
+}: {
+  session: Session;
+  messagesByModel: Record<string, Message[]>;
+  stats?: SessionStats[];
+  images: Record<string, ImageAsset>;
+  modelNames?: Record<string, string>;
+}): Promise<string> {
+  const imageUrls = new Map<string, string>();
+  for (const [imageId, asset] of Object.entries(images)) {
+    imageUrls.set(imageId, await blobToDataUrl(asset.blob));
+  }
+
+  const tabIds: string[] = [];
+  const columns = session.modelIds.map((modelId, columnIndex) => {
+    const messages = messagesByModel[modelId] ?? [];
+    const stat = stats.find((item) => item.modelId === modelId);
+    const assistant = messages.filter(
+      (message) => message.role === "assistant",
+    );
+    const ttft = average(
+      assistant
+        .filter((message) => message.firstTokenAt)
+        .map((message) => message.firstTokenAt! - message.createdAt),
+    );
+    const total = average(
+      assistant
+        .filter((message) => message.completedAt)
+        .map((message) => message.completedAt! - message.createdAt),
+    );
+    const statLine = [
+      stat ? `${stat.inputTokens} in / ${stat.outputTokens} out tokens` : null,
+      stat ? formatCost(stat.totalCost) : null,
+      ttft !== null ? `avg TTFT ${formatDuration(ttft)}` : null,
+      total !== null ? `avg total ${formatDuration(total)}` : null,
+    ]
+      .filter(Boolean)
+      .map((item) => `<span class="muted">${item}</span>`)
+      .join("");
+
+    const runs = groupRuns(messages);
+    const latest = runs.length - 1;
+    let body: string;
+    if (runs.length <= 1) {
+      body = (runs[0]?.[1] ?? [])
+        .map((message) => renderMessage(message, imageUrls))
+        .join("");
+    } else {
+      const tabs = runs
+        .map(([runIndex], index) => {
+          const id = `c${columnIndex}r${index}`;
+          tabIds.push(id);
+          return `<input type="radio" name="c${columnIndex}" id="${id}"${
+            index === latest ? " checked" : ""
+          } /><label for="${id}">Run ${runIndex}</label>`;
+        })
+        .join("");
+      const panels = runs
+        .map(
+          ([, runMessages], index) =>
+            `<div class="run run-c${columnIndex}r${index}">${runMessages
+              .map((message) => renderMessage(message, imageUrls))
+              .join("")}</div>`,
+        )
+        .join("");
+      // Panels sit inside the tab container so `:checked ~` can reach them
+      body = `<div class="tabs">${tabs}${panels}</div>`;
+    }
+
+    return `<section class="column"><h2>${escapeHtml(
+      modelNames[modelId] ?? modelId,
+    )}</h2><div class="muted">${escapeHtml(modelId)}</div><div class="stats">${statLine}</div>${
+      body || '<div class="muted">No messages</div>'
+    }</section>`;
+  });
+
+  const title = session.title || `Session ${session.id}`;
+  // One rule pair per tab: show its panel and highlight its label
+  const tabRules = tabIds
+    .map(
+      (id) =>
+        `#${id}:checked~.run-${id}{display:block}\n#${id}:checked+label{background:#ffc766;color:#121318;border-color:#ffc766}`,
+    )
+    .join("\n");
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<title>${escapeHtml(title)}</title>
+<style>${REPORT_CSS}
+${tabRules}
+</style>
+</head>
+<body>
+<header class="summary">
+<h1>${escapeHtml(title)}</h1>
+<div class="muted">Created ${escapeHtml(new Date(session.createdAt).toLocaleString())} · ${session.modelIds.length} models · ${session.totalTokens} tokens · ${formatCost(session.totalCost)}</div>
+</header>
+<main class="columns">
+${columns.join("\n")}
+</main>
+</body>
+</html>
+`;
+}
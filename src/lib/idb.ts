@@ -4,13 +4,18 @@ import type {
   DefaultsState,
   ImageAsset,
   Message,
+  Rating,
   SettingsState,
+  StreamRecording,
+  Suite,
+  UsageRecord,
 } from "../types/db";
 import { addNotification } from "@stores/notificationsStore";
 import type { OpenRouterModel } from "../types/openrouter";
+import { usageRecordsFromMessage } from "./spend";
 
 const DB_NAME = "image-edit-bench";
-const DB_VERSION = 6;
+const DB_VERSION = 10;
 
 function toFiniteNumber(value: unknown, fallback = 0): number {
   if (typeof value === "number") {
@@ -54,7 +59,11 @@ type StoreName =
   | "messages"
   | "images"
   | "stats"
-  | "defaults";
+  | "defaults"
+  | "streams"
+  | "ratings"
+  | "suites"
+  | "usage";
 
 let dbPromise: Promise<IDBDatabase> | null = null;
 
@@ -103,6 +112,41 @@ function openDb(): Promise<IDBDatabase> {
         if (!db.objectStoreNames.contains("defaults")) {
           db.createObjectStore("defaults", { keyPath: "id" });
         }
+        if (!db.objectStoreNames.contains("streams")) {
+          const store = db.createObjectStore("streams", {
+            keyPath: "messageId",
+          });
+          store.createIndex("sessionId", "sessionId");
+        }
+        if (!db.objectStoreNames.contains("ratings")) {
+          const store = db.createObjectStore("ratings", {
+            keyPath: "messageId",
+          });
+          store.createIndex("sessionId", "sessionId");
+          store.createIndex("modelId", "modelId");
+        }
+        if (!db.objectStoreNames.contains("suites")) {
+          db.createObjectStore("suites", { keyPath: "id" });
+        }
+        if (!db.objectStoreNames.contains("usage")) {
+          const store = db.createObjectStore("usage", { keyPath: "id" });
+          store.createIndex("createdAt", "createdAt");
+          // Backfill from the costs already stored on messages
+          const transaction = (event.target as IDBOpenDBRequest).transaction;
+          if (oldVersion > 0 && transaction) {
+            const cursorRequest = transaction
+              .objectStore("messages")
+              .openCursor();
+            cursorRequest.onsuccess = () => {
+              const cursor = cursorRequest.result;
+              if (!cursor) return;
+              usageRecordsFromMessage(cursor.value as Message).forEach(
+                (record) => store.put(record),
+              );
+              cursor.continue();
+            };
+          }
+        }
       };
       request.onsuccess = () => resolve(request.result);
       request.onerror = () => reject(request.error);
@@ -224,11 +268,17 @@ export async function listSessions(offset = 0, limit = 20): Promise<Session[]> {
   });
 }
 
+export async function getAllSessions(): Promise<Session[]> {
+  return withStore("sessions", "readonly", (store) => store.getAll()).then(
+    (sessions) => (sessions as Session[]).map(normalizeSession),
+  );
+}
+
 export async function deleteSession(id: string): Promise<void> {
   const db = await openDb();
   await new Promise<void>((resolve, reject) => {
     const tx = db.transaction(
-      ["sessions", "messages", "stats", "images"],
+      ["sessions", "messages", "stats", "images", "streams", "ratings"],
       "readwrite",
     );
     const sessionStore = tx.objectStore("sessions");
@@ -245,6 +295,26 @@ export async function deleteSession(id: string): Promise<void> {
       }
     };
 
+    const streamIndex = tx.objectStore("streams").index("sessionId");
+    const streamRequest = streamIndex.openCursor(id);
+    streamRequest.onsuccess = () => {
+      const cursor = streamRequest.result;
+      if (cursor) {
+        cursor.delete();
+        cursor.continue();
+      }
+    };
+
+    const ratingIndex = tx.objectStore("ratings").index("sessionId");
+    const ratingRequest = ratingIndex.openCursor(id);
+    ratingRequest.onsuccess = () => {
+      const cursor = ratingRequest.result;
+      if (cursor) {
+        cursor.delete();
+        cursor.continue();
+      }
+    };
+
     const statsStore = tx.objectStore("stats");
     const statsRequest = statsStore.openCursor();
     statsRequest.onsuccess = () => {
@@ -296,12 +366,20 @@ export async function getMessages(
   });
 }
 
+export async function getAllMessages(): Promise<Message[]> {
+  return withStore("messages", "readonly", (store) => store.getAll()).then(
+    (messages) => messages as Message[],
+  );
+}
+
 export async function deleteMessage(messageId: string): Promise<void> {
   const db = await openDb();
   await new Promise<void>((resolve, reject) => {
-    const tx = db.transaction(["messages"], "readwrite");
+    const tx = db.transaction(["messages", "streams", "ratings"], "readwrite");
     const messageStore = tx.objectStore("messages");
     messageStore.delete(messageId);
+    tx.objectStore("streams").delete(messageId);
+    tx.objectStore("ratings").delete(messageId);
     tx.oncomplete = () => resolve();
     tx.onerror = () => reject(tx.error);
   });
@@ -317,21 +395,25 @@ export async function deleteMessagesAfter(
   const index = messages.findIndex((message) => message.id === messageId);
   if (index === -1) return;
 
-  // If runIndex is specified, only delete messages for that run
-  // Otherwise, delete all messages after the specified message
-  const messagesAfter = messages.slice(index + 1);
-  const toDelete =
-    runIndex !== undefined
-      ? messagesAfter.filter((msg) => msg.runIndex === runIndex)
-      : messagesAfter;
+  // Only delete messages of that run; an undefined runIndex is the single
+  // legacy run, not "every run"
+  const toDelete = messages
+    .slice(index + 1)
+    .filter((msg) => msg.runIndex === runIndex);
 
   if (toDelete.length === 0) return;
 
   const db = await openDb();
   await new Promise<void>((resolve, reject) => {
-    const tx = db.transaction(["messages"], "readwrite");
+    const tx = db.transaction(["messages", "streams", "ratings"], "readwrite");
     const messageStore = tx.objectStore("messages");
-    toDelete.forEach((message) => messageStore.delete(message.id));
+    const streamStore = tx.objectStore("streams");
+    const ratingStore = tx.objectStore("ratings");
+    toDelete.forEach((message) => {
+      messageStore.delete(message.id);
+      streamStore.delete(message.id);
+      ratingStore.delete(message.id);
+    });
     tx.oncomplete = () => resolve();
     tx.onerror = () => reject(tx.error);
   });
@@ -345,6 +427,12 @@ export async function getImage(id: string): Promise<ImageAsset | null> {
   return withStore("images", "readonly", (store) => store.get(id));
 }
 
+export async function getAllImages(): Promise<ImageAsset[]> {
+  return withStore("images", "readonly", (store) => store.getAll()).then(
+    (images) => images as ImageAsset[],
+  );
+}
+
 export async function saveStats(stats: SessionStats): Promise<void> {
   const normalized = normalizeStats(stats);
   const payload = {
@@ -372,6 +460,76 @@ export async function getAllStats(): Promise<SessionStats[]> {
   );
 }
 
+export async function saveUsageRecord(record: UsageRecord): Promise<void> {
+  await withStore("usage", "readwrite", (store) => store.put(record));
+}
+
+export async function getUsageRecord(id: string): Promise<UsageRecord | null> {
+  return withStore("usage", "readonly", (store) => store.get(id)).then(
+    (record) => (record as UsageRecord | undefined) ?? null,
+  );
+}
+
+export async function getAllUsageRecords(): Promise<UsageRecord[]> {
+  return withStore("usage", "readonly", (store) =>
+    store.index("createdAt").getAll(),
+  ).then((records) => records as UsageRecord[]);
+}
+
+export async function saveStreamRecording(
+  recording: StreamRecording,
+): Promise<void> {
+  await withStore("streams", "readwrite", (store) => store.put(recording));
+}
+
+export async function getStreamRecording(
+  messageId: string,
+): Promise<StreamRecording | null> {
+  return withStore("streams", "readonly", (store) => store.get(messageId)).then(
+    (recording) => (recording as StreamRecording | undefined) ?? null,
+  );
+}
+
+export async function getAllStreamRecordings(): Promise<StreamRecording[]> {
+  return withStore("streams", "readonly", (store) => store.getAll()).then(
+    (recordings) => recordings as StreamRecording[],
+  );
+}
+
+export async function saveRating(rating: Rating): Promise<void> {
+  await withStore("ratings", "readwrite", (store) => store.put(rating));
+}
+
+export async function deleteRating(messageId: string): Promise<void> {
+  await withStore("ratings", "readwrite", (store) => store.delete(messageId));
+}
+
+export async function getRatings(sessionId: string): Promise<Rating[]> {
+  return withStore("ratings", "readonly", (store) =>
+    store.index("sessionId").getAll(sessionId),
+  ).then((ratings) => ratings as Rating[]);
+}
+
+export async function getAllRatings(): Promise<Rating[]> {
+  return withStore("ratings", "readonly", (store) => store.getAll()).then(
+    (ratings) => ratings as Rating[],
+  );
+}
+
+export async function saveSuite(suite: Suite): Promise<void> {
+  await withStore("suites", "readwrite", (store) => store.put(suite));
+}
+
+export async function getSuites(): Promise<Suite[]> {
+  return withStore("suites", "readonly", (store) => store.getAll()).then(
+    (suites) => (suites as Suite[]).sort((a, b) => b.updatedAt - a.updatedAt),
+  );
+}
+
+export async function deleteSuite(id: string): Promise<void> {
+  await withStore("suites", "readwrite", (store) => store.delete(id));
+}
+
 export async function getDefaults(): Promise<DefaultsState | null> {
   return withStore("defaults", "readonly", (store) => store.get("defaults"));
 }
@@ -394,6 +552,10 @@ export async function clearAllStorage(): Promise<void> {
         "models",
         "settings",
         "defaults",
+        "streams",
+        "ratings",
+        "suites",
+        "usage",
       ],
       "readwrite",
     );
@@ -405,6 +567,10 @@ export async function clearAllStorage(): Promise<void> {
       "models",
       "settings",
       "defaults",
+      "streams",
+      "ratings",
+      "suites",
+      "usage",
     ];
     stores.forEach((storeName) => {
       const store = tx.objectStore(storeName);
@@ -418,37 +584,54 @@ export async function clearAllStorage(): Promise<void> {
 export async function cleanupOrphanedImages(): Promise<number> {
   const db = await openDb();
   return new Promise<number>((resolve, reject) => {
-    const tx = db.transaction(["messages", "images"], "readwrite");
+    const tx = db.transaction(["messages", "images", "suites"], "readwrite");
     const messageStore = tx.objectStore("messages");
     const imageStore = tx.objectStore("images");
 
     const referenced = new Set<string>();
     let deletedCount = 0;
 
-    const messagesCursor = messageStore.openCursor();
-    messagesCursor.onsuccess = () => {
-      const cursor = messagesCursor.result;
-      if (!cursor) {
-        const imagesCursor = imageStore.openCursor();
-        imagesCursor.onsuccess = () => {
-          const imageCursor = imagesCursor.result;
-          if (!imageCursor) return;
-          const asset = imageCursor.value as ImageAsset;
-          if (!referenced.has(asset.id)) {
-            imageCursor.delete();
-            deletedCount += 1;
-          }
-          imageCursor.continue();
-        };
-        imagesCursor.onerror = () => reject(imagesCursor.error);
-        return;
-      }
+    // Suite case inputs are referenced before (and between) runs
+    const suitesRequest = tx.objectStore("suites").getAll();
+    suitesRequest.onsuccess = () => {
+      (suitesRequest.result as Suite[]).forEach((suite) =>
+        suite.cases.forEach((item) =>
+          item.imageIds.forEach((imageId) => referenced.add(imageId)),
+        ),
+      );
+      scanMessages();
+    };
+    suitesRequest.onerror = () => reject(suitesRequest.error);
+
+    const scanMessages = () => {
+      const messagesCursor = messageStore.openCursor();
+      messagesCursor.onsuccess = () => {
+        const cursor = messagesCursor.result;
+        if (!cursor) {
+          const imagesCursor = imageStore.openCursor();
+          imagesCursor.onsuccess = () => {
+            const imageCursor = imagesCursor.result;
+            if (!imageCursor) return;
+            const asset = imageCursor.value as ImageAsset;
+            if (!referenced.has(asset.id)) {
+              imageCursor.delete();
+              deletedCount += 1;
+            }
+            imageCursor.continue();
+          };
+          imagesCursor.onerror = () => reject(imagesCursor.error);
+          return;
+        }
 
-      const message = cursor.value as Message;
-      message.imageIds.forEach((imageId) => referenced.add(imageId));
-      cursor.continue();
+        const message = cursor.value as Message;
+        message.imageIds.forEach((imageId) => referenced.add(imageId));
+        Object.values(message.maskImageIds ?? {}).forEach((maskId) =>
+          referenced.add(maskId),
+        );
+        cursor.continue();
+      };
+      messagesCursor.onerror = () => reject(messagesCursor.error);
     };
-    messagesCursor.onerror = () => reject(messagesCursor.error);
 
     tx.oncomplete = () => resolve(deletedCount);
     tx.onerror = () => reject(tx.error);
@@ -139,7 +139,9 @@ export async function downscaleImage(
   }
 }
 
-export async function loadImageFromFile(file: File): Promise<LoadedImage> {
+export async function loadImageFromFile(
+  file: File | Blob,
+): Promise<LoadedImage> {
   const url = URL.createObjectURL(file);
   try {
     const element = await new Promise<HTMLImageElement>((resolve, reject) => {
@@ -211,3 +213,96 @@ export async function blobToDataUrl(blob: Blob): Promise<string> {
     reader.readAsDataURL(blob);
   });
 }
+
+/**
+ * Decode a blob and rasterize it at the given size (defaults to natural size).
+ * Used to compare images of different dimensions in a common frame.
+ */
+export async function blobToImageData(
+  blob: Blob,
+  width?: number,
+  height?: number,
+): Promise<ImageData> {
+  const loaded = await loadImageFromFile(blob);
+  return loadedImageToImageData(loaded, width, height);
+}
+
+export function loadedImageToImageData(
+  loaded: LoadedImage,
+  width?: number,
+  height?: number,
+): ImageData {
+  const canvas = document.createElement("canvas");
+  canvas.width = width ?? loaded.width;
+  canvas.height = height ?? loaded.height;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  ctx.drawImage(loaded.element, 0, 0, canvas.width, canvas.height);
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+}
+
+// Black -> blue -> red -> yellow -> white
+const HEATMAP_STOPS: Array<[number, number, number]> = [
+  [0, 0, 0],
+  [40, 60, 220],
+  [230, 40, 40],
+  [250, 220, 40],
+  [255, 255, 255],
+];
+
+function heatmapColor(t: number): [number, number, number] {
+  const scaled = clamp(t, 0, 1) * (HEATMAP_STOPS.length - 1);
+  const index = Math.min(Math.floor(scaled), HEATMAP_STOPS.length - 2);
+  const f = scaled - index;
+  const from = HEATMAP_STOPS[index];
+  const to = HEATMAP_STOPS[index + 1];
+  return [
+    Math.round(from[0] + (to[0] - from[0]) * f),
+    Math.round(from[1] + (to[1] - from[1]) * f),
+    Math.round(from[2] + (to[2] - from[2]) * f),
+  ];
+}
+
+export interface DiffHeatmapResult {
+  heatmap: ImageData;
+  meanDiff: number; // 0..1, mean of per-pixel max channel difference
+  changedRatio: number; // Share of pixels whose difference exceeds threshold
+}
+
+/**
+ * Per-pixel absolute difference (max over RGB) rendered as a heatmap.
+ * Both inputs must have the same dimensions. `gain` amplifies subtle
+ * differences such as re-encoding noise.
+ */
+export function computeDiffHeatmap(
+  a: ImageData,
+  b: ImageData,
+  { gain = 1, threshold = 8 }: { gain?: number; threshold?: number } = {},
+): DiffHeatmapResult {
+  if (a.width !== b.width || a.height !== b.height) {
+    throw new Error("Images must have the same dimensions to diff");
+  }
+  const heatmap = new ImageData(a.width, a.height);
+  const pixelCount = a.width * a.height;
+  let total = 0;
+  let changed = 0;
+  for (let i = 0; i < a.data.length; i += 4) {
+    const diff = Math.max(
+      Math.abs(a.data[i] - b.data[i]),
+      Math.abs(a.data[i + 1] - b.data[i + 1]),
+      Math.abs(a.data[i + 2] - b.data[i + 2]),
+    );
+    total += diff;
+    if (diff > threshold) changed++;
+    const [r, g, bl] = heatmapColor((diff / 255) * gain);
+    heatmap.data[i] = r;
+    heatmap.data[i + 1] = g;
+    heatmap.data[i + 2] = bl;
+    heatmap.data[i + 3] = 255;
+  }
+  return {
+    heatmap,
+    meanDiff: pixelCount > 0 ? total / pixelCount / 255 : 0,
+    changedRatio: pixelCount > 0 ? changed / pixelCount : 0,
+  };
+}
@@ -0,0 +1,65 @@
+import { unzipSync, strFromU8 } from "fflate";
+import type { ImageAsset } from "../types/db";
+import {
+  SESSION_EXPORT_FORMAT,
+  SESSION_EXPORT_VERSION,
+  type SessionExportPayload,
+} from "./export";
+
+export interface SessionArchive {
+  payload: SessionExportPayload;
+  images: Record<string, ImageAsset>; // Keyed by the exported image id
+}
+
+/**
+ * Reads a ZIP produced by exportSessionZip. Only `session.json` and the image
+ * files it references are used; `session.md` is for humans.
+ */
+export async function readSessionZip(file: Blob): Promise<SessionArchive> {
+  const entries = unzipSync(new Uint8Array(await file.arrayBuffer()));
+  const json = entries["session.json"];
+  if (!json) {
+    throw new Error(
+      "session.json not found. Sessions exported before import support can't be restored.",
+    );
+  }
+
+  let payload: SessionExportPayload;
+  try {
+    payload = JSON.parse(strFromU8(json)) as SessionExportPayload;
+  } catch {
+    throw new Error("session.json is not valid JSON.");
+  }
+  if (
+    payload?.format !== SESSION_EXPORT_FORMAT ||
+    typeof payload.session?.id !== "string" ||
+    !Array.isArray(payload.messages)
+  ) {
+    throw new Error("session.json is not a session export.");
+  }
+  if (payload.version > SESSION_EXPORT_VERSION) {
+    throw new Error(
+      `Export version ${payload.version} is newer than this app supports.`,
+    );
+  }
+
+  const images: Record<string, ImageAsset> = {};
+  for (const entry of payload.images ?? []) {
+    const data = entries[entry.path];
+    if (!data) continue;
+    images[entry.id] = {
+      id: entry.id,
+      blob: new Blob([data as unknown as BlobPart], { type: entry.mimeType }),
+      mimeType: entry.mimeType,
+      width: entry.width,
+      height: entry.height,
+      bytes: entry.bytes,
+      createdAt: entry.createdAt,
+    };
+  }
+
+  return {
+    payload: { ...payload, stats: payload.stats ?? [] },
+    images,
+  };
+}
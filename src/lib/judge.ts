@@ -0,0 +1,177 @@
+import type { CompletionBackend } from "./providers";
+import { RATING_TAGS } from "./ratings";
+
+// Reply the critique judge gives when it has nothing left to fix
+export const CRITIQUE_DONE = "DONE";
+
+const CRITIQUE_SYSTEM_PROMPT = `You review the result of an image edit. You get the user's original request and the current image.
+Reply with one short, concrete instruction for the editor that fixes the most important remaining problem, phrased as a request to edit the image.
+If the image already satisfies the request, reply with exactly ${CRITIQUE_DONE}.
+Reply with the instruction only.`;
+
+export interface JudgeUsage {
+  promptTokens: number;
+  completionTokens: number;
+  cost?: number; // As reported by the provider, when it does
+}
+
+/**
+ * Asks a judge model what to change next about an edited image. Returns
+ * null as the instruction when the judge considers the edit finished.
+ */
+export async function requestCritique({
+  backend,
+  modelId,
+  prompt,
+  imageUrl,
+  signal,
+}: {
+  backend: CompletionBackend;
+  modelId: string;
+  prompt: string;
+  imageUrl: string;
+  signal?: AbortSignal;
+}): Promise<{ instruction: string | null; usage: JudgeUsage }> {
+  const result = await backend.requestCompletionFull({
+    payload: {
+      model: modelId,
+      messages: [
+        { role: "system", content: CRITIQUE_SYSTEM_PROMPT },
+        {
+          role: "user",
+          content: [
+            { type: "text", text: `Original request:\n${prompt || "(none)"}` },
+            { type: "image_url", image_url: { url: imageUrl } },
+          ],
+        },
+      ],
+      usage: { include: true },
+    },
+    signal,
+  });
+  const text = result.content.text.trim();
+  return {
+    instruction:
+      !text || text.replace(/[.!\s]+$/, "").toUpperCase() === CRITIQUE_DONE
+        ? null
+        : text,
+    usage: {
+      promptTokens: result.usage?.prompt_tokens ?? 0,
+      completionTokens: result.usage?.completion_tokens ?? 0,
+      cost: result.usage?.cost,
+    },
+  };
+}
+
+// Same vocabulary as human ratings so both can be compared per model
+export const JUDGE_FAILURE_TAGS = RATING_TAGS.filter(
+  (tag) => tag !== "good edit",
+);
+
+export const DEFAULT_JUDGE_RUBRIC = `Score how well the output image carries out the user's request, from 1 (ignored or broken) to 10 (exactly what was asked, nothing else changed).
+Compare against the input image when there is one: penalise changes the user did not ask for, lost identity, artifacts and garbled text.`;
+
+export interface JudgeVerdict {
+  score: number; // 1-10
+  reasons: string[];
+  failureTags: string[];
+}
+
+function buildJudgeSystemPrompt(rubric: string) {
+  return `You are an impartial judge of image edits.
+${rubric.trim() || DEFAULT_JUDGE_RUBRIC}
+Reply with JSON only, no prose and no code fences, in this shape:
+{"score": <integer 1-10>, "reasons": ["<short reason>", ...], "failureTags": [<zero or more of ${JUDGE_FAILURE_TAGS.map((tag) => JSON.stringify(tag)).join(", ")}>]}`;
+}
+
+/**
+ * Reads the judge's JSON reply. Tolerates code fences or text around the
+ * object, clamps the score and drops tags outside JUDGE_FAILURE_TAGS.
+ */
+export function parseJudgeVerdict(text: string): JudgeVerdict {
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start === -1 || end <= start) {
+    throw new Error("Judge reply contained no JSON object");
+  }
+  const raw = JSON.parse(text.slice(start, end + 1)) as {
+    score?: unknown;
+    reasons?: unknown;
+    failureTags?: unknown;
+  };
+  const score = Number(raw.score);
+  if (!Number.isFinite(score)) {
+    throw new Error("Judge reply has no numeric score");
+  }
+  const toStrings = (value: unknown) =>
+    Array.isArray(value)
+      ? value.filter((item): item is string => typeof item === "string")
+      : typeof value === "string"
+        ? [value]
+        : [];
+  return {
+    score: Math.min(10, Math.max(1, Math.round(score))),
+    reasons: toStrings(raw.reasons)
+      .map((reason) => reason.trim())
+      .filter(Boolean),
+    failureTags: toStrings(raw.failureTags)
+      .map((tag) => tag.trim().toLowerCase())
+      .filter((tag) => JUDGE_FAILURE_TAGS.includes(tag)),
+  };
+}
+
+/**
+ * Scores one output image against the user's request and, when given, the
+ * input image it was edited from. Returns the raw reply unparsed: the call is
+ * billed either way, so its usage should be recorded before the reply goes
+ * through parseJudgeVerdict (which throws on a malformed one).
+ */
+export async function requestJudgeScore({
+  backend,
+  modelId,
+  rubric,
+  prompt,
+  inputImageUrl,
+  outputImageUrl,
+  signal,
+}: {
+  backend: CompletionBackend;
+  modelId: string;
+  rubric: string;
+  prompt: string;
+  inputImageUrl?: string;
+  outputImageUrl: string;
+  signal?: AbortSignal;
+}): Promise<{ reply: string; usage: JudgeUsage }> {
+  const parts: Array<
+    | { type: "text"; text: string }
+    | { type: "image_url"; image_url: { url: string } }
+  > = [{ type: "text", text: `User request:\n${prompt || "(none)"}` }];
+  if (inputImageUrl) {
+    parts.push({ type: "text", text: "Input image:" });
+    parts.push({ type: "image_url", image_url: { url: inputImageUrl } });
+  }
+  parts.push({ type: "text", text: "Output image:" });
+  parts.push({ type: "image_url", image_url: { url: outputImageUrl } });
+
+  const result = await backend.requestCompletionFull({
+    payload: {
+      model: modelId,
+      messages: [
+        { role: "system", content: buildJudgeSystemPrompt(rubric) },
+        { role: "user", content: parts },
+      ],
+      temperature: 0,
+      usage: { include: true },
+    },
+    signal,
+  });
+  return {
+    reply: result.content.text,
+    usage: {
+      promptTokens: result.usage?.prompt_tokens ?? 0,
+      completionTokens: result.usage?.completion_tokens ?? 0,
+      cost: result.usage?.cost,
+    },
+  };
+}
@@ -0,0 +1,152 @@
+import type { Message } from "../types/db";
+import { formatDuration } from "./utils";
+
+export type LatencyMetric = "ttft" | "total" | "firstImage" | "tokensPerSecond";
+
+export const LATENCY_METRICS: Array<{ value: LatencyMetric; label: string }> = [
+  { value: "ttft", label: "Time to first token" },
+  { value: "total", label: "Total time" },
+  { value: "firstImage", label: "Time to first image" },
+  { value: "tokensPerSecond", label: "Tokens/sec" },
+];
+
+export interface PercentileSummary {
+  count: number;
+  p50: number;
+  p90: number;
+  p99: number;
+}
+
+export interface ModelLatencySummary {
+  modelId: string;
+  metrics: Record<LatencyMetric, PercentileSummary | null>;
+}
+
+export interface HistogramBin {
+  start: number;
+  end: number;
+  count: number;
+}
+
+/**
+ * Timings of one finished answer. Durations are ms from the request; tokens
+ * per second counts output tokens between the first token and completion.
+ */
+export function messageLatency(
+  message: Message,
+): Record<LatencyMetric, number | null> {
+  const { createdAt, firstTokenAt, firstImageAt, completedAt } = message;
+  const generationMs =
+    firstTokenAt !== undefined && completedAt !== undefined
+      ? completedAt - firstTokenAt
+      : 0;
+  const outputTokens = message.usage?.completionTokens ?? 0;
+  return {
+    ttft: firstTokenAt !== undefined ? firstTokenAt - createdAt : null,
+    total: completedAt !== undefined ? completedAt - createdAt : null,
+    firstImage: firstImageAt !== undefined ? firstImageAt - createdAt : null,
+    tokensPerSecond:
+      generationMs > 0 && outputTokens > 0
+        ? outputTokens / (generationMs / 1000)
+        : null,
+  };
+}
+
+export function formatLatencyValue(metric: LatencyMetric, value: number) {
+  return metric === "tokensPerSecond"
+    ? `${value.toFixed(1)} tok/s`
+    : formatDuration(value);
+}
+
+// Linear interpolation between closest ranks; `sorted` must be ascending
+function percentile(sorted: number[], p: number) {
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+function summarize(values: number[]): PercentileSummary | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    count: sorted.length,
+    p50: percentile(sorted, 50),
+    p90: percentile(sorted, 90),
+    p99: percentile(sorted, 99),
+  };
+}
+
+// Branch copies and replays have no request timing of their own
+function isMeasured(message: Message) {
+  return (
+    message.role === "assistant" &&
+    message.status === "complete" &&
+    !message.branchFrom
+  );
+}
+
+export function collectLatencyValues(
+  messages: Message[],
+  metric: LatencyMetric,
+  modelId?: string,
+) {
+  return messages
+    .filter(
+      (message) =>
+        isMeasured(message) && (!modelId || message.modelId === modelId),
+    )
+    .map((message) => messageLatency(message)[metric])
+    .filter((value): value is number => value !== null && value >= 0);
+}
+
+/** p50/p90/p99 of every metric per model, over completed answers only. */
+export function summarizeLatencyByModel(
+  messages: Message[],
+): ModelLatencySummary[] {
+  const byModel = new Map<string, Record<LatencyMetric, number[]>>();
+  for (const message of messages) {
+    if (!isMeasured(message)) continue;
+    const values = byModel.get(message.modelId) ?? {
+      ttft: [],
+      total: [],
+      firstImage: [],
+      tokensPerSecond: [],
+    };
+    const latency = messageLatency(message);
+    for (const { value: metric } of LATENCY_METRICS) {
+      const value = latency[metric];
+      if (value !== null && value >= 0) values[metric].push(value);
+    }
+    byModel.set(message.modelId, values);
+  }
+  return Array.from(byModel.entries()).map(([modelId, values]) => ({
+    modelId,
+    metrics: {
+      ttft: summarize(values.ttft),
+      total: summarize(values.total),
+      firstImage: summarize(values.firstImage),
+      tokensPerSecond: summarize(values.tokensPerSecond),
+    },
+  }));
+}
+
+export function buildHistogram(
+  values: number[],
+  binCount = 20,
+): HistogramBin[] {
+  if (values.length === 0) return [];
+  const min = values.reduce((low, value) => Math.min(low, value), Infinity);
+  const max = values.reduce((high, value) => Math.max(high, value), -Infinity);
+  const width = (max - min) / binCount || 1;
+  const bins = Array.from({ length: binCount }, (_, index) => ({
+    start: min + index * width,
+    end: min + (index + 1) * width,
+    count: 0,
+  }));
+  for (const value of values) {
+    const index = Math.min(binCount - 1, Math.floor((value - min) / width));
+    bins[index].count += 1;
+  }
+  return bins;
+}
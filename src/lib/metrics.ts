@@ -0,0 +1,203 @@
+import type { ImageMetrics } from "../types/db";
+import {
+  blobToImageData,
+  loadImageFromFile,
+  loadedImageToImageData,
+} from "./image";
+
+// Metrics are computed on a downscaled copy; fine detail beyond this
+// resolution doesn't change the ranking between models and keeps SSIM fast.
+const METRIC_MAX_SIDE = 512;
+const PSNR_IDENTICAL = 100;
+const SSIM_WINDOW = 8;
+const HISTOGRAM_BINS = 32;
+
+function luminance(data: Uint8ClampedArray, pixelCount: number): Float32Array {
+  const out = new Float32Array(pixelCount);
+  for (let p = 0, i = 0; p < pixelCount; p++, i += 4) {
+    out[p] = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  }
+  return out;
+}
+
+/** Peak signal-to-noise ratio over RGB, in dB (capped when identical). */
+export function computePsnr(a: ImageData, b: ImageData): number {
+  let sum = 0;
+  let count = 0;
+  for (let i = 0; i < a.data.length; i += 4) {
+    for (let c = 0; c < 3; c++) {
+      const diff = a.data[i + c] - b.data[i + c];
+      sum += diff * diff;
+      count++;
+    }
+  }
+  const mse = count > 0 ? sum / count : 0;
+  if (mse === 0) return PSNR_IDENTICAL;
+  return Math.min(PSNR_IDENTICAL, 10 * Math.log10((255 * 255) / mse));
+}
+
+/** Mean SSIM on luminance over non-overlapping 8×8 windows. */
+export function computeSsim(a: ImageData, b: ImageData): number {
+  const { width, height } = a;
+  const la = luminance(a.data, width * height);
+  const lb = luminance(b.data, width * height);
+  const c1 = (0.01 * 255) ** 2;
+  const c2 = (0.03 * 255) ** 2;
+  let total = 0;
+  let windows = 0;
+  for (let y = 0; y + SSIM_WINDOW <= height; y += SSIM_WINDOW) {
+    for (let x = 0; x + SSIM_WINDOW <= width; x += SSIM_WINDOW) {
+      let sumA = 0;
+      let sumB = 0;
+      let sumAA = 0;
+      let sumBB = 0;
+      let sumAB = 0;
+      for (let wy = 0; wy < SSIM_WINDOW; wy++) {
+        const row = (y + wy) * width + x;
+        for (let wx = 0; wx < SSIM_WINDOW; wx++) {
+          const va = la[row + wx];
+          const vb = lb[row + wx];
+          sumA += va;
+          sumB += vb;
+          sumAA += va * va;
+          sumBB += vb * vb;
+          sumAB += va * vb;
+        }
+      }
+      const n = SSIM_WINDOW * SSIM_WINDOW;
+      const meanA = sumA / n;
+      const meanB = sumB / n;
+      const varA = sumAA / n - meanA * meanA;
+      const varB = sumBB / n - meanB * meanB;
+      const cov = sumAB / n - meanA * meanB;
+      total +=
+        ((2 * meanA * meanB + c1) * (2 * cov + c2)) /
+        ((meanA * meanA + meanB * meanB + c1) * (varA + varB + c2));
+      windows++;
+    }
+  }
+  return windows > 0 ? total / windows : 1;
+}
+
+function resampleLuminance(source: ImageData, size: number): Float32Array {
+  const out = new Float32Array(size * size);
+  const lum = luminance(source.data, source.width * source.height);
+  for (let y = 0; y < size; y++) {
+    const sy = Math.min(
+      source.height - 1,
+      Math.floor(((y + 0.5) * source.height) / size),
+    );
+    for (let x = 0; x < size; x++) {
+      const sx = Math.min(
+        source.width - 1,
+        Math.floor(((x + 0.5) * source.width) / size),
+      );
+      out[y * size + x] = lum[sy * source.width + sx];
+    }
+  }
+  return out;
+}
+
+/**
+ * 64-bit DCT perceptual hash (32×32 luminance, low 8×8 frequencies without
+ * DC, thresholded at the median). Returned as 64 bits.
+ */
+export function computePHash(image: ImageData): Uint8Array {
+  const size = 32;
+  const pixels = resampleLuminance(image, size);
+  const coefficients: number[] = [];
+  for (let v = 0; v < 8; v++) {
+    for (let u = 0; u < 8; u++) {
+      let sum = 0;
+      for (let y = 0; y < size; y++) {
+        const cy = Math.cos(((2 * y + 1) * v * Math.PI) / (2 * size));
+        for (let x = 0; x < size; x++) {
+          sum +=
+            pixels[y * size + x] *
+            Math.cos(((2 * x + 1) * u * Math.PI) / (2 * size)) *
+            cy;
+        }
+      }
+      coefficients.push(sum);
+    }
+  }
+  const ac = coefficients.slice(1);
+  const median = [...ac].sort((x, y) => x - y)[Math.floor(ac.length / 2)];
+  return Uint8Array.from(coefficients, (value, index) =>
+    index === 0 ? 0 : value > median ? 1 : 0,
+  );
+}
+
+export function hammingDistance(a: Uint8Array, b: Uint8Array): number {
+  let distance = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) distance++;
+  }
+  return distance;
+}
+
+function channelHistograms(image: ImageData): Float64Array {
+  const bins = new Float64Array(HISTOGRAM_BINS * 3);
+  const shift = 256 / HISTOGRAM_BINS;
+  for (let i = 0; i < image.data.length; i += 4) {
+    for (let c = 0; c < 3; c++) {
+      bins[c * HISTOGRAM_BINS + Math.floor(image.data[i + c] / shift)]++;
+    }
+  }
+  const pixelCount = image.width * image.height || 1;
+  return bins.map((value) => value / pixelCount);
+}
+
+/**
+ * Bhattacharyya distance between per-channel RGB histograms, averaged over
+ * channels (0 = identical colour distribution, 1 = disjoint).
+ */
+export function computeHistogramDistance(a: ImageData, b: ImageData): number {
+  const ha = channelHistograms(a);
+  const hb = channelHistograms(b);
+  let total = 0;
+  for (let c = 0; c < 3; c++) {
+    let coefficient = 0;
+    for (let i = 0; i < HISTOGRAM_BINS; i++) {
+      const index = c * HISTOGRAM_BINS + i;
+      coefficient += Math.sqrt(ha[index] * hb[index]);
+    }
+    total += Math.sqrt(Math.max(0, 1 - Math.min(1, coefficient)));
+  }
+  return total / 3;
+}
+
+/**
+ * Compares a candidate image against a reference. The candidate is resampled
+ * into the reference frame (capped at METRIC_MAX_SIDE) so outputs at a
+ * different resolution or aspect ratio can still be scored.
+ */
+export async function computeImageMetrics(
+  reference: Blob,
+  candidate: Blob,
+  referenceImageId: string,
+): Promise<ImageMetrics> {
+  const loaded = await loadImageFromFile(reference);
+  const scale = Math.min(
+    1,
+    METRIC_MAX_SIDE / Math.max(loaded.width, loaded.height, 1),
+  );
+  const width = Math.max(SSIM_WINDOW, Math.round(loaded.width * scale));
+  const height = Math.max(SSIM_WINDOW, Math.round(loaded.height * scale));
+  const a = loadedImageToImageData(loaded, width, height);
+  const b = await blobToImageData(candidate, width, height);
+  return {
+    referenceImageId,
+    psnr: computePsnr(a, b),
+    ssim: computeSsim(a, b),
+    phashDistance: hammingDistance(computePHash(a), computePHash(b)),
+    histogramDistance: computeHistogramDistance(a, b),
+    computedAt: Date.now(),
+  };
+}
+
+export function formatImageMetrics(metrics: ImageMetrics): string {
+  const psnr =
+    metrics.psnr >= PSNR_IDENTICAL ? "∞" : `${metrics.psnr.toFixed(1)} dB`;
+  return `PSNR ${psnr} · SSIM ${metrics.ssim.toFixed(3)} · pHash ${metrics.phashDistance} · Hist ${metrics.histogramDistance.toFixed(3)}`;
+}
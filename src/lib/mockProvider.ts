@@ -0,0 +1,465 @@
+import type {
+  OpenRouterCompletionRequest,
+  OpenRouterMessage,
+} from "../types/openrouter";
+
+// Pseudo base URL used by the built-in mock provider; never hits the network
+export const MOCK_API_BASE = "mock://local";
+
+const MOCK_CHUNK_DELAY_MS = 35;
+
+export type MockScenario =
+  | "text"
+  | "reasoning"
+  | "image"
+  | "duplicate-image"
+  | "attachments"
+  | "stream-error"
+  | "rate-limit"
+  | "http-error";
+
+export const MOCK_SCENARIOS: Array<{
+  scenario: MockScenario;
+  modelId: string;
+  description: string;
+}> = [
+  {
+    scenario: "text",
+    modelId: "mock/text",
+    description: "Streams a plain text answer",
+  },
+  {
+    scenario: "reasoning",
+    modelId: "mock/reasoning",
+    description: "Reasoning and thinking tokens, then text",
+  },
+  {
+    scenario: "image",
+    modelId: "mock/image",
+    description: "Reasoning, text and one generated image with usage",
+  },
+  {
+    scenario: "duplicate-image",
+    modelId: "mock/duplicate-image",
+    description:
+      "Same image re-encoded twice across two chunks (nano banana 3 behaviour)",
+  },
+  {
+    scenario: "attachments",
+    modelId: "mock/attachments",
+    description: "Text plus a JSON and an image attachment",
+  },
+  {
+    scenario: "stream-error",
+    modelId: "mock/stream-error",
+    description: "Some text, then a malformed chunk mid-stream",
+  },
+  {
+    scenario: "rate-limit",
+    modelId: "mock/rate-limit",
+    description: "HTTP 429 before any chunk is sent",
+  },
+  {
+    scenario: "http-error",
+    modelId: "mock/http-error",
+    description: "HTTP 400 with an OpenRouter-style error body",
+  },
+];
+
+export function isMockApiBase(apiBase: string) {
+  return apiBase.startsWith(MOCK_API_BASE);
+}
+
+export function resolveMockScenario(modelId: string): MockScenario {
+  const match = MOCK_SCENARIOS.find((entry) => modelId.endsWith(entry.modelId));
+  if (match) return match.scenario;
+  const suffix = modelId.split("/").pop() ?? "";
+  const bySuffix = MOCK_SCENARIOS.find((entry) => entry.scenario === suffix);
+  return bySuffix?.scenario ?? "image";
+}
+
+type MockScript = {
+  status: number;
+  errorBody?: string;
+  // Each entry becomes one SSE `data:` line; `raw` lines are sent verbatim
+  chunks: Array<Record<string, unknown> | { raw: string }>;
+};
+
+function hashString(value: string) {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+function createRandom(seed: number) {
+  let state = seed || 1;
+  return () => {
+    state ^= state << 13;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    return (state >>> 0) / 4294967296;
+  };
+}
+
+function getLastUserMessage(payload: OpenRouterCompletionRequest) {
+  for (let i = payload.messages.length - 1; i >= 0; i--) {
+    if (payload.messages[i].role === "user") return payload.messages[i];
+  }
+  return null;
+}
+
+function getMessageParts(message: OpenRouterMessage | null) {
+  if (!message) return { text: "", imageUrls: [] as string[] };
+  if (typeof message.content === "string") {
+    return { text: message.content, imageUrls: [] as string[] };
+  }
+  const text = message.content
+    .map((part) => (part.type === "text" ? part.text : ""))
+    .filter(Boolean)
+    .join("\n");
+  const imageUrls = message.content
+    .map((part) => (part.type === "image_url" ? part.image_url.url : ""))
+    .filter(Boolean);
+  return { text, imageUrls };
+}
+
+function loadImage(url: string): Promise<HTMLImageElement | null> {
+  return new Promise((resolve) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => resolve(null);
+    img.src = url;
+  });
+}
+
+/**
+ * Draws a deterministic image for the prompt. When the request carries an
+ * input image it is tinted so edits are visibly "applied".
+ */
+async function renderMockCanvas(seed: number, inputUrl?: string) {
+  const random = createRandom(seed);
+  const input = inputUrl ? await loadImage(inputUrl) : null;
+  const canvas = document.createElement("canvas");
+  canvas.width = input?.naturalWidth || 512;
+  canvas.height = input?.naturalHeight || 512;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Mock provider: canvas unavailable");
+
+  const hue = Math.floor(random() * 360);
+  if (input) {
+    ctx.drawImage(input, 0, 0);
+    ctx.globalCompositeOperation = "color";
+    ctx.fillStyle = `hsl(${hue}, 70%, 50%)`;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.globalCompositeOperation = "source-over";
+  } else {
+    const gradient = ctx.createLinearGradient(
+      0,
+      0,
+      canvas.width,
+      canvas.height,
+    );
+    gradient.addColorStop(0, `hsl(${hue}, 70%, 35%)`);
+    gradient.addColorStop(1, `hsl(${(hue + 120) % 360}, 70%, 55%)`);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    for (let i = 0; i < 12; i++) {
+      ctx.beginPath();
+      ctx.fillStyle = `hsla(${(hue + random() * 180) % 360}, 80%, 60%, 0.6)`;
+      ctx.arc(
+        random() * canvas.width,
+        random() * canvas.height,
+        10 + random() * canvas.width * 0.15,
+        0,
+        Math.PI * 2,
+      );
+      ctx.fill();
+    }
+  }
+
+  const fontSize = Math.max(14, Math.round(canvas.width / 24));
+  ctx.font = `600 ${fontSize}px sans-serif`;
+  ctx.fillStyle = "rgba(0, 0, 0, 0.55)";
+  ctx.fillRect(0, 0, fontSize * 5, fontSize * 1.6);
+  ctx.fillStyle = "#ffffff";
+  ctx.fillText("MOCK", fontSize * 0.4, fontSize * 1.15);
+  return canvas;
+}
+
+function splitTokens(text: string) {
+  return text.match(/\S+\s*/g) ?? [];
+}
+
+function completionChunk(id: string, model: string, extra: object) {
+  return {
+    id,
+    object: "chat.completion.chunk",
+    created: Math.floor(Date.now() / 1000),
+    model,
+    ...extra,
+  };
+}
+
+function textToBase64(text: string) {
+  const bytes = new TextEncoder().encode(text);
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+async function buildMockScript(
+  payload: OpenRouterCompletionRequest,
+): Promise<MockScript> {
+  const scenario = resolveMockScenario(payload.model);
+  const { text: prompt, imageUrls } = getMessageParts(
+    getLastUserMessage(payload),
+  );
+  const seed = hashString(`${payload.model}|${prompt}`);
+  const id = `gen-mock-${seed.toString(16)}`;
+  const model = payload.model;
+  const chunks: MockScript["chunks"] = [];
+  const delta = (value: Record<string, unknown>) =>
+    chunks.push(
+      completionChunk(id, model, {
+        choices: [{ index: 0, delta: value, finish_reason: null }],
+      }),
+    );
+
+  if (scenario === "rate-limit") {
+    return {
+      status: 429,
+      errorBody: JSON.stringify({
+        error: { code: 429, message: "Mock provider: rate limited" },
+      }),
+      chunks,
+    };
+  }
+  if (scenario === "http-error") {
+    return {
+      status: 400,
+      errorBody: JSON.stringify({
+        error: { code: 400, message: "Mock provider: invalid request" },
+      }),
+      chunks,
+    };
+  }
+
+  // OpenRouter sends keep-alive comments before the first token
+  chunks.push({ raw: ": OPENROUTER PROCESSING" });
+
+  if (scenario === "reasoning" || scenario === "image") {
+    splitTokens(
+      `Reading the request (${prompt.length} chars, ${imageUrls.length} image(s)). Planning the response.`,
+    ).forEach((token) => delta({ role: "assistant", reasoning: token }));
+  }
+  if (scenario === "reasoning") {
+    splitTokens("Double-checking the plan before answering.").forEach((token) =>
+      delta({ thinking: token }),
+    );
+  }
+
+  const reply =
+    scenario === "stream-error"
+      ? "This answer will be cut short by a broken chunk"
+      : `Mock response for "${prompt.slice(0, 80) || "(no text)"}".`;
+  splitTokens(reply).forEach((token) => delta({ content: token }));
+
+  if (scenario === "stream-error") {
+    chunks.push({ raw: 'data: {"id":"broken", "choices": [' });
+    return { status: 200, chunks };
+  }
+
+  if (scenario === "image" || scenario === "duplicate-image") {
+    const canvas = await renderMockCanvas(seed, imageUrls[0]);
+    const first = canvas.toDataURL("image/jpeg", 0.92);
+    delta({ images: [{ type: "image_url", image_url: { url: first } }] });
+    if (scenario === "duplicate-image") {
+      // Same pixels, different encoder pass: a distinct data URL a few chunks later
+      const second = canvas.toDataURL("image/jpeg", 0.9);
+      delta({ content: "" });
+      chunks.push(
+        completionChunk(id, model, {
+          choices: [
+            {
+              index: 0,
+              delta: {},
+              message: {
+                role: "assistant",
+                images: [{ type: "image_url", image_url: { url: second } }],
+              },
+              finish_reason: null,
+            },
+          ],
+        }),
+      );
+    }
+  }
+
+  if (scenario === "attachments") {
+    const canvas = await renderMockCanvas(seed, imageUrls[0]);
+    const imageData = canvas.toDataURL("image/png").split(",")[1] ?? "";
+    chunks.push(
+      completionChunk(id, model, {
+        choices: [{ index: 0, delta: {}, finish_reason: null }],
+        attachments: [
+          {
+            name: "mock-result.json",
+            mime_type: "application/json",
+            data: textToBase64(JSON.stringify({ seed, prompt }, null, 2)),
+          },
+          { name: "mock-result.png", mime_type: "image/png", data: imageData },
+        ],
+      }),
+    );
+  }
+
+  const promptTokens = Math.ceil(JSON.stringify(payload.messages).length / 4);
+  chunks.push(
+    completionChunk(id, model, {
+      choices: [{ index: 0, delta: {}, finish_reason: "stop" }],
+      usage: {
+        prompt_tokens: promptTokens,
+        completion_tokens: splitTokens(reply).length,
+        total_tokens: promptTokens + splitTokens(reply).length,
+        cost: 0,
+      },
+    }),
+  );
+  chunks.push({ raw: "data: [DONE]" });
+  return { status: 200, chunks };
+}
+
+function serializeChunk(chunk: MockScript["chunks"][number]) {
+  if ("raw" in chunk && typeof chunk.raw === "string")
+    return `${chunk.raw}\n\n`;
+  return `data: ${JSON.stringify(chunk)}\n\n`;
+}
+
+function wait(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException("Aborted", "AbortError"));
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        reject(new DOMException("Aborted", "AbortError"));
+      },
+      { once: true },
+    );
+  });
+}
+
+/**
+ * Collapses a streamed script into the single JSON body a non-streaming
+ * request would return.
+ */
+function buildJsonBody(script: MockScript) {
+  let text = "";
+  let reasoning = "";
+  let thinking = "";
+  const images: unknown[] = [];
+  const attachments: unknown[] = [];
+  let usage: unknown;
+  let id = "";
+  for (const chunk of script.chunks) {
+    if ("raw" in chunk) continue;
+    const parsed = chunk as {
+      id?: string;
+      usage?: unknown;
+      attachments?: unknown[];
+      choices?: Array<{
+        delta?: Record<string, unknown>;
+        message?: { images?: unknown[] };
+      }>;
+    };
+    id = parsed.id ?? id;
+    if (parsed.usage) usage = parsed.usage;
+    if (parsed.attachments) attachments.push(...parsed.attachments);
+    const choice = parsed.choices?.[0];
+    const delta = choice?.delta ?? {};
+    if (typeof delta.content === "string") text += delta.content;
+    if (typeof delta.reasoning === "string") reasoning += delta.reasoning;
+    if (typeof delta.thinking === "string") thinking += delta.thinking;
+    if (Array.isArray(delta.images)) images.push(...delta.images);
+    if (Array.isArray(choice?.message?.images)) {
+      images.push(...choice.message.images);
+    }
+  }
+  return {
+    id,
+    object: "chat.completion",
+    choices: [
+      {
+        index: 0,
+        message: { role: "assistant", content: text, images },
+        reasoning: reasoning || undefined,
+        thinking: thinking || undefined,
+        finish_reason: "stop",
+      },
+    ],
+    attachments,
+    usage,
+  };
+}
+
+/**
+ * Builds a fetch-like Response for a completion request so the real
+ * OpenRouter parser runs unchanged over scripted data.
+ */
+export async function createMockCompletionResponse(
+  payload: OpenRouterCompletionRequest,
+  stream: boolean,
+  signal?: AbortSignal,
+): Promise<Response> {
+  const script = await buildMockScript(payload);
+  if (import.meta.env.DEV) {
+    console.debug(
+      `[Mock] ${payload.model}: ${script.chunks.length} chunk(s), status ${script.status}`,
+    );
+  }
+  if (script.status !== 200) {
+    return new Response(script.errorBody ?? "", {
+      status: script.status,
+      headers: { "content-type": "application/json" },
+    });
+  }
+  if (!stream) {
+    await wait(MOCK_CHUNK_DELAY_MS * 4, signal);
+    return new Response(JSON.stringify(buildJsonBody(script)), {
+      status: 200,
+      headers: { "content-type": "application/json" },
+    });
+  }
+
+  const encoder = new TextEncoder();
+  let index = 0;
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (index >= script.chunks.length) {
+        controller.close();
+        return;
+      }
+      try {
+        await wait(MOCK_CHUNK_DELAY_MS, signal);
+      } catch (error) {
+        controller.error(error);
+        return;
+      }
+      controller.enqueue(encoder.encode(serializeChunk(script.chunks[index])));
+      index++;
+    },
+  });
+  return new Response(body, {
+    status: 200,
+    headers: { "content-type": "text/event-stream" },
+  });
+}
@@ -2,8 +2,9 @@ import type {
   OpenRouterCompletionRequest,
   OpenRouterModelsResponse,
 } from "../types/openrouter";
+import { createMockCompletionResponse, isMockApiBase } from "./mockProvider";
 
-const API_BASE = "https://openrouter.ai/api/v1";
+export const OPENROUTER_API_BASE = "https://openrouter.ai/api/v1";
 
 type OpenRouterUsage = {
   prompt_tokens?: number;
@@ -31,6 +32,39 @@ export type OpenRouterAttachmentDebug = Record<
   { chunks: number[]; locations: string[] }
 >;
 
+function buildHeaders(apiKey: string, json = false): Record<string, string> {
+  const headers: Record<string, string> = {};
+  // Local OpenAI-compatible servers often run without auth
+  if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+  if (json) headers["Content-Type"] = "application/json";
+  return headers;
+}
+
+// HTTP failure of a completion request; status and Retry-After feed the retry policy
+export type CompletionError = Error & {
+  status?: number;
+  retryAfterMs?: number;
+};
+
+/** Retry-After is either delay-seconds or an HTTP date. */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+async function completionHttpError(label: string, response: Response) {
+  const errorText = await response.text().catch(() => "");
+  const error: CompletionError = new Error(
+    `${label}: ${response.status}${errorText ? ` - ${errorText}` : ""}`,
+  );
+  error.status = response.status;
+  error.retryAfterMs = parseRetryAfter(response.headers.get("retry-after"));
+  return error;
+}
+
 async function fetchWithRetry(
   input: RequestInfo,
   init: RequestInit,
@@ -51,13 +85,36 @@ async function fetchWithRetry(
   throw new Error("Unexpected fetch retry failure");
 }
 
+function postCompletion(
+  apiBase: string,
+  apiKey: string,
+  payload: OpenRouterCompletionRequest,
+  stream: boolean,
+  signal?: AbortSignal,
+  retries = 1,
+) {
+  // Route to the offline mock backend without touching the network
+  if (isMockApiBase(apiBase)) {
+    return createMockCompletionResponse(payload, stream, signal);
+  }
+  return fetchWithRetry(
+    `${apiBase}/chat/completions`,
+    {
+      method: "POST",
+      headers: buildHeaders(apiKey, true),
+      body: JSON.stringify({ ...payload, stream }),
+      signal,
+    },
+    retries,
+  );
+}
+
 export async function fetchOpenRouterModels(
   apiKey: string,
+  apiBase = OPENROUTER_API_BASE,
 ): Promise<OpenRouterModelsResponse> {
-  const response = await fetchWithRetry(`${API_BASE}/models`, {
-    headers: {
-      Authorization: `Bearer ${apiKey}`,
-    },
+  const response = await fetchWithRetry(`${apiBase}/models`, {
+    headers: buildHeaders(apiKey),
   });
   if (!response.ok) {
     throw new Error(`OpenRouter models error: ${response.status}`);
@@ -65,6 +122,10 @@ export async function fetchOpenRouterModels(
   return (await response.json()) as OpenRouterModelsResponse;
 }
 
+/**
+ * Billed usage of one generation. Newer responses carry `total_cost` and
+ * native token counts on `data`; older ones nested a `usage` object.
+ */
 export async function fetchGenerationCost(
   apiKey: string,
   generationId: string,
@@ -91,26 +152,38 @@ export async function fetchGenerationCost(
       }
 
       const response = await fetch(
-        `${API_BASE}/generation?id=${generationId}`,
+        `${OPENROUTER_API_BASE}/generation?id=${generationId}`,
         {
-          headers: {
-            Authorization: `Bearer ${apiKey}`,
-          },
+          headers: buildHeaders(apiKey),
         },
       );
 
       if (response.ok) {
+        type GenerationData = {
+          total_cost?: number;
+          tokens_prompt?: number;
+          tokens_completion?: number;
+          native_tokens_prompt?: number;
+          native_tokens_completion?: number;
+          usage?: {
+            prompt_tokens?: number;
+            completion_tokens?: number;
+            cost?: number;
+          };
+        };
         const data = (await response.json()) as {
-          data?: Array<{
-            usage?: {
-              prompt_tokens?: number;
-              completion_tokens?: number;
-              cost?: number;
-            };
-          }>;
+          data?: GenerationData | GenerationData[];
+        };
+        const generation = Array.isArray(data.data) ? data.data[0] : data.data;
+        if (!generation) return null;
+        if (generation.usage) return generation.usage;
+        return {
+          cost: generation.total_cost,
+          prompt_tokens:
+            generation.native_tokens_prompt ?? generation.tokens_prompt,
+          completion_tokens:
+            generation.native_tokens_completion ?? generation.tokens_completion,
         };
-        const generation = data.data?.[0];
-        return generation?.usage ?? null;
       }
 
       // If 404 and we have retries left, continue
@@ -135,21 +208,7 @@ export async function fetchGenerationCost(
   }
 }
 
-export async function streamCompletion({
-  apiKey,
-  payload,
-  onToken,
-  onReasoningToken,
-  onThinkingToken,
-  onError,
-  onDone,
-  onUsage,
-  onMessage,
-  signal,
-  onRequestId,
-}: {
-  apiKey: string;
-  payload: OpenRouterCompletionRequest;
+export type CompletionStreamHandlers = {
   onToken: (token: string) => void;
   onReasoningToken?: (token: string) => void;
   onThinkingToken?: (token: string) => void;
@@ -170,22 +229,40 @@ export async function streamCompletion({
     };
   }) => void;
   onRequestId?: (id: string) => void;
+  // Last finish reason seen, provider-native one preferred
+  onFinishReason?: (reason: string) => void;
+  // Receives every raw body chunk before parsing (used for stream recordings)
+  onRawChunk?: (chunk: Uint8Array) => void;
+};
+
+export async function streamCompletion({
+  apiKey,
+  apiBase = OPENROUTER_API_BASE,
+  payload,
+  signal,
+  retries,
+  ...handlers
+}: {
+  apiKey: string;
+  apiBase?: string;
+  payload: OpenRouterCompletionRequest;
   signal?: AbortSignal;
-}): Promise<void> {
-  const response = await fetchWithRetry(`${API_BASE}/chat/completions`, {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${apiKey}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({ ...payload, stream: true }),
+  // Immediate re-sends on 429/5xx; callers with their own retry policy pass 0
+  retries?: number;
+} & CompletionStreamHandlers): Promise<void> {
+  const response = await postCompletion(
+    apiBase,
+    apiKey,
+    payload,
+    true,
     signal,
-  });
+    retries,
+  );
 
   if (!response.ok) {
-    const errorText = await response.text().catch(() => "");
-    const error = new Error(
-      `OpenRouter stream error: ${response.status}${errorText ? ` - ${errorText}` : ""}`,
+    const error = await completionHttpError(
+      "OpenRouter stream error",
+      response,
     );
     if (import.meta.env.DEV) {
       console.error("[OpenRouter] Stream error:", error);
@@ -200,10 +277,37 @@ export async function streamCompletion({
     throw error;
   }
 
+  await parseCompletionResponse(response, handlers);
+}
+
+/**
+ * Parses a completion response body (SSE or plain JSON) into handler calls.
+ * Shared by live streams and recorded stream replays.
+ */
+export async function parseCompletionResponse(
+  response: Response,
+  {
+    onToken,
+    onReasoningToken,
+    onThinkingToken,
+    onError,
+    onDone,
+    onUsage,
+    onMessage,
+    onRequestId,
+    onFinishReason,
+    onRawChunk,
+  }: CompletionStreamHandlers,
+): Promise<void> {
+  if (!response.body) {
+    throw new Error("OpenRouter stream error: No response body");
+  }
   const contentType = response.headers.get("content-type") ?? "";
   const isEventStream = contentType.includes("text/event-stream");
   if (!isEventStream) {
-    const json = (await response.json()) as {
+    const bodyText = await response.text();
+    onRawChunk?.(new TextEncoder().encode(bodyText));
+    const json = JSON.parse(bodyText) as {
       choices?: Array<{
         message?: { content?: unknown; images?: unknown[] };
         images?: unknown[];
@@ -302,6 +406,7 @@ export async function streamCompletion({
   while (true) {
     const { done, value } = await reader.read();
     if (done) break;
+    onRawChunk?.(value);
     buffer += decoder.decode(value, { stream: true });
     const lines = buffer.split("\n");
     buffer = lines.pop() ?? "";
@@ -333,7 +438,10 @@ export async function streamCompletion({
       try {
         const parsed = JSON.parse(data) as {
           id?: string; // Request ID for querying generation endpoint
+          error?: { code?: number | string; message?: string }; // Mid-stream failure
           choices?: Array<{
+            finish_reason?: string | null;
+            native_finish_reason?: string | null;
             delta?: {
               content?: unknown;
               reasoning?: string;
@@ -369,6 +477,19 @@ export async function streamCompletion({
         }
         const choice = parsed.choices?.[0];
         const delta = choice?.delta;
+        const finishReason =
+          choice?.native_finish_reason ?? choice?.finish_reason;
+        if (finishReason) onFinishReason?.(finishReason);
+        if (parsed.error) {
+          // Same wording as HTTP errors so the status code can be classified
+          onError(
+            new Error(
+              `OpenRouter stream error: ${parsed.error.code ?? "unknown"} - ${
+                parsed.error.message ?? "stream failed"
+              }`,
+            ),
+          );
+        }
 
         // Handle delta content (streaming chunks) - incremental tokens
         const deltaContent = delta?.content;
@@ -606,47 +727,53 @@ export async function streamCompletion({
 
 export async function requestCompletion({
   apiKey,
+  apiBase,
   payload,
   signal,
 }: {
   apiKey: string;
+  apiBase?: string;
   payload: OpenRouterCompletionRequest;
   signal?: AbortSignal;
 }): Promise<string> {
-  const result = await requestCompletionFull({ apiKey, payload, signal });
+  const result = await requestCompletionFull({
+    apiKey,
+    apiBase,
+    payload,
+    signal,
+  });
   return result.content.text;
 }
 
 export async function requestCompletionFull({
   apiKey,
+  apiBase = OPENROUTER_API_BASE,
   payload,
   signal,
 }: {
   apiKey: string;
+  apiBase?: string;
   payload: OpenRouterCompletionRequest;
   signal?: AbortSignal;
 }): Promise<{
+  id?: string; // Generation id
   content: OpenRouterContent;
   usage?: OpenRouterUsage;
   reasoning?: OpenRouterReasoning;
   attachments?: OpenRouterAttachment[];
 }> {
-  const response = await fetchWithRetry(`${API_BASE}/chat/completions`, {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${apiKey}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({ ...payload, stream: false }),
+  const response = await postCompletion(
+    apiBase,
+    apiKey,
+    payload,
+    false,
     signal,
-  });
+  );
   if (!response.ok) {
-    const errorText = await response.text().catch(() => "");
-    throw new Error(
-      `OpenRouter completion error: ${response.status}${errorText ? ` - ${errorText}` : ""}`,
-    );
+    throw await completionHttpError("OpenRouter completion error", response);
   }
   const data = (await response.json()) as {
+    id?: string;
     choices?: Array<{
       message?: { content?: unknown; images?: unknown[] };
       images?: unknown[];
@@ -725,6 +852,7 @@ export async function requestCompletionFull({
   }
 
   return {
+    id: typeof data.id === "string" ? data.id : undefined,
     content: {
       text: content.text,
       imageUrls: uniqueStrings(allImageUrls),
@@ -0,0 +1,141 @@
+import type { ProviderConfig, ProviderKind, SettingsState } from "../types/db";
+import type { OpenRouterCompletionRequest } from "../types/openrouter";
+import {
+  OPENROUTER_API_BASE,
+  requestCompletionFull,
+  streamCompletion,
+} from "./openrouter";
+import { MOCK_API_BASE } from "./mockProvider";
+
+export const OPENROUTER_PROVIDER_ID = "openrouter";
+
+export const PROVIDER_KIND_LABELS: Record<ProviderKind, string> = {
+  openrouter: "OpenRouter",
+  openai: "OpenAI-compatible",
+  local: "Local server",
+  mock: "Mock (offline)",
+};
+
+export const PROVIDER_DEFAULT_BASE_URLS: Record<ProviderKind, string> = {
+  openrouter: OPENROUTER_API_BASE,
+  openai: "https://api.openai.com/v1",
+  local: "http://localhost:8080/v1",
+  mock: MOCK_API_BASE,
+};
+
+type StreamCompletionOptions = Parameters<typeof streamCompletion>[0];
+type RequestCompletionOptions = Parameters<typeof requestCompletionFull>[0];
+
+/**
+ * Common completion interface every session column talks to.
+ * Each backend carries its own base URL and key; callers only pass the payload.
+ */
+export interface CompletionBackend {
+  config: ProviderConfig;
+  isConfigured: boolean;
+  // Only OpenRouter exposes the /generation endpoint used for cost lookups
+  supportsGenerationLookup: boolean;
+  streamCompletion: (
+    options: Omit<StreamCompletionOptions, "apiKey" | "apiBase">,
+  ) => Promise<void>;
+  requestCompletionFull: (
+    options: Omit<RequestCompletionOptions, "apiKey" | "apiBase">,
+  ) => ReturnType<typeof requestCompletionFull>;
+}
+
+export function getOpenRouterProvider(apiKey: string): ProviderConfig {
+  return {
+    id: OPENROUTER_PROVIDER_ID,
+    kind: "openrouter",
+    name: PROVIDER_KIND_LABELS.openrouter,
+    baseUrl: OPENROUTER_API_BASE,
+    apiKey,
+  };
+}
+
+export function listProviders(settings: SettingsState): ProviderConfig[] {
+  return [getOpenRouterProvider(settings.apiKey), ...settings.providers];
+}
+
+export function resolveProviderConfig(
+  settings: SettingsState,
+  modelId: string,
+): ProviderConfig {
+  const providerId = settings.modelProviderIds[modelId];
+  const custom = providerId
+    ? settings.providers.find((provider) => provider.id === providerId)
+    : undefined;
+  return custom ?? getOpenRouterProvider(settings.apiKey);
+}
+
+export function isProviderConfigured(config: ProviderConfig): boolean {
+  if (!config.baseUrl.trim()) return false;
+  // Local servers and the mock backend are allowed to run without a key
+  if (config.kind === "local" || config.kind === "mock") return true;
+  return Boolean(config.apiKey.trim());
+}
+
+function normalizeBaseUrl(baseUrl: string) {
+  return baseUrl.trim().replace(/\/+$/, "");
+}
+
+/**
+ * Strips OpenRouter-only fields for plain OpenAI-compatible endpoints.
+ * Strict servers reject unknown request arguments.
+ */
+function preparePayload(
+  kind: ProviderKind,
+  payload: OpenRouterCompletionRequest,
+  stream: boolean,
+): OpenRouterCompletionRequest {
+  // The mock backend reads the OpenRouter shape as-is
+  if (kind === "openrouter" || kind === "mock") return payload;
+  const next: OpenRouterCompletionRequest = { ...payload };
+  delete next.usage;
+  delete next.transforms;
+  delete next.modalities;
+  delete next.image_config;
+  delete next.models;
+  delete next.provider;
+  const reasoning = next.reasoning as { effort?: string } | undefined;
+  delete next.reasoning;
+  if (reasoning?.effort && kind === "openai") {
+    next.reasoning_effort = reasoning.effort;
+  }
+  if (stream) {
+    next.stream_options = { include_usage: true };
+  }
+  return next;
+}
+
+export function createCompletionBackend(
+  config: ProviderConfig,
+): CompletionBackend {
+  const apiBase = normalizeBaseUrl(config.baseUrl);
+  return {
+    config,
+    isConfigured: isProviderConfigured(config),
+    supportsGenerationLookup: config.kind === "openrouter",
+    streamCompletion: (options) =>
+      streamCompletion({
+        ...options,
+        apiKey: config.apiKey,
+        apiBase,
+        payload: preparePayload(config.kind, options.payload, true),
+      }),
+    requestCompletionFull: (options) =>
+      requestCompletionFull({
+        ...options,
+        apiKey: config.apiKey,
+        apiBase,
+        payload: preparePayload(config.kind, options.payload, false),
+      }),
+  };
+}
+
+export function getCompletionBackendForModel(
+  settings: SettingsState,
+  modelId: string,
+): CompletionBackend {
+  return createCompletionBackend(resolveProviderConfig(settings, modelId));
+}
@@ -0,0 +1,124 @@
+import type { Message, Rating } from "../types/db";
+
+export const RATING_TAGS = [
+  "good edit",
+  "ignored instruction",
+  "unwanted changes",
+  "identity changed",
+  "artifacts",
+  "text errors",
+];
+
+const ELO_START = 1000;
+const ELO_K = 32;
+
+export interface ModelRatingSummary {
+  modelId: string;
+  ratings: number;
+  averageScore: number;
+  wins: number;
+  losses: number;
+  draws: number;
+  winRate: number; // (wins + draws / 2) / games, 0 when no games
+  elo: number;
+}
+
+/**
+ * Identifies which prompt an assistant message answers: its run plus the
+ * number of user turns before it. Matching keys across model columns mean
+ * the responses can be compared head to head.
+ */
+export function getTurnKey(messages: Message[], target: Message): string {
+  const turn = messages.filter(
+    (message) =>
+      message.role === "user" &&
+      message.runIndex === target.runIndex &&
+      message.createdAt <= target.createdAt,
+  ).length;
+  return `${target.runIndex ?? 0}:${turn}`;
+}
+
+/**
+ * Turns 1-5 scores into pairwise results: within a session and turn, every
+ * pair of models is a game won by the higher score (equal scores draw).
+ * Games are replayed in rating order to produce Elo ratings.
+ */
+export function computeRatingLeaderboard(
+  ratings: Rating[],
+): ModelRatingSummary[] {
+  const summaries = new Map<string, ModelRatingSummary>();
+  const summaryFor = (modelId: string) => {
+    let summary = summaries.get(modelId);
+    if (!summary) {
+      summary = {
+        modelId,
+        ratings: 0,
+        averageScore: 0,
+        wins: 0,
+        losses: 0,
+        draws: 0,
+        winRate: 0,
+        elo: ELO_START,
+      };
+      summaries.set(modelId, summary);
+    }
+    return summary;
+  };
+
+  const groups = new Map<string, Rating[]>();
+  for (const rating of ratings) {
+    const summary = summaryFor(rating.modelId);
+    summary.ratings += 1;
+    summary.averageScore += rating.score;
+    const key = `${rating.sessionId}|${rating.turnKey}`;
+    groups.set(key, [...(groups.get(key) ?? []), rating]);
+  }
+
+  const orderedGroups = Array.from(groups.values()).sort(
+    (a, b) =>
+      Math.max(...a.map((item) => item.updatedAt)) -
+      Math.max(...b.map((item) => item.updatedAt)),
+  );
+  for (const group of orderedGroups) {
+    for (let i = 0; i < group.length; i++) {
+      for (let j = i + 1; j < group.length; j++) {
+        const a = summaryFor(group[i].modelId);
+        const b = summaryFor(group[j].modelId);
+        if (a === b) continue;
+        const result =
+          group[i].score === group[j].score
+            ? 0.5
+            : group[i].score > group[j].score
+              ? 1
+              : 0;
+        if (result === 1) {
+          a.wins += 1;
+          b.losses += 1;
+        } else if (result === 0) {
+          a.losses += 1;
+          b.wins += 1;
+        } else {
+          a.draws += 1;
+          b.draws += 1;
+        }
+        const expected = 1 / (1 + 10 ** ((b.elo - a.elo) / 400));
+        const delta = ELO_K * (result - expected);
+        a.elo += delta;
+        b.elo -= delta;
+      }
+    }
+  }
+
+  return Array.from(summaries.values())
+    .map((summary) => {
+      const games = summary.wins + summary.losses + summary.draws;
+      return {
+        ...summary,
+        averageScore: summary.ratings
+          ? summary.averageScore / summary.ratings
+          : 0,
+        winRate: games ? (summary.wins + summary.draws / 2) / games : 0,
+      };
+    })
+    .sort((a, b) => b.elo - a.elo);
+}
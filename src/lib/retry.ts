@@ -0,0 +1,112 @@
+import type { ErrorKind, MessageAttempt, RetryPolicy } from "../types/db";
+import { classifyError } from "./errors";
+import type { CompletionError } from "./openrouter";
+
+// Same as the old built-in behaviour: one quick re-send on 429/5xx
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  retryKinds: ["rate_limit", "provider_error"],
+};
+
+// Kinds offered in the defaults form; the rest won't change on a re-send
+export const RETRYABLE_ERROR_KINDS: ErrorKind[] = [
+  "rate_limit",
+  "provider_error",
+  "timeout",
+  "network",
+  "malformed_stream",
+];
+
+// A longer Retry-After fails the answer instead of parking the column
+const MAX_RETRY_AFTER_MS = 60_000;
+
+/**
+ * Exponential backoff with full jitter: a random wait up to
+ * baseDelayMs * 2^(attempt-1), capped at maxDelayMs. A Retry-After from the
+ * provider is a lower bound.
+ */
+export function retryDelayMs(
+  policy: RetryPolicy,
+  attempt: number,
+  retryAfterMs?: number,
+) {
+  const ceiling = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * 2 ** (attempt - 1),
+  );
+  const jittered = Math.round(Math.random() * ceiling);
+  return retryAfterMs !== undefined
+    ? Math.max(retryAfterMs, jittered)
+    : jittered;
+}
+
+function waitFor(ms: number, signal: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new Error("Request aborted during retry backoff"));
+      return;
+    }
+    const onAbort = () => {
+      window.clearTimeout(timer);
+      reject(new Error("Request aborted during retry backoff"));
+    };
+    const timer = window.setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Runs `run` until it resolves or the policy gives up, reporting every
+ * attempt (including the last) through `onAttempt`. `canRetry` lets the
+ * caller veto a re-send, e.g. once output has already been shown.
+ */
+export async function runWithRetries<T>({
+  policy,
+  signal,
+  run,
+  onAttempt,
+  canRetry,
+}: {
+  policy: RetryPolicy;
+  signal: AbortSignal;
+  run: (attempt: number) => Promise<T>;
+  onAttempt: (attempt: MessageAttempt) => Promise<void> | void;
+  canRetry?: () => boolean;
+}): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    const startedAt = Date.now();
+    try {
+      const result = await run(attempt);
+      await onAttempt({ attempt, startedAt, endedAt: Date.now() });
+      return result;
+    } catch (error) {
+      const { message, retryAfterMs } = error as CompletionError;
+      const errorKind = classifyError(message);
+      const retry =
+        attempt < policy.maxAttempts &&
+        !signal.aborted &&
+        policy.retryKinds.includes(errorKind) &&
+        (retryAfterMs === undefined || retryAfterMs <= MAX_RETRY_AFTER_MS) &&
+        (canRetry?.() ?? true);
+      const delayMs = retry
+        ? retryDelayMs(policy, attempt, retryAfterMs)
+        : undefined;
+      await onAttempt({
+        attempt,
+        startedAt,
+        endedAt: Date.now(),
+        error: message,
+        errorKind,
+        retryAfterMs,
+        delayMs,
+      });
+      if (delayMs === undefined) throw error;
+      await waitFor(delayMs, signal);
+    }
+  }
+}
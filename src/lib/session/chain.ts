@@ -0,0 +1,77 @@
+import type { Message } from "../../types/db";
+
+export const DEFAULT_CHAIN_TEMPLATE = "{{prompt}}";
+
+export interface ChainTemplateValues {
+  prompt: string; // Text typed in the input dock
+  previous: string; // Text output of the previous step ("" for the first)
+  step: number; // 1-based
+}
+
+/**
+ * Fills a chain step's prompt template. Unknown placeholders are left as-is
+ * so a typo shows up in the sent message instead of silently vanishing.
+ */
+export function renderChainTemplate(
+  template: string | undefined,
+  values: ChainTemplateValues,
+): string {
+  const source = template?.trim() ? template : DEFAULT_CHAIN_TEMPLATE;
+  return source.replace(/\{\{\s*(prompt|previous|step)\s*\}\}/g, (_, key) =>
+    String(values[key as keyof ChainTemplateValues]),
+  );
+}
+
+export interface ChainStepView {
+  step: number;
+  modelId: string;
+  prompt: Message; // The step's user message
+  response?: Message; // The assistant message in the same run, once created
+}
+
+export interface ChainView {
+  chainId: string;
+  createdAt: number;
+  steps: ChainStepView[];
+}
+
+/**
+ * Rebuilds chain executions from the messages of every column: each step's
+ * user message carries its chain id, and its answer is the assistant message
+ * in the same run. Newest chain last.
+ */
+export function collectChains(
+  messagesByModel: Record<string, Message[]>,
+): ChainView[] {
+  const chains = new Map<string, ChainView>();
+  for (const [modelId, messages] of Object.entries(messagesByModel)) {
+    for (const message of messages) {
+      if (!message.chainStep || message.role !== "user") continue;
+      const { chainId, step } = message.chainStep;
+      if (!chains.has(chainId)) {
+        chains.set(chainId, {
+          chainId,
+          createdAt: message.createdAt,
+          steps: [],
+        });
+      }
+      const chain = chains.get(chainId)!;
+      chain.createdAt = Math.min(chain.createdAt, message.createdAt);
+      const response = messages
+        .filter(
+          (item) =>
+            item.role === "assistant" &&
+            item.runIndex === message.runIndex &&
+            item.createdAt >= message.createdAt,
+        )
+        .sort((a, b) => a.createdAt - b.createdAt)[0];
+      chain.steps.push({ step, modelId, prompt: message, response });
+    }
+  }
+  return Array.from(chains.values())
+    .map((chain) => ({
+      ...chain,
+      steps: chain.steps.sort((a, b) => a.step - b.step),
+    }))
+    .sort((a, b) => a.createdAt - b.createdAt);
+}
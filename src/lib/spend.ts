@@ -0,0 +1,235 @@
+import type { Message, UsageRecord } from "../types/db";
+import { localDayKey } from "./budget";
+
+export type SpendPeriod = "day" | "week" | "month";
+
+export interface SpendBucket {
+  key: string; // Day key of the period's first day
+  label: string;
+  cost: number;
+  images: number;
+  requests: number;
+}
+
+export function judgeUsageId(messageId: string, judgedAt: number) {
+  return `${messageId}:judge:${judgedAt}`;
+}
+
+export function critiqueUsageId(messageId: string) {
+  return `${messageId}:critique`;
+}
+
+/**
+ * Usage records implied by what a message already stores; used to backfill
+ * spend from before usage was recorded per request.
+ */
+export function usageRecordsFromMessage(message: Message): UsageRecord[] {
+  const records: UsageRecord[] = [];
+  const base = { sessionId: message.sessionId, messageId: message.id };
+  if (message.role === "assistant" && message.usage) {
+    records.push({
+      ...base,
+      id: message.id,
+      kind: "completion",
+      modelId: message.modelId,
+      createdAt: message.completedAt ?? message.createdAt,
+      promptTokens: message.usage.promptTokens,
+      completionTokens: message.usage.completionTokens,
+      outputImages: message.imageIds.length,
+      cost: message.usage.cost,
+      costSource: message.usage.costSource,
+    });
+  }
+  if (message.judgement?.cost !== undefined) {
+    records.push({
+      ...base,
+      id: judgeUsageId(message.id, message.judgement.judgedAt),
+      kind: "judge",
+      modelId: message.judgement.judgeModelId,
+      createdAt: message.judgement.judgedAt,
+      promptTokens: 0,
+      completionTokens: 0,
+      outputImages: 0,
+      cost: message.judgement.cost,
+    });
+  }
+  if (
+    message.autoIterate?.judgeModelId &&
+    message.autoIterate.judgeCost !== undefined
+  ) {
+    records.push({
+      ...base,
+      id: critiqueUsageId(message.id),
+      kind: "critique",
+      modelId: message.autoIterate.judgeModelId,
+      createdAt: message.createdAt,
+      promptTokens: 0,
+      completionTokens: 0,
+      outputImages: 0,
+      cost: message.autoIterate.judgeCost,
+    });
+  }
+  return records;
+}
+
+function dayKeyToDate(key: string) {
+  const [year, month, day] = key.split("-").map(Number);
+  return new Date(year, month - 1, day);
+}
+
+// Weeks start on Monday
+function periodStart(timestamp: number, period: SpendPeriod) {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  if (period === "week")
+    date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  if (period === "month") date.setDate(1);
+  return date;
+}
+
+function nextPeriodStart(date: Date, period: SpendPeriod) {
+  const next = new Date(date);
+  if (period === "day") next.setDate(next.getDate() + 1);
+  if (period === "week") next.setDate(next.getDate() + 7);
+  if (period === "month") next.setMonth(next.getMonth() + 1);
+  return next;
+}
+
+function periodLabel(date: Date, period: SpendPeriod) {
+  if (period === "month") {
+    return date.toLocaleDateString(undefined, {
+      month: "short",
+      year: "numeric",
+    });
+  }
+  const label = date.toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+  });
+  return period === "week" ? `wk ${label}` : label;
+}
+
+/**
+ * Spend per day, week or month from the first to the last record, including
+ * periods with no spend so charts keep a true time axis.
+ */
+export function bucketSpend(
+  records: UsageRecord[],
+  period: SpendPeriod,
+): SpendBucket[] {
+  if (records.length === 0) return [];
+  const totals = new Map<string, SpendBucket>();
+  let first = Infinity;
+  let last = -Infinity;
+  for (const record of records) {
+    first = Math.min(first, record.createdAt);
+    last = Math.max(last, record.createdAt);
+    const start = periodStart(record.createdAt, period);
+    const key = localDayKey(start.getTime());
+    const bucket = totals.get(key) ?? {
+      key,
+      label: periodLabel(start, period),
+      cost: 0,
+      images: 0,
+      requests: 0,
+    };
+    bucket.cost += record.cost ?? 0;
+    bucket.images += record.outputImages;
+    bucket.requests += 1;
+    totals.set(key, bucket);
+  }
+
+  const buckets: SpendBucket[] = [];
+  const end = periodStart(last, period).getTime();
+  for (
+    let cursor = periodStart(first, period);
+    cursor.getTime() <= end;
+    cursor = nextPeriodStart(cursor, period)
+  ) {
+    const key = localDayKey(cursor.getTime());
+    buckets.push(
+      totals.get(key) ?? {
+        key,
+        label: periodLabel(dayKeyToDate(key), period),
+        cost: 0,
+        images: 0,
+        requests: 0,
+      },
+    );
+  }
+  return buckets;
+}
+
+export function cumulativeSpend(buckets: SpendBucket[]) {
+  let total = 0;
+  return buckets.map((bucket) => {
+    total += bucket.cost;
+    return { key: bucket.key, label: bucket.label, total };
+  });
+}
+
+/** Completion spend divided by output images, per model. */
+export function costPerImageByModel(records: UsageRecord[]) {
+  const byModel = new Map<string, { cost: number; images: number }>();
+  for (const record of records) {
+    if (record.kind !== "completion") continue;
+    const entry = byModel.get(record.modelId) ?? { cost: 0, images: 0 };
+    entry.cost += record.cost ?? 0;
+    entry.images += record.outputImages;
+    byModel.set(record.modelId, entry);
+  }
+  return Array.from(byModel.entries())
+    .map(([modelId, entry]) => ({
+      modelId,
+      ...entry,
+      costPerImage: entry.images > 0 ? entry.cost / entry.images : null,
+    }))
+    .sort((a, b) => b.cost - a.cost);
+}
+
+function csvCell(value: string | number | undefined) {
+  if (value === undefined) return "";
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function usageRecordsToCsv(
+  records: UsageRecord[],
+  modelNames: Record<string, string> = {},
+) {
+  const header = [
+    "timestamp",
+    "date",
+    "kind",
+    "model_id",
+    "model_name",
+    "session_id",
+    "message_id",
+    "prompt_tokens",
+    "completion_tokens",
+    "output_images",
+    "cost_usd",
+    "cost_source",
+  ];
+  const rows = [...records]
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .map((record) =>
+      [
+        new Date(record.createdAt).toISOString(),
+        localDayKey(record.createdAt),
+        record.kind,
+        record.modelId,
+        modelNames[record.modelId] ?? record.modelId,
+        record.sessionId,
+        record.messageId,
+        record.promptTokens,
+        record.completionTokens,
+        record.outputImages,
+        record.cost?.toFixed(6),
+        record.costSource,
+      ]
+        .map(csvCell)
+        .join(","),
+    );
+  return [header.join(","), ...rows].join("\n");
+}
@@ -0,0 +1,79 @@
+import type { StreamRecording } from "../types/db";
+import {
+  parseCompletionResponse,
+  type CompletionStreamHandlers,
+} from "./openrouter";
+
+/**
+ * Collects raw response body chunks as they arrive so the exact byte stream
+ * (including chunk boundaries) can be stored and replayed later.
+ */
+export function createStreamRecorder() {
+  const chunks: Uint8Array[] = [];
+  return {
+    push(chunk: Uint8Array) {
+      // Copy: readers may reuse the underlying buffer
+      chunks.push(chunk.slice());
+    },
+    // Drops what an earlier, retried attempt sent
+    reset() {
+      chunks.length = 0;
+    },
+    build(
+      meta: Pick<
+        StreamRecording,
+        "messageId" | "sessionId" | "modelId" | "runIndex"
+      >,
+    ): StreamRecording | null {
+      if (chunks.length === 0) return null;
+      const data = new Blob(chunks as BlobPart[]);
+      const head = new TextDecoder()
+        .decode(chunks[0].subarray(0, 64))
+        .trimStart();
+      return {
+        ...meta,
+        // Plain JSON bodies are recorded when a provider ignores stream: true
+        contentType: head.startsWith("{")
+          ? "application/json"
+          : "text/event-stream",
+        chunkSizes: chunks.map((chunk) => chunk.byteLength),
+        data,
+        bytes: data.size,
+        createdAt: Date.now(),
+      };
+    },
+  };
+}
+
+function recordingToResponse(recording: StreamRecording): Response {
+  let index = 0;
+  let offset = 0;
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (index >= recording.chunkSizes.length) {
+        controller.close();
+        return;
+      }
+      const size = recording.chunkSizes[index];
+      const slice = recording.data.slice(offset, offset + size);
+      controller.enqueue(new Uint8Array(await slice.arrayBuffer()));
+      offset += size;
+      index++;
+    },
+  });
+  return new Response(body, {
+    status: 200,
+    headers: { "content-type": recording.contentType },
+  });
+}
+
+/**
+ * Re-feeds a recorded stream through the current parser with the original
+ * chunk boundaries.
+ */
+export async function replayStreamRecording(
+  recording: StreamRecording,
+  handlers: CompletionStreamHandlers,
+): Promise<void> {
+  await parseCompletionResponse(recordingToResponse(recording), handlers);
+}
@@ -0,0 +1,97 @@
+import { atom } from "nanostores";
+import {
+  createBackupZip,
+  readBackupZip,
+  restoreBackup,
+  type BackupRestoreMode,
+  type BackupRestoreReport,
+} from "../lib/backup";
+import { loadSettings } from "./settingsStore";
+import { loadStoredModels } from "./modelsStore";
+import { loadDefaults } from "./defaultsStore";
+import { loadSuites } from "./suitesStore";
+import {
+  $activeSession,
+  ensureSessionLoaded,
+  loadHistory,
+} from "./sessionsStore";
+import { loadSessionRatings } from "./ratingsStore";
+import { loadDailySpend } from "./budgetStore";
+import { addNotification } from "./notificationsStore";
+
+export type BackupStatus = "idle" | "exporting" | "restoring";
+
+export const $backupStatus = atom<BackupStatus>("idle");
+export const $lastRestoreReport = atom<BackupRestoreReport | null>(null);
+
+function formatBackupFileDate(timestamp: number) {
+  return new Date(timestamp).toISOString().slice(0, 19).replace(/[:T]/g, "-");
+}
+
+export async function downloadBackup(options: { includeApiKeys: boolean }) {
+  if ($backupStatus.get() !== "idle") return false;
+  $backupStatus.set("exporting");
+  try {
+    const blob = await createBackupZip(options);
+    const url = URL.createObjectURL(blob);
+    const anchor = document.createElement("a");
+    anchor.href = url;
+    anchor.download = `sbs-backup-${formatBackupFileDate(Date.now())}.zip`;
+    anchor.click();
+    URL.revokeObjectURL(url);
+    return true;
+  } catch (error) {
+    addNotification({
+      type: "error",
+      message: `Backup failed: ${(error as Error).message}`,
+    });
+    return false;
+  } finally {
+    $backupStatus.set("idle");
+  }
+}
+
+/**
+ * Restores a backup ZIP and reloads every store from IndexedDB so the UI
+ * reflects the restored data without a page refresh.
+ */
+export async function restoreBackupFromFile(
+  file: File,
+  mode: BackupRestoreMode,
+): Promise<BackupRestoreReport | null> {
+  if ($backupStatus.get() !== "idle") return null;
+  $backupStatus.set("restoring");
+  try {
+    const archive = await readBackupZip(file);
+    const report = await restoreBackup(archive, mode);
+    await loadSettings();
+    await loadStoredModels();
+    await loadDefaults();
+    await loadSuites();
+    await ensureSessionLoaded();
+    await loadHistory();
+    await loadSessionRatings($activeSession.get().session?.id ?? null);
+    await loadDailySpend();
+    $lastRestoreReport.set(report);
+    const conflictTotal = Object.values(report.conflicts).reduce(
+      (sum, count) => sum + count,
+      0,
+    );
+    addNotification({
+      type: conflictTotal > 0 || report.missingFiles > 0 ? "warning" : "info",
+      message:
+        mode === "replace"
+          ? `Restored ${report.restored.sessions} sessions from backup.`
+          : `Merged ${report.restored.sessions} sessions from backup (${conflictTotal} conflicts kept local).`,
+    });
+    return report;
+  } catch (error) {
+    addNotification({
+      type: "error",
+      message: `Restore failed: ${(error as Error).message}`,
+    });
+    return null;
+  } finally {
+    $backupStatus.set("idle");
+  }
+}
@@ -0,0 +1,147 @@
+import { atom } from "nanostores";
+import type { Message, Session, UsageRecord } from "../types/db";
+import { getAllUsageRecords, saveUsageRecord } from "../lib/idb";
+import { estimateCompletionCostUsd, localDayKey } from "../lib/budget";
+import { inferModelCapabilities } from "../lib/modelMeta";
+import { $models } from "./modelsStore";
+import { $settings } from "./settingsStore";
+
+export interface DailySpend {
+  day: string; // localDayKey
+  total: number; // USD
+}
+
+export const $dailySpend = atom<DailySpend>({ day: localDayKey(), total: 0 });
+
+export interface SendEstimate {
+  total: number; // USD, models without pricing excluded
+  unpricedModelIds: string[];
+}
+
+/**
+ * Rebuilds today's spend from the usage log, which has one record per billed
+ * request (every judge call included), so this also covers sessions run in
+ * other tabs.
+ */
+export async function loadDailySpend() {
+  const day = localDayKey();
+  const records = await getAllUsageRecords();
+  const total = records.reduce(
+    (sum, record) =>
+      localDayKey(record.createdAt) === day ? sum + (record.cost ?? 0) : sum,
+    0,
+  );
+  $dailySpend.set({ day, total });
+}
+
+// Negative amounts are corrections (reconciled costs below the estimate)
+export function recordSpend(costUsd: number) {
+  if (!Number.isFinite(costUsd) || costUsd === 0) return;
+  const day = localDayKey();
+  const current = $dailySpend.get();
+  $dailySpend.set({
+    day,
+    total: Math.max(0, (current.day === day ? current.total : 0) + costUsd),
+  });
+}
+
+/** Stores a billed request for the spend dashboard and counts it for today. */
+export async function recordUsage(record: UsageRecord) {
+  recordSpend(record.cost ?? 0);
+  try {
+    await saveUsageRecord(record);
+  } catch (error) {
+    if (import.meta.env.DEV) {
+      console.warn("[Budget] Failed to save usage record:", error);
+    }
+  }
+}
+
+export function getDailySpend() {
+  const current = $dailySpend.get();
+  return current.day === localDayKey() ? current.total : 0;
+}
+
+/**
+ * Pre-send estimate for one user turn: each target model answers
+ * `multiplier` times on top of its latest run's context.
+ */
+export function estimateSendCost({
+  modelIds,
+  messagesByModel,
+  text,
+  imageCount,
+  multiplier,
+}: {
+  modelIds: string[];
+  messagesByModel: Record<string, Message[]>;
+  text: string;
+  imageCount: number;
+  multiplier: number;
+}): SendEstimate {
+  const models = $models.get();
+  let total = 0;
+  const unpricedModelIds: string[] = [];
+  for (const modelId of modelIds) {
+    const model = models.find((item) => item.id === modelId);
+    const messages = messagesByModel[modelId] ?? [];
+    const latestRun = messages.reduce(
+      (max, message) => Math.max(max, message.runIndex ?? 1),
+      1,
+    );
+    const estimate = estimateCompletionCostUsd({
+      pricing: model?.pricing,
+      contextMessages: messages.filter(
+        (message) =>
+          (message.runIndex ?? 1) === latestRun &&
+          message.status === "complete",
+      ),
+      text,
+      imageCount,
+      imageOutput: model
+        ? inferModelCapabilities(model).likelyImageOutput
+        : false,
+    });
+    if (estimate === null) unpricedModelIds.push(modelId);
+    else total += estimate * multiplier;
+  }
+  return { total, unpricedModelIds };
+}
+
+export interface BudgetBreach {
+  scope: "session" | "daily";
+  message: string;
+}
+
+/**
+ * Returns which cap spending `additionalUsd` more in this session would
+ * break, or null when it fits. A zero addition checks whether a cap is
+ * already used up.
+ */
+export function getBudgetBreach(
+  session: Pick<Session, "totalCost"> | null,
+  additionalUsd = 0,
+): BudgetBreach | null {
+  const budget = $settings.get().budget;
+  if (!budget) return null;
+  const sessionSpend = session?.totalCost ?? 0;
+  const exceeds = (spent: number, cap: number) =>
+    additionalUsd > 0 ? spent + additionalUsd > cap : spent >= cap;
+  if (
+    budget.sessionCapUsd !== null &&
+    exceeds(sessionSpend, budget.sessionCapUsd)
+  ) {
+    return {
+      scope: "session",
+      message: `Session cap of $${budget.sessionCapUsd.toFixed(2)} (spent $${sessionSpend.toFixed(4)})`,
+    };
+  }
+  const daily = getDailySpend();
+  if (budget.dailyCapUsd !== null && exceeds(daily, budget.dailyCapUsd)) {
+    return {
+      scope: "daily",
+      message: `Daily cap of $${budget.dailyCapUsd.toFixed(2)} (spent $${daily.toFixed(4)} today)`,
+    };
+  }
+  return null;
+}
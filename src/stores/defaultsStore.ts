@@ -27,6 +27,7 @@ const defaultDefaultsState: DefaultsState = {
       imageAspectRatioSet: true,
       imageSize: "1K",
       imageSizeSet: true,
+      retryPolicySet: false,
       createdAt: Date.now(),
       updatedAt: Date.now(),
     },
@@ -50,6 +51,7 @@ const defaultDefaultsState: DefaultsState = {
       imageAspectRatioSet: false,
       imageSize: "1K",
       imageSizeSet: false,
+      retryPolicySet: false,
       createdAt: Date.now(),
       updatedAt: Date.now(),
     },
@@ -119,6 +121,10 @@ export async function loadDefaults() {
         raw.imageSizeSet = raw.id === COMMON_DEFAULT_ID;
         needsSave = true;
       }
+      if (raw.retryPolicySet === undefined) {
+        raw.retryPolicySet = false;
+        needsSave = true;
+      }
     });
 
     // Ensure common default exists
@@ -146,6 +152,7 @@ export async function loadDefaults() {
         imageAspectRatioSet: true,
         imageSize: "1K",
         imageSizeSet: true,
+        retryPolicySet: false,
         createdAt: Date.now(),
         updatedAt: Date.now(),
       });
@@ -176,6 +183,7 @@ export async function loadDefaults() {
         imageAspectRatioSet: false,
         imageSize: "1K",
         imageSizeSet: false,
+        retryPolicySet: false,
         createdAt: Date.now(),
         updatedAt: Date.now(),
       });
@@ -220,7 +228,7 @@ export async function updateDefault(
     ...defaults,
     entries: defaults.entries.map((entry) => {
       if (entry.id !== id) return entry;
-      // Common default: allow updating systemMessage, streamReasoning, reasoningEffort, temperature, and image settings
+      // Common default: allow updating systemMessage, streamReasoning, reasoningEffort, temperature, image settings and retry policy
       if (isCommonDefault) {
         return {
           ...entry,
@@ -245,6 +253,8 @@ export async function updateDefault(
             updates.imageAspectRatioSet ?? entry.imageAspectRatioSet,
           imageSize: updates.imageSize ?? entry.imageSize,
           imageSizeSet: updates.imageSizeSet ?? entry.imageSizeSet,
+          retryPolicy: updates.retryPolicy ?? entry.retryPolicy,
+          retryPolicySet: updates.retryPolicySet ?? entry.retryPolicySet,
           updatedAt: Date.now(),
         };
       }
@@ -325,6 +335,7 @@ export function getMergedDefaults(modelId: string): DefaultEntry | null {
         outputFormatSet: false,
         imageAspectRatioSet: false,
         imageSizeSet: false,
+        retryPolicySet: false,
         createdAt: Date.now(),
         updatedAt: Date.now(),
       };
@@ -378,6 +389,12 @@ export function getMergedDefaults(modelId: string): DefaultEntry | null {
       merged.imageSize = specific.imageSize;
       merged.imageSizeSet = true;
     }
+
+    // Retry policy
+    if (specific.retryPolicySet) {
+      merged.retryPolicy = specific.retryPolicy;
+      merged.retryPolicySet = true;
+    }
   }
 
   return merged;
@@ -1,4 +1,4 @@
-import { map } from "nanostores";
+import { atom, map } from "nanostores";
 import type { MessageRole } from "../types/db";
 import { createId } from "../lib/utils";
 
@@ -6,7 +6,11 @@ export interface PendingImage {
   id: string;
   file: File;
   previewUrl: string;
-  size: number;
+  size: number; // Longest side chosen in the editor
+  width?: number; // Final pixel dimensions of file, when framed by the editor
+  height?: number;
+  // Optional inpainting mask (white = region to edit), same framing as file
+  maskFile?: File;
 }
 
 export interface InputState {
@@ -33,14 +37,27 @@ export function setInputText(text: string) {
   $inputState.set({ ...$inputState.get(), text });
 }
 
-export function addPendingImage(file: File, size = 512) {
+export function addPendingImage(
+  file: File,
+  options: Partial<
+    Pick<PendingImage, "size" | "width" | "height" | "maskFile">
+  > = {},
+) {
   const state = $inputState.get();
   const previewUrl = URL.createObjectURL(file);
   $inputState.set({
     ...state,
     pendingImages: [
       ...state.pendingImages,
-      { id: createId("pending"), file, previewUrl, size },
+      {
+        id: createId("pending"),
+        file,
+        previewUrl,
+        size: options.size ?? 512,
+        width: options.width,
+        height: options.height,
+        maskFile: options.maskFile,
+      },
     ],
   });
 }
@@ -64,3 +81,26 @@ export function clearInput() {
   state.pendingImages.forEach((img) => URL.revokeObjectURL(img.previewUrl));
   $inputState.set({ ...initialState });
 }
+
+export interface AutoIterateSettings {
+  enabled: boolean;
+  source: "instruction" | "judge"; // Where each follow-up turn comes from
+  instruction: string;
+  judgeModelId: string;
+  maxRounds: number; // Follow-up turns after the first answer
+  budgetUsd: number | null; // Per run, including judge calls
+}
+
+// Kept across sends, unlike the rest of the input state
+export const $autoIterate = atom<AutoIterateSettings>({
+  enabled: false,
+  source: "instruction",
+  instruction: "Refine this image further.",
+  judgeModelId: "",
+  maxRounds: 3,
+  budgetUsd: null,
+});
+
+export function updateAutoIterate(patch: Partial<AutoIterateSettings>) {
+  $autoIterate.set({ ...$autoIterate.get(), ...patch });
+}
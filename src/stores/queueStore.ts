@@ -0,0 +1,168 @@
+import { atom } from "nanostores";
+import { createId } from "../lib/utils";
+import { $settings, DEFAULT_SCHEDULER_SETTINGS } from "./settingsStore";
+
+export interface QueuedRequest {
+  id: string;
+  sessionId: string;
+  modelId: string;
+  runIndex?: number;
+  providerId: string;
+  enqueuedAt: number;
+  startedAt?: number; // Set once the request holds a slot
+}
+
+// Running requests first (in start order), then waiting ones in queue order
+export const $requestQueue = atom<QueuedRequest[]>([]);
+
+const waiters = new Map<
+  string,
+  { resolve: () => void; reject: (error: Error) => void }
+>();
+
+export const QUEUE_CANCELLED_MESSAGE = "Cancelled while queued";
+
+function getLimits() {
+  const scheduler = {
+    ...DEFAULT_SCHEDULER_SETTINGS,
+    ...$settings.get().scheduler,
+  };
+  return {
+    global: Math.max(1, scheduler.maxConcurrent),
+    forProvider: (providerId: string) =>
+      Math.max(1, scheduler.perProvider[providerId] ?? scheduler.maxConcurrent),
+  };
+}
+
+/**
+ * Starts waiting requests in queue order while slots are free. A request
+ * whose provider is at its limit is skipped, so it doesn't hold up requests
+ * to other providers behind it.
+ */
+function pump() {
+  const limits = getLimits();
+  const queue = $requestQueue.get();
+  const running = queue.filter((item) => item.startedAt !== undefined);
+  const runningByProvider = new Map<string, number>();
+  running.forEach((item) =>
+    runningByProvider.set(
+      item.providerId,
+      (runningByProvider.get(item.providerId) ?? 0) + 1,
+    ),
+  );
+  let runningCount = running.length;
+  const started: QueuedRequest[] = [];
+  for (const item of queue) {
+    if (runningCount >= limits.global) break;
+    if (item.startedAt !== undefined) continue;
+    const providerCount = runningByProvider.get(item.providerId) ?? 0;
+    if (providerCount >= limits.forProvider(item.providerId)) continue;
+    runningByProvider.set(item.providerId, providerCount + 1);
+    runningCount++;
+    started.push(item);
+  }
+  if (started.length === 0) return;
+  const now = Date.now();
+  const startedIds = new Set(started.map((item) => item.id));
+  const next = queue.map((item) =>
+    startedIds.has(item.id) ? { ...item, startedAt: now } : item,
+  );
+  $requestQueue.set([
+    ...next.filter((item) => item.startedAt !== undefined),
+    ...next.filter((item) => item.startedAt === undefined),
+  ]);
+  started.forEach((item) => {
+    waiters.get(item.id)?.resolve();
+    waiters.delete(item.id);
+  });
+}
+
+// Raising a limit lets waiting requests start right away
+$settings.listen(() => pump());
+
+/**
+ * Waits for a free slot under the global and per-provider limits. Resolves
+ * with a release function to call when the request is done; rejects when the
+ * request is cancelled (or `signal` aborts) while still waiting.
+ */
+export function acquireRequestSlot(
+  request: Omit<QueuedRequest, "id" | "enqueuedAt" | "startedAt">,
+  signal: AbortSignal,
+): Promise<() => void> {
+  const item: QueuedRequest = {
+    ...request,
+    id: createId("request"),
+    enqueuedAt: Date.now(),
+  };
+  const release = () => {
+    $requestQueue.set(
+      $requestQueue.get().filter((entry) => entry.id !== item.id),
+    );
+    pump();
+  };
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new Error(QUEUE_CANCELLED_MESSAGE));
+      return;
+    }
+    const onAbort = () => cancelQueuedRequest(item.id);
+    waiters.set(item.id, {
+      resolve: () => {
+        signal.removeEventListener("abort", onAbort);
+        resolve(release);
+      },
+      reject: (error) => {
+        signal.removeEventListener("abort", onAbort);
+        reject(error);
+      },
+    });
+    signal.addEventListener("abort", onAbort, { once: true });
+    $requestQueue.set([...$requestQueue.get(), item]);
+    pump();
+  });
+}
+
+/** Drops a request that is still waiting; running ones are left alone. */
+export function cancelQueuedRequest(id: string) {
+  const queue = $requestQueue.get();
+  const item = queue.find((entry) => entry.id === id);
+  if (!item || item.startedAt !== undefined) return;
+  $requestQueue.set(queue.filter((entry) => entry.id !== id));
+  waiters.get(id)?.reject(new Error(QUEUE_CANCELLED_MESSAGE));
+  waiters.delete(id);
+}
+
+export function cancelAllQueuedRequests() {
+  $requestQueue
+    .get()
+    .filter((item) => item.startedAt === undefined)
+    .forEach((item) => cancelQueuedRequest(item.id));
+}
+
+/** Swaps a waiting request with its waiting neighbour. */
+export function moveQueuedRequest(id: string, delta: -1 | 1) {
+  const queue = $requestQueue.get();
+  const index = queue.findIndex((item) => item.id === id);
+  const target = index + delta;
+  if (index === -1 || queue[index].startedAt !== undefined) return;
+  if (target < 0 || target >= queue.length) return;
+  if (queue[target].startedAt !== undefined) return;
+  const next = queue.slice();
+  [next[index], next[target]] = [next[target], next[index]];
+  $requestQueue.set(next);
+}
+
+/** Puts a waiting request first in line. */
+export function moveQueuedRequestToFront(id: string) {
+  const queue = $requestQueue.get();
+  const item = queue.find((entry) => entry.id === id);
+  if (!item || item.startedAt !== undefined) return;
+  const rest = queue.filter((entry) => entry.id !== id);
+  const firstWaiting = rest.findIndex((entry) => entry.startedAt === undefined);
+  const insertAt = firstWaiting === -1 ? rest.length : firstWaiting;
+  $requestQueue.set([
+    ...rest.slice(0, insertAt),
+    item,
+    ...rest.slice(insertAt),
+  ]);
+}
@@ -0,0 +1,82 @@
+import { atom } from "nanostores";
+import type { Message, Rating } from "../types/db";
+import { deleteRating, getRatings, saveRating } from "../lib/idb";
+
+export interface BlindModeState {
+  enabled: boolean;
+  order: string[]; // Shuffled model ids
+  revealed: boolean; // Manually revealed before every column was rated
+}
+
+// Ratings for the active session, keyed by message id
+export const $ratings = atom<Record<string, Rating>>({});
+export const $blindMode = atom<BlindModeState>({
+  enabled: false,
+  order: [],
+  revealed: false,
+});
+
+export async function loadSessionRatings(sessionId: string | null) {
+  if (!sessionId) {
+    $ratings.set({});
+    return;
+  }
+  const ratings = await getRatings(sessionId);
+  $ratings.set(
+    Object.fromEntries(ratings.map((rating) => [rating.messageId, rating])),
+  );
+}
+
+export async function rateMessage(
+  message: Message,
+  turnKey: string,
+  update: Partial<Pick<Rating, "score" | "tags" | "note">>,
+) {
+  const existing = $ratings.get()[message.id];
+  const score = update.score ?? existing?.score;
+  if (!score) return;
+  const blind = $blindMode.get();
+  const now = Date.now();
+  const rating: Rating = {
+    messageId: message.id,
+    sessionId: message.sessionId,
+    modelId: message.modelId,
+    turnKey,
+    score,
+    tags: update.tags ?? existing?.tags ?? [],
+    note: update.note ?? existing?.note,
+    blind: existing?.blind ?? (blind.enabled && !blind.revealed),
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+  $ratings.set({ ...$ratings.get(), [message.id]: rating });
+  await saveRating(rating);
+}
+
+export async function clearRating(messageId: string) {
+  const next = { ...$ratings.get() };
+  delete next[messageId];
+  $ratings.set(next);
+  await deleteRating(messageId);
+}
+
+function shuffle<T>(items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+export function setBlindMode(enabled: boolean, modelIds: string[] = []) {
+  $blindMode.set({
+    enabled,
+    order: enabled ? shuffle(modelIds) : [],
+    revealed: false,
+  });
+}
+
+export function revealBlindMode() {
+  $blindMode.set({ ...$blindMode.get(), revealed: true });
+}
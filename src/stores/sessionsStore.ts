@@ -1,5 +1,14 @@
 import { atom, map } from "nanostores";
-import type { Session, SessionStats, Message, MessageRole } from "../types/db";
+import type {
+  Session,
+  SessionStats,
+  Message,
+  MessageBranchOrigin,
+  MessageAutoIterate,
+  MessageChainStep,
+  MessageRole,
+  SessionMode,
+} from "../types/db";
 import type {
   OpenRouterCompletionRequest,
   OpenRouterMessage,
@@ -7,6 +16,7 @@ import type {
 import {
   deleteSession as deleteSessionDb,
   deleteMessage,
+  deleteMessagesAfter,
   getSession,
   getImage,
   getMessages,
@@ -18,14 +28,19 @@ import {
   saveMessages,
   saveStats,
   cleanupOrphanedImages,
+  getStreamRecording,
+  saveStreamRecording,
+  getUsageRecord,
+  saveUsageRecord,
 } from "../lib/idb";
 import { createId, debounce } from "../lib/utils";
 import type { OpenRouterAttachment } from "../lib/openrouter";
+import { fetchGenerationCost } from "../lib/openrouter";
+import { getCompletionBackendForModel } from "../lib/providers";
 import {
-  requestCompletionFull,
-  streamCompletion,
-  fetchGenerationCost,
-} from "../lib/openrouter";
+  createStreamRecorder,
+  replayStreamRecording,
+} from "../lib/streamRecording";
 import {
   blobToDataUrl,
   canvasToBlob,
@@ -33,11 +48,24 @@ import {
   loadImageFromFile,
 } from "../lib/image";
 import { exportSessionZip } from "../lib/export";
+import { readSessionZip } from "../lib/import";
+import { buildSessionHtmlReport } from "../lib/htmlReport";
+import {
+  renderContactSheet,
+  type ContactSheetFormat,
+} from "../lib/contactSheet";
 import {
   collectImageUrlsFromAttachments,
   resolveAndStoreMessageImages,
 } from "../lib/session/messageImages";
 import { calculateModelCostUsd } from "../lib/cost";
+import { renderChainTemplate } from "../lib/session/chain";
+import {
+  parseJudgeVerdict,
+  requestCritique,
+  requestJudgeScore,
+} from "../lib/judge";
+import { computeImageMetrics } from "../lib/metrics";
 import { $settings, setSelectedModels } from "./settingsStore";
 import { $activeSessionId, setActiveSession } from "./appStore";
 import { $models } from "./modelsStore";
@@ -45,9 +73,20 @@ import { inferModelModalities } from "../lib/modelMeta";
 import { getMatchingDefault } from "./defaultsStore";
 import { $uiState, resetHistoryPagination, setHistoryHasMore } from "./uiStore";
 import { showVerificationDialog } from "./verificationStore";
-import type { InputState } from "./inputStore";
-import type { ImageAsset } from "../types/db";
+import type { AutoIterateSettings, InputState } from "./inputStore";
+import type { ImageAsset, ImageMetrics } from "../types/db";
 import { addNotification } from "./notificationsStore";
+import {
+  estimateSendCost,
+  getBudgetBreach,
+  recordSpend,
+  recordUsage,
+} from "./budgetStore";
+import { localDayKey } from "../lib/budget";
+import { critiqueUsageId, judgeUsageId } from "../lib/spend";
+import { classifyError, classifyMissingImage } from "../lib/errors";
+import { DEFAULT_RETRY_POLICY, runWithRetries } from "../lib/retry";
+import { acquireRequestSlot } from "./queueStore";
 
 export interface ActiveSessionState {
   session: Session | null;
@@ -67,8 +106,11 @@ export const $activeSession = map<ActiveSessionState>({
 
 export const $history = atom<Session[]>([]);
 
-// Map key format: `${modelId}-${runIndex}` for per-run abort controllers
+// Map key format: `${sessionId}:${modelId}-${runIndex}` for per-run abort controllers
 const streamControllers = new Map<string, AbortController>();
+// Sessions that run outside the session view (benchmark suites) keep their
+// state here instead of in $activeSession
+const backgroundSessions = new Map<string, ActiveSessionState>();
 const deletedSessionIds = new Set<string>();
 const costWarningKeys = new Set<string>();
 
@@ -110,9 +152,57 @@ const persistSessionDebounced = debounce((session: Session) => {
   upsertHistorySession(session);
 }, 500);
 
+function getSessionState(sessionId: string): ActiveSessionState | null {
+  const active = $activeSession.get();
+  if (active.session?.id === sessionId) return active;
+  return backgroundSessions.get(sessionId) ?? null;
+}
+
+/**
+ * Applies a state update for a session that may no longer be on screen.
+ * Streams keep running when the user switches sessions; their updates must
+ * not leak into whichever session is active now. Persistence to IndexedDB is
+ * the caller's job and happens regardless.
+ */
+function updateSessionState(
+  sessionId: string,
+  update: (state: ActiveSessionState) => ActiveSessionState,
+) {
+  const active = $activeSession.get();
+  if (active.session?.id === sessionId) {
+    $activeSession.set(update(active));
+    return;
+  }
+  const background = backgroundSessions.get(sessionId);
+  if (background) backgroundSessions.set(sessionId, update(background));
+}
+
+/**
+ * The session object a long-running request should write to. Mode and chain
+ * template changes replace the object in state, so a copy captured when the
+ * request started can be stale by the time it finishes.
+ */
+function latestSession(session: Session): Session {
+  return getSessionState(session.id)?.session ?? session;
+}
+
+function streamControllerKey(
+  sessionId: string,
+  modelId: string,
+  runIndex?: number,
+) {
+  return `${sessionId}:${modelId}-${runIndex}`;
+}
+
+function isModelStreaming(sessionId: string, modelId: string) {
+  const prefix = `${sessionId}:${modelId}-`;
+  return Array.from(streamControllers.keys()).some((key) =>
+    key.startsWith(prefix),
+  );
+}
+
 async function ensureStatsForModel(sessionId: string, modelId: string) {
-  const current = $activeSession.get();
-  if (current.statsByModel[modelId]) return;
+  if (getSessionState(sessionId)?.statsByModel[modelId]) return;
   const stats: SessionStats = {
     sessionId,
     modelId,
@@ -120,10 +210,10 @@ async function ensureStatsForModel(sessionId: string, modelId: string) {
     outputTokens: 0,
     totalCost: 0,
   };
-  $activeSession.set({
+  updateSessionState(sessionId, (current) => ({
     ...current,
     statsByModel: { ...current.statsByModel, [modelId]: stats },
-  });
+  }));
 }
 
 function resolveCostUsd({
@@ -167,6 +257,9 @@ function resolveCostUsd({
   return calculated;
 }
 
+const MASK_PROMPT_NOTE =
+  "The next image is an inpainting mask for the image above, at the same size and framing. White pixels mark the region to edit; leave everything under black pixels unchanged. Return only the edited image, not the mask.";
+
 async function buildOpenRouterMessages(
   sessionId: string,
   modelId: string,
@@ -182,7 +275,9 @@ async function buildOpenRouterMessages(
   const output: OpenRouterMessage[] = [];
 
   for (const message of messages) {
-    if (message.status === "streaming") continue;
+    if (message.status === "streaming" || message.status === "queued") {
+      continue;
+    }
     if (message.status === "error") continue;
     if (
       message.role === "assistant" &&
@@ -208,6 +303,15 @@ async function buildOpenRouterMessages(
       if (!asset) continue;
       const url = await blobToDataUrl(asset.blob);
       parts.push({ type: "image_url", image_url: { url } });
+      const maskId = message.maskImageIds?.[imageId];
+      const mask = maskId ? await getImageAsset(maskId) : null;
+      if (mask) {
+        parts.push({ type: "text", text: MASK_PROMPT_NOTE });
+        parts.push({
+          type: "image_url",
+          image_url: { url: await blobToDataUrl(mask.blob) },
+        });
+      }
     }
     // Convert system messages with images to user messages
     // Many providers (e.g., OpenAI) don't support images in system messages
@@ -268,16 +372,14 @@ async function ensureDefaultSystemMessage(
 
   // Add to UI state
   // System messages are revealed by default (not collapsed)
-  const state = $activeSession.get();
-  const list = state.messagesByModel[modelId] ?? [];
   // Insert at the beginning so it appears first
-  $activeSession.set({
+  updateSessionState(session.id, (state) => ({
     ...state,
     messagesByModel: {
       ...state.messagesByModel,
-      [modelId]: [systemMessage, ...list],
+      [modelId]: [systemMessage, ...(state.messagesByModel[modelId] ?? [])],
     },
-  });
+  }));
 }
 
 function updateSessionTotals(
@@ -295,9 +397,13 @@ function updateSessionTotals(
   );
   session.totalTokens = totals.tokens;
   session.totalCost = totals.cost;
-  session.messageCount = Object.values(
-    $activeSession.get().messagesByModel,
-  ).reduce((count, list) => count + list.length, 0);
+  const messagesByModel = getSessionState(session.id)?.messagesByModel;
+  if (messagesByModel) {
+    session.messageCount = Object.values(messagesByModel).reduce(
+      (count, list) => count + list.length,
+      0,
+    );
+  }
   session.updatedAt = Date.now();
 }
 
@@ -346,7 +452,9 @@ export async function loadSession(
 
     // Check if any messages are currently streaming for this model
     const hasStreaming = messages.some(
-      (msg) => msg.status === "streaming" && msg.role === "assistant",
+      (msg) =>
+        (msg.status === "streaming" || msg.status === "queued") &&
+        msg.role === "assistant",
     );
     if (hasStreaming) {
       streamingByModel[modelId] = true;
@@ -378,6 +486,8 @@ export async function loadSession(
   if (missingStats.length) {
     await Promise.all(missingStats.map((stat) => saveStats(stat)));
   }
+  // Once opened in the view, the persisted copy is the source of truth
+  backgroundSessions.delete(session.id);
   setActiveSession(session.id);
   $activeSession.set({
     session,
@@ -446,53 +556,250 @@ export async function deleteSession(id: string) {
   await loadHistory();
 }
 
-export async function exportSession(id: string) {
+async function collectSessionExport(id: string) {
   const session = await getSession(id);
-  if (!session) return;
+  if (!session) return null;
   const messagesByModel: Record<string, Message[]> = {};
   const images: Record<string, ImageAsset> = {};
   for (const modelId of session.modelIds) {
     const messages = await getMessages(id, modelId);
     messagesByModel[modelId] = messages;
     for (const message of messages) {
-      for (const imageId of message.imageIds) {
+      const ids = [
+        ...message.imageIds,
+        ...Object.values(message.maskImageIds ?? {}),
+      ];
+      for (const imageId of ids) {
         if (images[imageId]) continue;
         const asset = await getImageAsset(imageId);
         if (asset) images[imageId] = asset;
       }
     }
   }
-  const blob = await exportSessionZip({
+  const models = $models.get();
+  const modelNames = Object.fromEntries(
+    session.modelIds.map((modelId) => [
+      modelId,
+      models.find((model) => model.id === modelId)?.name ?? modelId,
+    ]),
+  );
+  return {
     session,
     messagesByModel,
+    stats: await getStats(id),
     images,
-  });
+    modelNames,
+  };
+}
+
+function downloadBlob(blob: Blob, filename: string) {
   const url = URL.createObjectURL(blob);
   const anchor = document.createElement("a");
   anchor.href = url;
-  anchor.download = `session-${session.id}.zip`;
+  anchor.download = filename;
   anchor.click();
   URL.revokeObjectURL(url);
 }
 
+export async function exportSession(id: string) {
+  const data = await collectSessionExport(id);
+  if (!data) return;
+  const blob = await exportSessionZip(data);
+  downloadBlob(blob, `session-${data.session.id}.zip`);
+}
+
+/** Single self-contained HTML file for sharing outside the app. */
+export async function exportSessionHtml(id: string) {
+  const data = await collectSessionExport(id);
+  if (!data) return;
+  const html = await buildSessionHtmlReport(data);
+  downloadBlob(
+    new Blob([html], { type: "text/html" }),
+    `session-${data.session.id}.html`,
+  );
+}
+
+export async function exportSessionContactSheet(
+  id: string,
+  format: ContactSheetFormat = "png",
+) {
+  const data = await collectSessionExport(id);
+  if (!data) return;
+  try {
+    const blob = await renderContactSheet({ ...data, format });
+    downloadBlob(
+      blob,
+      `session-${data.session.id}-sheet.${format === "jpeg" ? "jpg" : "png"}`,
+    );
+  } catch (error) {
+    addNotification({
+      type: "error",
+      message: `Contact sheet failed: ${(error as Error).message}`,
+    });
+  }
+}
+
+/**
+ * Restores a session ZIP written by exportSession. A session whose id is
+ * already taken gets fresh session and message ids; images are reused when
+ * the same id with the same size already exists, otherwise remapped.
+ */
+export async function importSession(file: File): Promise<string | null> {
+  let archive: Awaited<ReturnType<typeof readSessionZip>>;
+  try {
+    archive = await readSessionZip(file);
+  } catch (error) {
+    addNotification({
+      type: "error",
+      message: `Import failed: ${(error as Error).message}`,
+    });
+    return null;
+  }
+  const { payload, images } = archive;
+
+  const sessionTaken =
+    deletedSessionIds.has(payload.session.id) ||
+    (await getSession(payload.session.id)) !== null;
+  const sessionId = sessionTaken ? createId("session") : payload.session.id;
+
+  const imageIdMap = new Map<string, string>();
+  // Branch copies share image ids, so count each missing image once
+  const missingImageIds = new Set<string>();
+  for (const [imageId, asset] of Object.entries(images)) {
+    const existing = await getImage(imageId);
+    if (existing && existing.blob.size === asset.blob.size) {
+      imageIdMap.set(imageId, imageId);
+      continue;
+    }
+    const nextId = existing ? createId("image") : imageId;
+    await saveImage({ ...asset, id: nextId });
+    imageIdMap.set(imageId, nextId);
+  }
+  const mapImageId = (imageId: string) => {
+    const mapped = imageIdMap.get(imageId);
+    if (!mapped) missingImageIds.add(imageId);
+    return mapped ?? null;
+  };
+
+  const messageIdMap = new Map<string, string>();
+  const mappedMessages: Message[] = payload.messages.map((message) => {
+    const imageIds = message.imageIds
+      .map(mapImageId)
+      .filter((id): id is string => id !== null);
+    const maskImageIds = message.maskImageIds
+      ? Object.fromEntries(
+          Object.entries(message.maskImageIds).flatMap(([imageId, maskId]) => {
+            const mappedImage = imageIdMap.get(imageId);
+            const mappedMask = imageIdMap.get(maskId);
+            return mappedImage && mappedMask ? [[mappedImage, mappedMask]] : [];
+          }),
+        )
+      : undefined;
+    const imageMetrics = message.imageMetrics
+      ? Object.fromEntries(
+          Object.entries(message.imageMetrics).flatMap(([imageId, metrics]) => {
+            const mappedImage = imageIdMap.get(imageId);
+            const mappedReference = imageIdMap.get(metrics.referenceImageId);
+            return mappedImage && mappedReference
+              ? [
+                  [
+                    mappedImage,
+                    { ...metrics, referenceImageId: mappedReference },
+                  ],
+                ]
+              : [];
+          }),
+        )
+      : undefined;
+    const judgedImageId = message.judgement
+      ? imageIdMap.get(message.judgement.imageId)
+      : undefined;
+    const interrupted =
+      message.status === "streaming" || message.status === "queued";
+    const id = sessionTaken ? createId("message") : message.id;
+    messageIdMap.set(message.id, id);
+    return {
+      ...message,
+      id,
+      sessionId,
+      imageIds,
+      maskImageIds,
+      imageMetrics,
+      // A score without its image can't be shown against anything
+      judgement:
+        message.judgement && judgedImageId
+          ? { ...message.judgement, imageId: judgedImageId }
+          : undefined,
+      // Raw stream recordings are not part of the export
+      hasStreamRecording: false,
+      status: interrupted ? "aborted" : message.status,
+    };
+  });
+  // Branch origins point at other messages, so they need every new id first
+  const messages = mappedMessages.map((message) =>
+    message.branchFrom
+      ? {
+          ...message,
+          branchFrom: {
+            ...message.branchFrom,
+            messageId:
+              messageIdMap.get(message.branchFrom.messageId) ??
+              message.branchFrom.messageId,
+          },
+        }
+      : message,
+  );
+
+  const session: Session = {
+    ...payload.session,
+    id: sessionId,
+    // Imported sessions stand on their own; suite links point at local data
+    suiteId: undefined,
+    suiteCaseId: undefined,
+    messageCount: messages.length,
+    updatedAt: Date.now(),
+  };
+  await saveSession(session);
+  await saveMessages(messages);
+  for (const stat of payload.stats) {
+    if (!session.modelIds.includes(stat.modelId)) continue;
+    await saveStats({ ...stat, sessionId });
+  }
+
+  await loadHistory();
+  addNotification({
+    type: missingImageIds.size > 0 ? "warning" : "info",
+    message: `Imported "${session.title || session.id}"${
+      sessionTaken ? " as a copy" : ""
+    }${missingImageIds.size > 0 ? ` (${missingImageIds.size} images missing from the archive)` : ""}.`,
+  });
+  return sessionId;
+}
+
 async function addMessageToModel({
   session,
   modelId,
   role,
   contentText,
   imageIds,
+  maskImageIds,
   status = "complete",
   error,
   runIndex,
+  chainStep,
+  autoIterate,
 }: {
   session: Session;
   modelId: string;
   role: MessageRole;
   contentText: string;
   imageIds: string[];
+  maskImageIds?: Record<string, string>;
   status?: Message["status"];
   error?: string;
   runIndex?: number;
+  chainStep?: MessageChainStep;
+  autoIterate?: MessageAutoIterate;
 }): Promise<Message> {
   const now = Date.now();
   const message: Message = {
@@ -502,31 +809,51 @@ async function addMessageToModel({
     role,
     contentText,
     imageIds,
+    maskImageIds,
     createdAt: now,
     updatedAt: now,
     status,
     error,
     runIndex,
+    chainStep,
+    autoIterate,
   };
   await saveMessage(message);
   // Messages are shown by default; users can hide them with the eye icon
   // Reasoning and thinking blocks are expanded by default to show streaming content
   // Users can collapse them manually if desired
-  const state = $activeSession.get();
-  const list = state.messagesByModel[modelId] ?? [];
-  $activeSession.set({
+  updateSessionState(session.id, (state) => ({
     ...state,
     messagesByModel: {
       ...state.messagesByModel,
-      [modelId]: [...list, message],
+      [modelId]: [...(state.messagesByModel[modelId] ?? []), message],
     },
-  });
-  updateSessionTotals(session, state.statsByModel);
-  persistSessionDebounced(session);
+  }));
+  const target = latestSession(session);
+  updateSessionTotals(target, getSessionState(session.id)?.statsByModel ?? {});
+  persistSessionDebounced(target);
   return message;
 }
 
-async function saveImageFromFile(file: File, size: number): Promise<string> {
+async function saveImageFromFile(
+  file: File,
+  size: number,
+  dimensions?: { width: number; height: number },
+): Promise<string> {
+  // Editor output is already framed at its final size; store it untouched
+  if (dimensions) {
+    const asset: ImageAsset = {
+      id: createId("image"),
+      blob: file,
+      mimeType: file.type || "image/png",
+      width: dimensions.width,
+      height: dimensions.height,
+      bytes: file.size,
+      createdAt: Date.now(),
+    };
+    await saveImage(asset);
+    return asset.id;
+  }
   const loaded = await loadImageFromFile(file);
   const canvas = centerCropSquare(loaded, size);
   const blob = await canvasToBlob(canvas, file.type || "image/png");
@@ -543,6 +870,35 @@ async function saveImageFromFile(file: File, size: number): Promise<string> {
   return asset.id;
 }
 
+async function savePendingImages(input: InputState, size: number) {
+  const imageIds: string[] = [];
+  const maskImageIds: Record<string, string> = {};
+  for (const pending of input.pendingImages) {
+    const dimensions =
+      pending.width && pending.height
+        ? { width: pending.width, height: pending.height }
+        : undefined;
+    const id = await saveImageFromFile(
+      pending.file,
+      pending.size ?? size,
+      dimensions,
+    );
+    imageIds.push(id);
+    if (pending.maskFile) {
+      maskImageIds[id] = await saveImageFromFile(
+        pending.maskFile,
+        pending.size ?? size,
+        dimensions,
+      );
+    }
+  }
+  return {
+    imageIds,
+    maskImageIds:
+      Object.keys(maskImageIds).length > 0 ? maskImageIds : undefined,
+  };
+}
+
 export async function pushMessageToAll(input: InputState, size = 512) {
   const session = $activeSession.get().session;
   const settings = $settings.get();
@@ -558,11 +914,7 @@ export async function pushMessageToAll(input: InputState, size = 512) {
 
   if (targetModelIds.length === 0) return;
 
-  const imageIds: string[] = [];
-  for (const pending of input.pendingImages) {
-    const id = await saveImageFromFile(pending.file, pending.size ?? size);
-    imageIds.push(id);
-  }
+  const { imageIds, maskImageIds } = await savePendingImages(input, size);
   await Promise.all(
     targetModelIds.map((modelId) =>
       addMessageToModel({
@@ -571,12 +923,27 @@ export async function pushMessageToAll(input: InputState, size = 512) {
         role: input.role,
         contentText: input.text,
         imageIds,
+        maskImageIds,
       }),
     ),
   );
 }
 
-export async function sendMessageToAll(input: InputState, size = 512) {
+function isSendOverBudget(session: Session, estimateUsd: number) {
+  const breach = getBudgetBreach(session, estimateUsd);
+  if (!breach) return false;
+  addNotification({
+    type: "error",
+    message: `Send blocked: the estimated $${estimateUsd.toFixed(4)} would exceed the ${breach.message.charAt(0).toLowerCase()}${breach.message.slice(1)}.`,
+  });
+  return true;
+}
+
+export async function sendMessageToAll(
+  input: InputState,
+  size = 512,
+  autoIterate?: AutoIterateSettings,
+) {
   const session = $activeSession.get().session;
   const settings = $settings.get();
   const uiState = $uiState.get();
@@ -590,13 +957,23 @@ export async function sendMessageToAll(input: InputState, size = 512) {
       : settings.selectedModelIds;
 
   if (targetModelIds.length === 0) return;
-
-  const imageIds: string[] = [];
-  for (const pending of input.pendingImages) {
-    const id = await saveImageFromFile(pending.file, pending.size ?? size);
-    imageIds.push(id);
-  }
   const multiplier = input.multiplier ?? 1;
+  if (
+    isSendOverBudget(
+      session,
+      estimateSendCost({
+        modelIds: targetModelIds,
+        messagesByModel: $activeSession.get().messagesByModel,
+        text: input.text,
+        imageCount: input.pendingImages.length,
+        multiplier,
+      }).total,
+    )
+  ) {
+    return;
+  }
+
+  const { imageIds, maskImageIds } = await savePendingImages(input, size);
 
   // Ensure system messages exist for each run BEFORE creating user messages
   // This ensures system messages appear first and have earlier timestamps
@@ -618,6 +995,7 @@ export async function sendMessageToAll(input: InputState, size = 512) {
           role: input.role,
           contentText: input.text,
           imageIds,
+          maskImageIds,
           runIndex: index + 1, // Each run gets its own copy
         }),
       ),
@@ -626,24 +1004,358 @@ export async function sendMessageToAll(input: InputState, size = 512) {
 
   await Promise.all(
     targetModelIds.flatMap((modelId) =>
-      Array.from({ length: multiplier }, (_, index) =>
-        requestCompletionForModel(
+      Array.from({ length: multiplier }, async (_, index) => {
+        await requestCompletionForModel(
           session,
           modelId,
           index + 1, // Always assign runIndex (1, 2, 3, etc.) for consistency
-        ),
-      ),
+        );
+        if (autoIterate?.enabled) {
+          await iterateRun(
+            session,
+            modelId,
+            index + 1,
+            input.text,
+            autoIterate,
+          );
+        }
+      }),
     ),
   );
 }
 
+function latestAssistantInRun(
+  sessionId: string,
+  modelId: string,
+  runIndex: number,
+) {
+  return (getSessionState(sessionId)?.messagesByModel[modelId] ?? [])
+    .filter(
+      (message) =>
+        message.role === "assistant" && message.runIndex === runIndex,
+    )
+    .pop();
+}
+
+/**
+ * Auto-iterate: keeps feeding a run's latest output image back to the same
+ * model as a new user turn, with either a fixed instruction or a judge
+ * model's critique, until maxRounds follow-ups were sent, the run's spend
+ * (answers plus critiques) reaches the budget, an answer has no image, or
+ * the judge says the edit is done.
+ */
+async function iterateRun(
+  session: Session,
+  modelId: string,
+  runIndex: number,
+  prompt: string,
+  options: AutoIterateSettings,
+) {
+  let spent = 0;
+  for (let round = 1; round <= options.maxRounds; round++) {
+    const latest = latestAssistantInRun(session.id, modelId, runIndex);
+    const imageId = latest?.imageIds[latest.imageIds.length - 1];
+    if (!latest || latest.status !== "complete" || !imageId) return;
+    spent += latest.usage?.cost ?? 0;
+    if (options.budgetUsd !== null && spent >= options.budgetUsd) {
+      addNotification({
+        type: "info",
+        message: `Auto-iterate for ${modelId} stopped after ${round - 1} rounds: budget of $${options.budgetUsd.toFixed(2)} reached.`,
+      });
+      return;
+    }
+
+    let text = options.instruction.trim();
+    let judgeCost: number | undefined;
+    if (options.source === "judge") {
+      const asset = await getImageAsset(imageId);
+      if (!asset) return;
+      try {
+        const critique = await requestCritique({
+          backend: getCompletionBackendForModel(
+            $settings.get(),
+            options.judgeModelId,
+          ),
+          modelId: options.judgeModelId,
+          prompt,
+          imageUrl: await blobToDataUrl(asset.blob),
+        });
+        judgeCost =
+          resolveCostUsd({
+            sessionId: session.id,
+            modelId: options.judgeModelId,
+            usageCost: critique.usage.cost,
+            promptTokens: critique.usage.promptTokens,
+            completionTokens: critique.usage.completionTokens,
+            outputImages: 0,
+          }) ?? undefined;
+        spent += judgeCost ?? 0;
+        await recordUsage({
+          id: critiqueUsageId(latest.id),
+          kind: "critique",
+          sessionId: session.id,
+          messageId: latest.id,
+          modelId: options.judgeModelId,
+          createdAt: Date.now(),
+          promptTokens: critique.usage.promptTokens,
+          completionTokens: critique.usage.completionTokens,
+          outputImages: 0,
+          cost: judgeCost,
+        });
+        if (critique.instruction === null) {
+          addNotification({
+            type: "info",
+            message: `Auto-iterate for ${modelId} finished after ${round - 1} rounds: the judge found nothing left to fix.`,
+          });
+          return;
+        }
+        text = critique.instruction;
+      } catch (error) {
+        addNotification({
+          type: "error",
+          message: `Auto-iterate critique failed: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+        });
+        return;
+      }
+    }
+    if (!text) return;
+    if (!getSessionState(session.id)) return; // Session closed meanwhile
+
+    await addMessageToModel({
+      session,
+      modelId,
+      role: "user",
+      contentText: text,
+      imageIds: [imageId],
+      runIndex,
+      autoIterate: {
+        round,
+        source: options.source,
+        judgeModelId:
+          options.source === "judge" ? options.judgeModelId : undefined,
+        judgeCost,
+      },
+    });
+    await requestCompletionForModel(session, modelId, runIndex);
+  }
+}
+
+/**
+ * Chain mode: runs the target models one after another, each in a fresh run
+ * of its column. Step 1 gets the input images; every later step gets the
+ * last image the previous step produced (as stored by
+ * resolveAndStoreMessageImages) and its own prompt template. The chain stops
+ * at the first step that fails or returns no image.
+ */
+export async function sendChain(input: InputState, size = 512) {
+  const session = $activeSession.get().session;
+  const settings = $settings.get();
+  const uiState = $uiState.get();
+  if (!session || settings.selectedModelIds.length === 0) return;
+  if (!input.text.trim() && input.pendingImages.length === 0) return;
+
+  const targetModelIds =
+    uiState.soloModelIds.size > 0
+      ? settings.selectedModelIds.filter((id) => uiState.soloModelIds.has(id))
+      : settings.selectedModelIds;
+  if (targetModelIds.length === 0) return;
+  // Every step starts a fresh run with a single input image
+  const estimate = estimateSendCost({
+    modelIds: targetModelIds,
+    messagesByModel: {},
+    text: input.text,
+    imageCount: Math.max(1, input.pendingImages.length),
+    multiplier: 1,
+  });
+  if (isSendOverBudget(session, estimate.total)) return;
+
+  const first = await savePendingImages(input, size);
+  const chainId = createId("chain");
+  let imageIds = first.imageIds;
+  let maskImageIds = first.maskImageIds;
+  let previousText = "";
+
+  for (const [index, modelId] of targetModelIds.entries()) {
+    const step = index + 1;
+    const state = getSessionState(session.id);
+    if (!state) return; // Session was closed or deleted mid-chain
+    const existing = state.messagesByModel[modelId] ?? [];
+    const runIndex = existing.length > 0 ? getMaxRunIndex(existing) + 1 : 1;
+
+    await ensureDefaultSystemMessage(session, modelId, runIndex);
+    await addMessageToModel({
+      session,
+      modelId,
+      role: input.role,
+      contentText: renderChainTemplate(
+        (state.session ?? session).chainTemplates?.[modelId],
+        { prompt: input.text, previous: previousText, step },
+      ),
+      imageIds,
+      maskImageIds,
+      runIndex,
+      chainStep: { chainId, step },
+    });
+    await requestCompletionForModel(session, modelId, runIndex);
+
+    if (step === targetModelIds.length) break;
+    const response = (
+      getSessionState(session.id)?.messagesByModel[modelId] ?? []
+    )
+      .filter(
+        (message) =>
+          message.role === "assistant" && message.runIndex === runIndex,
+      )
+      .pop();
+    const outputImageId = response?.imageIds[response.imageIds.length - 1];
+    if (!response || response.status !== "complete" || !outputImageId) {
+      addNotification({
+        type: "warning",
+        message: `Chain stopped at step ${step} (${modelId}): ${
+          !response
+            ? "no response"
+            : response.status !== "complete"
+              ? (response.error ?? `response ${response.status}`)
+              : "no image returned"
+        }.`,
+      });
+      return;
+    }
+    imageIds = [outputImageId];
+    maskImageIds = undefined;
+    previousText = response.contentText;
+  }
+}
+
+export async function setSessionMode(mode: SessionMode) {
+  const state = $activeSession.get();
+  const session = state.session;
+  if (!session) return;
+  const updatedSession = { ...session, mode };
+  $activeSession.set({ ...state, session: updatedSession });
+  persistSessionDebounced(updatedSession);
+}
+
+export async function setChainTemplate(modelId: string, template: string) {
+  const state = $activeSession.get();
+  const session = state.session;
+  if (!session) return;
+  const updatedSession = {
+    ...session,
+    chainTemplates: { ...session.chainTemplates, [modelId]: template },
+  };
+  $activeSession.set({ ...state, session: updatedSession });
+  persistSessionDebounced(updatedSession);
+}
+
+/**
+ * Creates a session that runs without being shown in the session view
+ * (benchmark suites). Its state lives outside $activeSession until it is
+ * released; opening it in the session view loads it from IndexedDB as usual.
+ */
+export async function createBackgroundSession({
+  modelIds,
+  title,
+  suiteId,
+  suiteCaseId,
+}: {
+  modelIds: string[];
+  title?: string;
+  suiteId?: string;
+  suiteCaseId?: string;
+}): Promise<Session> {
+  const session: Session = {
+    ...createEmptySession(modelIds),
+    title,
+    suiteId,
+    suiteCaseId,
+    // Persist right away so failed runs still show up in results
+    hasExecuted: true,
+    firstExecutedAt: Date.now(),
+  };
+  const statsByModel = Object.fromEntries(
+    modelIds.map((modelId) => [
+      modelId,
+      {
+        sessionId: session.id,
+        modelId,
+        inputTokens: 0,
+        outputTokens: 0,
+        totalCost: 0,
+      } satisfies SessionStats,
+    ]),
+  );
+  backgroundSessions.set(session.id, {
+    session,
+    messagesByModel: {},
+    statsByModel,
+    streamingByModel: {},
+    errorsByModel: {},
+  });
+  await Promise.all(Object.values(statsByModel).map((stat) => saveStats(stat)));
+  await saveSession(session);
+  return session;
+}
+
+export function releaseBackgroundSession(sessionId: string) {
+  backgroundSessions.delete(sessionId);
+}
+
+/**
+ * Sends one user turn to a single model of a session and resolves once the
+ * assistant message is final. Same semantics as sendMessageToAll for a
+ * single run, but works for sessions that aren't active.
+ */
+export async function sendPromptToModel(
+  sessionId: string,
+  modelId: string,
+  input: { text: string; imageIds: string[] },
+): Promise<Message | null> {
+  const session =
+    getSessionState(sessionId)?.session ?? (await getSession(sessionId));
+  if (!session) return null;
+  await ensureDefaultSystemMessage(session, modelId, 1);
+  await addMessageToModel({
+    session,
+    modelId,
+    role: "user",
+    contentText: input.text,
+    imageIds: input.imageIds,
+    runIndex: 1,
+  });
+  await requestCompletionForModel(session, modelId, 1);
+  const messages = await getMessages(sessionId, modelId);
+  return (
+    messages.filter((message) => message.role === "assistant").pop() ?? null
+  );
+}
+
 async function requestCompletionForModel(
   session: Session,
   modelId: string,
   runIndex?: number,
 ) {
   const settings = $settings.get();
-  if (!settings.apiKey) return;
+  const backend = getCompletionBackendForModel(settings, modelId);
+  if (!backend.isConfigured) {
+    addNotification({
+      type: "warning",
+      message: `${backend.config.name} is not configured: request to ${modelId} not sent.`,
+    });
+    return;
+  }
+  const breach = getBudgetBreach(
+    getSessionState(session.id)?.session ?? session,
+  );
+  if (breach) {
+    addNotification({
+      type: "warning",
+      message: `${breach.message} reached: request to ${modelId} not sent.`,
+    });
+    return;
+  }
 
   // Ensure system message exists for this run
   await ensureDefaultSystemMessage(session, modelId, runIndex);
@@ -659,21 +1371,18 @@ async function requestCompletionForModel(
     role: "assistant",
     contentText: "",
     imageIds: [],
-    status: "streaming",
+    status: "queued",
     runIndex,
   });
   const controller = new AbortController();
   // Use composite key for per-run abort controllers
-  const controllerKey = `${modelId}-${runIndex}`;
+  const controllerKey = streamControllerKey(session.id, modelId, runIndex);
   streamControllers.set(controllerKey, controller);
-  {
-    const next = $activeSession.get();
-    $activeSession.set({
-      ...next,
-      streamingByModel: { ...next.streamingByModel, [modelId]: true },
-      errorsByModel: { ...next.errorsByModel, [modelId]: null },
-    });
-  }
+  updateSessionState(session.id, (next) => ({
+    ...next,
+    streamingByModel: { ...next.streamingByModel, [modelId]: true },
+    errorsByModel: { ...next.errorsByModel, [modelId]: null },
+  }));
   await ensureStatsForModel(session.id, modelId);
   const parameterOverrides = settings.perModelParameters[modelId] ?? {};
   const normalizedOverrides: Record<string, unknown> = {};
@@ -730,7 +1439,8 @@ async function requestCompletionForModel(
   const streamReasoning = streamReasoningSet
     ? (matchingDefault?.streamReasoning ?? true)
     : true; // Default to true if not set
-  const captureReasoningTraces = !(streamReasoningSet && !streamReasoning);
+  const { captureReasoningTraces, keepOnlyLastImage } =
+    resolveCaptureOptions(modelId);
   const reasoningEffort = matchingDefault?.reasoningEffort; // May be undefined
   const reasoningEffortSet = matchingDefault?.reasoningEffortSet ?? false;
   const defaultTemperature = matchingDefault?.temperature; // May be undefined
@@ -741,6 +1451,10 @@ async function requestCompletionForModel(
   const imageAspectRatioSet = matchingDefault?.imageAspectRatioSet ?? false;
   const imageSize = matchingDefault?.imageSize;
   const imageSizeSet = matchingDefault?.imageSizeSet ?? false;
+  const retryPolicy =
+    matchingDefault?.retryPolicySet && matchingDefault.retryPolicy
+      ? matchingDefault.retryPolicy
+      : DEFAULT_RETRY_POLICY;
 
   // Build payload - exclude unsupported parameters for image-only models
   const payload: Record<string, unknown> = {
@@ -830,7 +1544,19 @@ async function requestCompletionForModel(
     }
   }
 
-  // Add any other custom parameters from overrides (but exclude the ones we already handled)
+  // OpenRouter routing from the retry policy: it moves on to the next model
+  // or provider itself when one fails (other backends strip these fields)
+  if (retryPolicy.fallbackModels?.length) {
+    payload.models = [modelId, ...retryPolicy.fallbackModels];
+  }
+  if (retryPolicy.providerOrder?.length) {
+    payload.provider = {
+      order: retryPolicy.providerOrder,
+      allow_fallbacks: true,
+    };
+  }
+
+  // Add any other custom parameters from overrides (but exclude the ones we already handled)
   Object.entries(normalizedOverrides).forEach(([key, value]) => {
     if (
       key !== "overrideTemperature" &&
@@ -882,18 +1608,33 @@ async function requestCompletionForModel(
     completion_tokens?: number;
     cost?: number;
   } = {};
-  let requestId: string | null = null;
   let sawOutput = false;
   let abortForFallback = false;
   let fallbackRan = false;
-  let costFromStream = false;
+  let finishReason: string | null = null;
+  // Set by onError; the parser keeps reading and still calls onDone after it
+  let streamError: Error | null = null;
   const pendingAttachments: OpenRouterAttachment[] = [];
   const pendingImageUrls: string[] = [];
   let lastReceivedImageUrl: string | null = null;
-
-  const keepOnlyLastImage = Boolean(
-    matchingDefault?.keepOnlyLastImageSet && matchingDefault.keepOnlyLastImage,
-  );
+  const recorder = createStreamRecorder();
+  // Finished answers still fail when image output was asked for and none came
+  const completedErrorKind = () =>
+    modalities.includes("image") && assistantMessage.imageIds.length === 0
+      ? classifyMissingImage(assistantMessage.contentText, finishReason)
+      : assistantMessage.error
+        ? classifyError(assistantMessage.error)
+        : undefined;
+  // The parser doesn't await handlers; keep their promises so the caller can
+  // wait until the message and stats are final
+  const handlerWork: Promise<void>[] = [];
+  const track =
+    <A extends unknown[]>(handler: (...args: A) => Promise<void>) =>
+    (...args: A) => {
+      const work = handler(...args);
+      handlerWork.push(work);
+      return work;
+    };
 
   const applyAssistantUpdate = async () => {
     // Create a fresh copy to ensure reactivity, preserving all fields including runIndex
@@ -903,18 +1644,19 @@ async function requestCompletionForModel(
       runIndex: assistantMessage.runIndex, // Explicitly preserve runIndex
     };
     await saveMessage(messageCopy);
-    const current = $activeSession.get();
-    const list = current.messagesByModel[modelId] ?? [];
-    const messageIndex = list.findIndex(
-      (msg) => msg.id === assistantMessage.id,
-    );
-    const updatedList =
-      messageIndex >= 0
-        ? list.map((msg, idx) => (idx === messageIndex ? messageCopy : msg))
-        : [...list, messageCopy];
-    $activeSession.set({
-      ...current,
-      messagesByModel: { ...current.messagesByModel, [modelId]: updatedList },
+    updateSessionState(session.id, (current) => {
+      const list = current.messagesByModel[modelId] ?? [];
+      const messageIndex = list.findIndex(
+        (msg) => msg.id === assistantMessage.id,
+      );
+      const updatedList =
+        messageIndex >= 0
+          ? list.map((msg, idx) => (idx === messageIndex ? messageCopy : msg))
+          : [...list, messageCopy];
+      return {
+        ...current,
+        messagesByModel: { ...current.messagesByModel, [modelId]: updatedList },
+      };
     });
     if (import.meta.env.DEV) {
       console.debug(
@@ -931,20 +1673,20 @@ async function requestCompletionForModel(
   };
 
   const finalizeWithStats = async () => {
-    const current = $activeSession.get();
-    const list = current.messagesByModel[modelId] ?? [];
-    const updatedList = list.some((msg) => msg.id === assistantMessage.id)
-      ? list.map((msg) =>
-          msg.id === assistantMessage.id ? assistantMessage : msg,
-        )
-      : [...list, assistantMessage];
-    const stats = current.statsByModel[modelId] ?? {
-      sessionId: session.id,
-      modelId,
-      inputTokens: 0,
-      outputTokens: 0,
-      totalCost: 0,
-    };
+    const current = getSessionState(session.id);
+    // The session may have been switched away from mid-stream; fall back to
+    // the persisted stats so totals stay correct
+    const persistedStats = current
+      ? null
+      : await getStats(session.id).catch(() => [] as SessionStats[]);
+    const stats = current?.statsByModel[modelId] ??
+      persistedStats?.find((item) => item.modelId === modelId) ?? {
+        sessionId: session.id,
+        modelId,
+        inputTokens: 0,
+        outputTokens: 0,
+        totalCost: 0,
+      };
 
     const promptTokens = usage.prompt_tokens ?? 0;
     const completionTokens = usage.completion_tokens ?? 0;
@@ -956,6 +1698,31 @@ async function requestCompletionForModel(
       completionTokens,
       outputImages: assistantMessage.imageIds.length,
     });
+    assistantMessage.usage = {
+      promptTokens,
+      completionTokens,
+      cost: calculatedCost ?? undefined,
+      costSource:
+        typeof usage.cost === "number" && Number.isFinite(usage.cost)
+          ? "reported"
+          : calculatedCost !== null
+            ? "estimated"
+            : undefined,
+    };
+    await saveMessage({ ...assistantMessage });
+    await recordUsage({
+      id: assistantMessage.id,
+      kind: "completion",
+      sessionId: session.id,
+      messageId: assistantMessage.id,
+      modelId,
+      createdAt: assistantMessage.completedAt ?? Date.now(),
+      promptTokens,
+      completionTokens,
+      outputImages: assistantMessage.imageIds.length,
+      cost: assistantMessage.usage.cost,
+      costSource: assistantMessage.usage.costSource,
+    });
 
     const nextStats: SessionStats = {
       ...stats,
@@ -965,38 +1732,72 @@ async function requestCompletionForModel(
     };
     await saveStats(nextStats);
     // Check if any other runs are still streaming for this model
-    const stillStreaming = Array.from(streamControllers.keys()).some((key) =>
-      key.startsWith(`${modelId}-`),
-    );
-    const nextState: ActiveSessionState = {
-      ...current,
-      messagesByModel: { ...current.messagesByModel, [modelId]: updatedList },
-      statsByModel: { ...current.statsByModel, [modelId]: nextStats },
-      streamingByModel: {
-        ...current.streamingByModel,
-        [modelId]: stillStreaming,
-      },
-    };
-    updateSessionTotals(session, nextState.statsByModel);
-    if (!session.hasExecuted) {
-      session.hasExecuted = true;
-      session.firstExecutedAt = session.firstExecutedAt ?? Date.now();
+    const stillStreaming = isModelStreaming(session.id, modelId);
+    updateSessionState(session.id, (state) => {
+      const list = state.messagesByModel[modelId] ?? [];
+      const updatedList = list.some((msg) => msg.id === assistantMessage.id)
+        ? list.map((msg) =>
+            msg.id === assistantMessage.id ? assistantMessage : msg,
+          )
+        : [...list, assistantMessage];
+      return {
+        ...state,
+        messagesByModel: { ...state.messagesByModel, [modelId]: updatedList },
+        statsByModel: { ...state.statsByModel, [modelId]: nextStats },
+        streamingByModel: {
+          ...state.streamingByModel,
+          [modelId]: stillStreaming,
+        },
+      };
+    });
+    // Merge into the session as it is now, not the copy captured at the start
+    const liveState = getSessionState(session.id);
+    const target = liveState
+      ? latestSession(session)
+      : ((await getSession(session.id).catch(() => undefined)) ?? session);
+    updateSessionTotals(target, {
+      ...(liveState?.statsByModel ??
+        Object.fromEntries(
+          (persistedStats ?? []).map((item) => [item.modelId, item]),
+        )),
+      [modelId]: nextStats,
+    });
+    if (!target.hasExecuted) {
+      target.hasExecuted = true;
+      target.firstExecutedAt = target.firstExecutedAt ?? Date.now();
     }
-    $activeSession.set(nextState);
     if (!deletedSessionIds.has(session.id)) {
-      await saveSession(session);
+      await saveSession(target);
+    }
+    upsertHistorySession(target);
+    enforceBudgetCaps(target);
+    if (assistantMessage.generationId) {
+      void reconcileMessageCosts(session.id, {
+        messageIds: [assistantMessage.id],
+        afterCompletion: true,
+      });
+    }
+    if (
+      assistantMessage.status === "complete" &&
+      assistantMessage.imageIds.length > 0
+    ) {
+      void computeMessageMetrics(session.id, modelId, assistantMessage.id);
+      if ($settings.get().judge?.autoScore) {
+        void judgeMessage(session.id, modelId, assistantMessage.id);
+      }
     }
-    upsertHistorySession(session);
   };
 
   const runFallback = async () => {
     if (fallbackRan) return;
     fallbackRan = true;
     try {
-      const result = await requestCompletionFull({
-        apiKey: settings.apiKey,
+      const result = await backend.requestCompletionFull({
         payload: payload as OpenRouterCompletionRequest,
       });
+      if (result.id && backend.supportsGenerationLookup) {
+        assistantMessage.generationId = result.id;
+      }
       if (result.usage) {
         const normalized = {
           prompt_tokens: result.usage.prompt_tokens,
@@ -1009,15 +1810,6 @@ async function requestCompletionForModel(
             normalized.completion_tokens ?? usage.completion_tokens,
           cost: normalized.cost ?? usage.cost,
         };
-        const resolvedCost = resolveCostUsd({
-          sessionId: session.id,
-          modelId,
-          usageCost: usage.cost,
-          promptTokens: usage.prompt_tokens ?? 0,
-          completionTokens: usage.completion_tokens ?? 0,
-          outputImages: assistantMessage.imageIds.length,
-        });
-        usage.cost = resolvedCost === null ? undefined : resolvedCost;
       }
       // Always set contentText, even if empty string
       assistantMessage.contentText = result.content.text ?? "";
@@ -1079,7 +1871,15 @@ async function requestCompletionForModel(
       if (!assistantMessage.firstTokenAt) {
         assistantMessage.firstTokenAt = Date.now();
       }
+      if (
+        !assistantMessage.firstImageAt &&
+        (result.content.imageUrls.length > 0 ||
+          (result.attachments?.length ?? 0) > 0)
+      ) {
+        assistantMessage.firstImageAt = Date.now();
+      }
       assistantMessage.status = "complete";
+      assistantMessage.errorKind = completedErrorKind();
       assistantMessage.completedAt = Date.now();
       assistantMessage.updatedAt = Date.now();
       await applyAssistantUpdate();
@@ -1088,14 +1888,12 @@ async function requestCompletionForModel(
       assistantMessage.status = "error";
       assistantMessage.completedAt = Date.now();
       assistantMessage.error = (error as Error).message;
+      assistantMessage.errorKind = classifyError(assistantMessage.error);
       assistantMessage.updatedAt = Date.now();
       await applyAssistantUpdate();
-      const current = $activeSession.get();
       // Check if any other runs are still streaming for this model
-      const stillStreaming = Array.from(streamControllers.keys()).some((key) =>
-        key.startsWith(`${modelId}-`),
-      );
-      $activeSession.set({
+      const stillStreaming = isModelStreaming(session.id, modelId);
+      updateSessionState(session.id, (current) => ({
         ...current,
         streamingByModel: {
           ...current.streamingByModel,
@@ -1105,24 +1903,63 @@ async function requestCompletionForModel(
           ...current.errorsByModel,
           [modelId]: (error as Error).message,
         },
-      });
+      }));
     }
   };
 
-  const fallbackTimeout = window.setTimeout(() => {
-    if (sawOutput || fallbackRan) return;
-    abortForFallback = true;
-    try {
-      controller.abort();
-    } finally {
-      void runFallback();
-    }
-  }, 45000);
+  let releaseSlot: () => void;
+  try {
+    releaseSlot = await acquireRequestSlot(
+      {
+        sessionId: session.id,
+        modelId,
+        runIndex,
+        providerId: backend.config.id,
+      },
+      controller.signal,
+    );
+  } catch (error) {
+    streamControllers.delete(controllerKey);
+    assistantMessage.status = "aborted";
+    assistantMessage.error = (error as Error).message;
+    assistantMessage.errorKind = "aborted";
+    assistantMessage.completedAt = Date.now();
+    assistantMessage.updatedAt = Date.now();
+    await applyAssistantUpdate();
+    const stillStreaming = isModelStreaming(session.id, modelId);
+    updateSessionState(session.id, (current) => ({
+      ...current,
+      streamingByModel: {
+        ...current.streamingByModel,
+        [modelId]: stillStreaming,
+      },
+    }));
+    return;
+  }
+  // Latency is measured from the actual send, not from when it was queued
+  assistantMessage.status = "streaming";
+  assistantMessage.createdAt = Date.now();
+  assistantMessage.updatedAt = assistantMessage.createdAt;
+  await applyAssistantUpdate();
+
+  const startFallbackTimer = () =>
+    window.setTimeout(() => {
+      if (sawOutput || fallbackRan) return;
+      abortForFallback = true;
+      try {
+        controller.abort();
+      } finally {
+        handlerWork.push(runFallback());
+      }
+    }, 45000);
+  let fallbackTimeout = startFallbackTimer();
   try {
-    await streamCompletion({
-      apiKey: settings.apiKey,
+    const streamOptions: Parameters<typeof backend.streamCompletion>[0] = {
       payload: payload as OpenRouterCompletionRequest,
       signal: controller.signal,
+      // Re-sends are governed by the retry policy below
+      retries: 0,
+      onRawChunk: (chunk) => recorder.push(chunk),
       onToken: async (token) => {
         sawOutput = true;
         if (!assistantMessage.firstTokenAt) {
@@ -1200,11 +2037,13 @@ async function requestCompletionForModel(
         }
 
         if (
-          !assistantMessage.firstTokenAt &&
+          (!assistantMessage.firstTokenAt || !assistantMessage.firstImageAt) &&
           (message.imageUrls.length > 0 ||
             (message.attachments?.length ?? 0) > 0)
         ) {
-          assistantMessage.firstTokenAt = Date.now();
+          assistantMessage.firstTokenAt =
+            assistantMessage.firstTokenAt ?? Date.now();
+          assistantMessage.firstImageAt = Date.now();
           assistantMessage.updatedAt = Date.now();
           await applyAssistantUpdate();
         }
@@ -1245,33 +2084,36 @@ async function requestCompletionForModel(
             normalized.completion_tokens ?? usage.completion_tokens,
           cost: hasCost ? normalized.cost : usage.cost,
         };
-        if (hasCost) {
-          costFromStream = true;
-        }
+      },
+      onFinishReason: (reason) => {
+        finishReason = reason;
       },
       onRequestId: (id: string) => {
-        requestId = id;
+        if (backend.supportsGenerationLookup) {
+          assistantMessage.generationId = id;
+        }
         if (import.meta.env.DEV) {
           console.debug(`[Session] Received request ID for ${modelId}:`, id);
         }
       },
-      onError: async (error) => {
+      onError: track(async (error: Error) => {
         if (import.meta.env.DEV) {
           console.error(`[Session] Stream error for ${modelId}:`, error);
         }
         if (abortForFallback) return;
+        streamError = error;
         assistantMessage.status = "error";
         assistantMessage.completedAt = Date.now();
         assistantMessage.error = error.message;
+        assistantMessage.errorKind = classifyError(error.message);
         assistantMessage.updatedAt = Date.now();
         await applyAssistantUpdate();
-        const current = $activeSession.get();
-        $activeSession.set({
+        updateSessionState(session.id, (current) => ({
           ...current,
           errorsByModel: { ...current.errorsByModel, [modelId]: error.message },
-        });
-      },
-      onDone: async () => {
+        }));
+      }),
+      onDone: track(async () => {
         window.clearTimeout(fallbackTimeout);
         if (import.meta.env.DEV) {
           console.debug(`[Session] Stream done for ${modelId}`, {
@@ -1317,97 +2159,6 @@ async function requestCompletionForModel(
         const hasImages = assistantMessage.imageIds.length > 0;
         const hasAttachments = pendingAttachments.length > 0;
 
-        // If cost is still missing and we have a request ID, query the generation endpoint
-        if (
-          !usage.cost &&
-          requestId &&
-          settings.apiKey &&
-          (usage.prompt_tokens || usage.completion_tokens)
-        ) {
-          if (import.meta.env.DEV) {
-            console.debug(
-              `[Session] Querying generation endpoint for ${modelId} (request ID: ${requestId})`,
-            );
-          }
-          try {
-            const generationUsage = await fetchGenerationCost(
-              settings.apiKey,
-              requestId,
-            );
-            if (generationUsage?.cost !== undefined) {
-              usage.cost = generationUsage.cost;
-              if (import.meta.env.DEV) {
-                console.debug(
-                  `[Session] ✓ Retrieved cost ($${generationUsage.cost}) from generation endpoint for ${modelId}`,
-                );
-              }
-            }
-          } catch (error) {
-            if (import.meta.env.DEV) {
-              console.warn(
-                `[Session] Failed to query generation endpoint for ${modelId}:`,
-                error,
-              );
-            }
-          }
-        }
-
-        // Verify cost estimation against OpenRouter's post-stream usage report
-        // Only verify if cost came from stream (not fetched from generation endpoint)
-        if (
-          requestId &&
-          settings.apiKey &&
-          costFromStream &&
-          usage.cost !== undefined &&
-          usage.cost !== null &&
-          (usage.prompt_tokens || usage.completion_tokens)
-        ) {
-          try {
-            const generationUsage = await fetchGenerationCost(
-              settings.apiKey,
-              requestId,
-              true, // Enable retry on 404
-            );
-            if (generationUsage?.cost !== undefined) {
-              const streamCost = usage.cost;
-              const verifiedCost = generationUsage.cost;
-              const costDifference = Math.abs(streamCost - verifiedCost);
-              const tolerance = 0.000001; // Allow tiny floating point differences
-
-              if (costDifference > tolerance) {
-                // Costs don't match - show error
-                const models = $models.get();
-                const modelInfo = models.find((m) => m.id === modelId);
-                const modelName = modelInfo?.name ?? modelId;
-                showVerificationDialog({
-                  type: "error",
-                  title: "Cost Verification Failed",
-                  message: `Cost estimation mismatch for ${modelName}:\n\nStream cost: $${streamCost.toFixed(6)}\nVerified cost: $${verifiedCost.toFixed(6)}\nDifference: $${costDifference.toFixed(6)}\n\nPlease verify against OpenRouter dashboard.`,
-                  modelId,
-                });
-              } else {
-                // Costs match - show success
-                const models = $models.get();
-                const modelInfo = models.find((m) => m.id === modelId);
-                const modelName = modelInfo?.name ?? modelId;
-                showVerificationDialog({
-                  type: "success",
-                  title: "Cost Verification Successful",
-                  message: `Cost estimation for ${modelName} verified against OpenRouter's post-stream usage report.\n\nCost: $${verifiedCost.toFixed(6)}`,
-                  modelId,
-                });
-              }
-            }
-          } catch (error) {
-            if (import.meta.env.DEV) {
-              console.warn(
-                `[Session] Failed to verify cost from generation endpoint for ${modelId}:`,
-                error,
-              );
-            }
-          }
-        }
-
         // Update sawOutput to include images resolved at stream end
         // CRITICAL: Reasoning/thinking counts as output even if no images/text
         sawOutput =
@@ -1437,6 +2188,15 @@ async function requestCompletionForModel(
           });
         }
 
+        // The provider reported a failure: keep the error status and kind,
+        // and don't bill a second request through the fallback
+        if (streamError) {
+          // Nothing shown yet: the retry loop re-sends or fails the answer
+          if (!sawOutput) return;
+          await finalizeWithStats();
+          return;
+        }
+
         if (!sawOutput) {
           if (import.meta.env.DEV) {
             console.warn(
@@ -1455,10 +2215,49 @@ async function requestCompletionForModel(
           return;
         }
         assistantMessage.status = "complete";
+        assistantMessage.errorKind = completedErrorKind();
         assistantMessage.completedAt = Date.now();
         assistantMessage.updatedAt = Date.now();
         await applyAssistantUpdate();
         await finalizeWithStats();
+      }),
+    };
+    await runWithRetries({
+      policy: retryPolicy,
+      signal: controller.signal,
+      // Never re-send once output has reached the column
+      canRetry: () => !sawOutput,
+      run: async (attempt) => {
+        // The no-output fallback timer restarts with each attempt
+        if (attempt > 1) fallbackTimeout = startFallbackTimer();
+        // Only the final attempt's bytes are kept for replay
+        recorder.reset();
+        await backend.streamCompletion(streamOptions);
+        // Provider errors sent in the stream body go through the policy too
+        if (streamError && !sawOutput) throw streamError;
+      },
+      onAttempt: async (attempt) => {
+        // A first try that went through needs no record
+        if (!attempt.error && attempt.attempt === 1) return;
+        if (attempt.delayMs !== undefined) {
+          window.clearTimeout(fallbackTimeout);
+          // Undo what onError marked on the failed attempt
+          streamError = null;
+          assistantMessage.status = "streaming";
+          assistantMessage.error = undefined;
+          assistantMessage.errorKind = undefined;
+          assistantMessage.completedAt = undefined;
+          updateSessionState(session.id, (current) => ({
+            ...current,
+            errorsByModel: { ...current.errorsByModel, [modelId]: null },
+          }));
+        }
+        assistantMessage.attempts = [
+          ...(assistantMessage.attempts ?? []),
+          attempt,
+        ];
+        // The successful attempt is saved once its handlers have settled
+        if (attempt.error) await applyAssistantUpdate();
       },
     });
   } catch (error) {
@@ -1467,22 +2266,629 @@ async function requestCompletionForModel(
     assistantMessage.status = "error";
     assistantMessage.completedAt = Date.now();
     assistantMessage.error = (error as Error).message;
+    assistantMessage.errorKind = classifyError(assistantMessage.error);
     assistantMessage.updatedAt = Date.now();
     await applyAssistantUpdate();
-    const current = $activeSession.get();
-    $activeSession.set({
+    updateSessionState(session.id, (current) => ({
       ...current,
       streamingByModel: { ...current.streamingByModel, [modelId]: false },
       errorsByModel: {
         ...current.errorsByModel,
         [modelId]: (error as Error).message,
       },
-    });
+    }));
   } finally {
     window.clearTimeout(fallbackTimeout);
-    const controllerKey = `${modelId}-${runIndex}`;
     streamControllers.delete(controllerKey);
+    // Indexed loop: a fallback started by the timeout can still be appended
+    for (let index = 0; index < handlerWork.length; index++) {
+      await handlerWork[index].catch(() => undefined);
+    }
+    releaseSlot();
+    if (assistantMessage.attempts?.some((attempt) => !attempt.error)) {
+      await applyAssistantUpdate();
+    }
+  }
+
+  // The fallback result did not come from this stream, so it can't be replayed
+  const recording = fallbackRan
+    ? null
+    : recorder.build({
+        messageId: assistantMessage.id,
+        sessionId: session.id,
+        modelId,
+        runIndex,
+      });
+  if (recording && !deletedSessionIds.has(session.id)) {
+    try {
+      await saveStreamRecording(recording);
+      assistantMessage.hasStreamRecording = true;
+      await applyAssistantUpdate();
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.warn(`[Session] Failed to save stream recording:`, error);
+      }
+    }
+  }
+}
+
+function resolveCaptureOptions(modelId: string) {
+  const matchingDefault = getMatchingDefault(modelId);
+  const streamReasoningSet = matchingDefault?.streamReasoningSet ?? false;
+  const streamReasoning = streamReasoningSet
+    ? (matchingDefault?.streamReasoning ?? true)
+    : true;
+  return {
+    captureReasoningTraces: !(streamReasoningSet && !streamReasoning),
+    keepOnlyLastImage: Boolean(
+      matchingDefault?.keepOnlyLastImageSet &&
+      matchingDefault.keepOnlyLastImage,
+    ),
+  };
+}
+
+/**
+ * Rebuilds an assistant message by re-running the current parser over its
+ * recorded raw stream. The result goes into a new run (context copied as for
+ * a re-run) so it can be compared with the original, which stays as it was.
+ * Stats and cost are left untouched. Returns the new run, or null.
+ */
+export async function replayAssistantMessage(
+  modelId: string,
+  messageId: string,
+): Promise<number | null> {
+  const state = $activeSession.get();
+  const messages = state.messagesByModel[modelId] ?? [];
+  const original = messages.find((message) => message.id === messageId);
+  if (!original || original.role !== "assistant") return null;
+  if (original.status === "streaming" || original.status === "queued") {
+    return null;
+  }
+  const recording = await getStreamRecording(messageId);
+  if (!recording) {
+    addNotification({
+      type: "warning",
+      message: "No stream recording found for this message.",
+    });
+    return null;
+  }
+
+  const sourceRunIndex = normalizedRunIndex(original.runIndex);
+  const sourceRunMessages = getRunMessages(messages, sourceRunIndex);
+  const contextMessages = sourceRunMessages
+    .slice(0, sourceRunMessages.indexOf(original))
+    .filter((message) => message.status === "complete");
+  const nextRunIndex = getMaxRunIndex(messages) + 1;
+  const origin: MessageBranchOrigin = {
+    runIndex: sourceRunIndex,
+    messageId,
+    kind: "replay",
+  };
+  const copies = copyIntoRun(contextMessages, nextRunIndex, origin);
+
+  const { captureReasoningTraces, keepOnlyLastImage } =
+    resolveCaptureOptions(modelId);
+  const [replayedBase] = copyIntoRun([original], nextRunIndex, origin);
+  const replayed: Message = {
+    ...replayedBase,
+    createdAt: replayedBase.createdAt + copies.length,
+    contentText: "",
+    contentReasoning: undefined,
+    contentThinking: undefined,
+    imageIds: [],
+    maskImageIds: undefined,
+  };
+  const pendingAttachments: OpenRouterAttachment[] = [];
+  const pendingImageUrls: string[] = [];
+  let lastReceivedImageUrl: string | null = null;
+  let streamError: string | null = null;
+
+  await replayStreamRecording(recording, {
+    onToken: (token) => {
+      replayed.contentText += token;
+    },
+    onReasoningToken: (token) => {
+      if (!captureReasoningTraces) return;
+      replayed.contentReasoning = (replayed.contentReasoning ?? "") + token;
+    },
+    onThinkingToken: (token) => {
+      if (!captureReasoningTraces) return;
+      replayed.contentThinking = (replayed.contentThinking ?? "") + token;
+    },
+    onMessage: (message) => {
+      if (message.attachments?.length) {
+        if (!keepOnlyLastImage) pendingAttachments.push(...message.attachments);
+        const urls = collectImageUrlsFromAttachments(message.attachments);
+        if (urls.length > 0)
+          lastReceivedImageUrl = urls[urls.length - 1] ?? null;
+      }
+      if (message.imageUrls.length > 0) {
+        if (!keepOnlyLastImage) pendingImageUrls.push(...message.imageUrls);
+        lastReceivedImageUrl =
+          message.imageUrls[message.imageUrls.length - 1] ?? null;
+      }
+    },
+    onError: (error) => {
+      streamError = error.message;
+    },
+    onDone: () => {},
+  });
+
+  await resolveAndStoreMessageImages({
+    message: replayed,
+    imageUrls: keepOnlyLastImage
+      ? lastReceivedImageUrl
+        ? [lastReceivedImageUrl]
+        : []
+      : pendingImageUrls,
+    attachments: keepOnlyLastImage ? [] : pendingAttachments,
+    includeText: !keepOnlyLastImage,
+    keepOnlyLast: keepOnlyLastImage,
+  });
+  replayed.status = streamError ? "error" : "complete";
+  replayed.error = streamError ?? undefined;
+  replayed.errorKind = streamError ? classifyError(streamError) : undefined;
+  replayed.completedAt = Date.now();
+  replayed.updatedAt = Date.now();
+  await saveMessages([...copies, replayed]);
+
+  const current = $activeSession.get();
+  if (current.session?.id === original.sessionId) {
+    const list = current.messagesByModel[modelId] ?? [];
+    $activeSession.set({
+      ...current,
+      messagesByModel: {
+        ...current.messagesByModel,
+        [modelId]: [...list, ...copies, replayed].sort(
+          (a, b) => a.createdAt - b.createdAt,
+        ),
+      },
+    });
+  }
+  void computeMessageMetrics(original.sessionId, modelId, replayed.id);
+
+  if (import.meta.env.DEV) {
+    console.debug(`[Session] Replayed stream for ${messageId}:`, {
+      chunks: recording.chunkSizes.length,
+      bytes: recording.bytes,
+      textLength: [original.contentText.length, replayed.contentText.length],
+      images: [original.imageIds.length, replayed.imageIds.length],
+      reasoningLength: [
+        original.contentReasoning?.length ?? 0,
+        replayed.contentReasoning?.length ?? 0,
+      ],
+    });
+  }
+  addNotification({
+    type: streamError ? "warning" : "info",
+    message: `Replayed ${recording.chunkSizes.length} chunk(s) into run ${nextRunIndex}: ${replayed.imageIds.length} image(s) (was ${original.imageIds.length}), ${replayed.contentText.length} text chars (was ${original.contentText.length}).`,
+  });
+  return nextRunIndex;
+}
+
+const metricsInFlight = new Set<string>();
+
+/**
+ * Finds the image an assistant output should be measured against: the last
+ * image of the closest earlier user message in the same run.
+ */
+function findReferenceImageId(
+  messages: Message[],
+  target: Message,
+): string | null {
+  const candidates = messages
+    .filter(
+      (message) =>
+        message.role === "user" &&
+        message.runIndex === target.runIndex &&
+        message.createdAt <= target.createdAt &&
+        message.imageIds.length > 0,
+    )
+    .sort((a, b) => b.createdAt - a.createdAt);
+  const source = candidates[0];
+  return source ? (source.imageIds[source.imageIds.length - 1] ?? null) : null;
+}
+
+/**
+ * Scores each output image of an assistant message against the run's input
+ * image (PSNR, SSIM, pHash and histogram distance) and stores the result on
+ * the message. Runs once when the message finishes; already-scored images are
+ * skipped, and a failure is stored so it isn't retried.
+ */
+export async function computeMessageMetrics(
+  sessionId: string,
+  modelId: string,
+  messageId: string,
+) {
+  const list =
+    getSessionState(sessionId)?.messagesByModel[modelId] ??
+    (await getMessages(sessionId, modelId));
+  const message = list.find((item) => item.id === messageId);
+  if (!message || message.role !== "assistant") return;
+  if (message.status !== "complete" || message.imageIds.length === 0) return;
+  if (message.imageMetricsError) return;
+  const referenceImageId = findReferenceImageId(list, message);
+  if (!referenceImageId) return;
+  const pending = message.imageIds.filter(
+    (imageId) =>
+      imageId !== referenceImageId &&
+      message.imageMetrics?.[imageId]?.referenceImageId !== referenceImageId,
+  );
+  if (pending.length === 0 || metricsInFlight.has(messageId)) return;
+
+  metricsInFlight.add(messageId);
+  const metrics: Record<string, ImageMetrics> = {};
+  let failure: string | undefined;
+  try {
+    const reference = await getImageAsset(referenceImageId);
+    if (!reference) return;
+    for (const imageId of pending) {
+      const asset = await getImageAsset(imageId);
+      if (!asset) continue;
+      metrics[imageId] = await computeImageMetrics(
+        reference.blob,
+        asset.blob,
+        referenceImageId,
+      );
+    }
+  } catch (error) {
+    if (import.meta.env.DEV) {
+      console.warn(`[Session] Failed to compute image metrics:`, error);
+    }
+    failure = error instanceof Error ? error.message : String(error);
+  } finally {
+    metricsInFlight.delete(messageId);
+  }
+  if (Object.keys(metrics).length === 0 && !failure) return;
+
+  // Re-read: the message may have changed or been removed while computing
+  const latest =
+    (getSessionState(sessionId)?.messagesByModel[modelId] ?? []).find(
+      (item) => item.id === messageId,
+    ) ??
+    (await getMessages(sessionId, modelId)).find(
+      (item) => item.id === messageId,
+    );
+  if (!latest) return;
+  const imageMetrics = Object.fromEntries(
+    Object.entries({ ...latest.imageMetrics, ...metrics }).filter(([imageId]) =>
+      latest.imageIds.includes(imageId),
+    ),
+  );
+  const updated: Message = {
+    ...latest,
+    imageMetrics,
+    imageMetricsError: failure,
+  };
+  await saveMessage(updated);
+  updateSessionState(sessionId, (state) => ({
+    ...state,
+    messagesByModel: {
+      ...state.messagesByModel,
+      [modelId]: (state.messagesByModel[modelId] ?? []).map((item) =>
+        item.id === messageId ? updated : item,
+      ),
+    },
+  }));
+}
+
+const judgesInFlight = new Set<string>();
+
+/**
+ * Has the configured judge model score an assistant message's last output
+ * image against its prompt and the run's input image, and stores the verdict
+ * on the message. Works for background (suite) sessions too.
+ */
+export async function judgeMessage(
+  sessionId: string,
+  modelId: string,
+  messageId: string,
+) {
+  const judge = $settings.get().judge;
+  if (!judge?.modelId) {
+    addNotification({
+      type: "warning",
+      message: "Choose a judge model in Settings > LLM Judge first.",
+    });
+    return;
+  }
+  const messages =
+    getSessionState(sessionId)?.messagesByModel[modelId] ??
+    (await getMessages(sessionId, modelId));
+  const message = messages.find((item) => item.id === messageId);
+  if (!message || message.role !== "assistant") return;
+  const imageId = message.imageIds[message.imageIds.length - 1];
+  if (message.status !== "complete" || !imageId) return;
+  if (judgesInFlight.has(messageId)) return;
+
+  judgesInFlight.add(messageId);
+  try {
+    const output = await getImageAsset(imageId);
+    if (!output) return;
+    const referenceImageId = findReferenceImageId(messages, message);
+    const input = referenceImageId
+      ? await getImageAsset(referenceImageId)
+      : null;
+    const prompt =
+      messages
+        .filter(
+          (item) =>
+            item.role === "user" &&
+            item.runIndex === message.runIndex &&
+            item.createdAt <= message.createdAt,
+        )
+        .sort((a, b) => b.createdAt - a.createdAt)[0]?.contentText ?? "";
+
+    const { reply, usage } = await requestJudgeScore({
+      backend: getCompletionBackendForModel($settings.get(), judge.modelId),
+      modelId: judge.modelId,
+      rubric: judge.rubric,
+      prompt,
+      inputImageUrl: input ? await blobToDataUrl(input.blob) : undefined,
+      outputImageUrl: await blobToDataUrl(output.blob),
+    });
+    const cost = resolveCostUsd({
+      sessionId,
+      modelId: judge.modelId,
+      usageCost: usage.cost,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      outputImages: 0,
+    });
+    const judgedAt = Date.now();
+    await recordUsage({
+      id: judgeUsageId(messageId, judgedAt),
+      kind: "judge",
+      sessionId,
+      messageId,
+      modelId: judge.modelId,
+      createdAt: judgedAt,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      outputImages: 0,
+      cost: cost ?? undefined,
+    });
+    const verdict = parseJudgeVerdict(reply);
+
+    // Re-read: the message may have changed while the judge was thinking
+    const latest =
+      (getSessionState(sessionId)?.messagesByModel[modelId] ?? []).find(
+        (item) => item.id === messageId,
+      ) ??
+      (await getMessages(sessionId, modelId)).find(
+        (item) => item.id === messageId,
+      );
+    if (!latest) return;
+    const updated: Message = {
+      ...latest,
+      judgement: {
+        judgeModelId: judge.modelId,
+        imageId,
+        ...verdict,
+        cost: cost ?? undefined,
+        judgedAt,
+      },
+    };
+    await saveMessage(updated);
+    updateSessionState(sessionId, (state) => ({
+      ...state,
+      messagesByModel: {
+        ...state.messagesByModel,
+        [modelId]: (state.messagesByModel[modelId] ?? []).map((item) =>
+          item.id === messageId ? updated : item,
+        ),
+      },
+    }));
+  } catch (error) {
+    addNotification({
+      type: "error",
+      message: `Judge failed for ${modelId}: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+    });
+  } finally {
+    judgesInFlight.delete(messageId);
+  }
+}
+
+const reconcilesInFlight = new Set<string>();
+
+/**
+ * Swaps a message's usage for what OpenRouter billed and moves the difference
+ * into its usage record, the model's SessionStats, the session totals and
+ * today's spend.
+ */
+async function applyBilledUsage(
+  sessionId: string,
+  modelId: string,
+  messageId: string,
+  billed: { cost: number; prompt_tokens?: number; completion_tokens?: number },
+  afterCompletion: boolean,
+) {
+  const latest =
+    (getSessionState(sessionId)?.messagesByModel[modelId] ?? []).find(
+      (item) => item.id === messageId,
+    ) ??
+    (await getMessages(sessionId, modelId)).find(
+      (item) => item.id === messageId,
+    );
+  if (!latest) return 0;
+  const previous = latest.usage;
+  const promptTokens = billed.prompt_tokens ?? previous?.promptTokens ?? 0;
+  const completionTokens =
+    billed.completion_tokens ?? previous?.completionTokens ?? 0;
+  const inputDelta = promptTokens - (previous?.promptTokens ?? 0);
+  const outputDelta = completionTokens - (previous?.completionTokens ?? 0);
+  const costDelta = billed.cost - (previous?.cost ?? 0);
+
+  const updated: Message = {
+    ...latest,
+    usage: {
+      promptTokens,
+      completionTokens,
+      cost: billed.cost,
+      costSource: "reconciled",
+    },
+  };
+  await saveMessage(updated);
+  const record = await getUsageRecord(messageId);
+  await saveUsageRecord({
+    ...(record ?? {
+      id: messageId,
+      kind: "completion",
+      sessionId,
+      messageId,
+      modelId,
+      createdAt: latest.completedAt ?? latest.createdAt,
+    }),
+    promptTokens,
+    completionTokens,
+    outputImages: latest.imageIds.length,
+    cost: billed.cost,
+    costSource: "reconciled",
+  });
+
+  const current = getSessionState(sessionId);
+  const stats = current?.statsByModel[modelId] ??
+    (await getStats(sessionId)).find((item) => item.modelId === modelId) ?? {
+      sessionId,
+      modelId,
+      inputTokens: 0,
+      outputTokens: 0,
+      totalCost: 0,
+    };
+  const nextStats: SessionStats = {
+    ...stats,
+    inputTokens: (toNumber(stats.inputTokens) ?? 0) + inputDelta,
+    outputTokens: (stats.outputTokens ?? 0) + outputDelta,
+    totalCost: (stats.totalCost ?? 0) + costDelta,
+  };
+  await saveStats(nextStats);
+  updateSessionState(sessionId, (state) => ({
+    ...state,
+    messagesByModel: {
+      ...state.messagesByModel,
+      [modelId]: (state.messagesByModel[modelId] ?? []).map((item) =>
+        item.id === messageId ? updated : item,
+      ),
+    },
+    statsByModel: { ...state.statsByModel, [modelId]: nextStats },
+  }));
+
+  // Mutated in place like finalizeWithStats does, so a completion finishing
+  // meanwhile doesn't save an older copy over these totals
+  const session =
+    getSessionState(sessionId)?.session ?? (await getSession(sessionId));
+  if (session) {
+    session.totalTokens += inputDelta + outputDelta;
+    session.totalCost += costDelta;
+    if (!deletedSessionIds.has(sessionId)) await saveSession(session);
+    upsertHistorySession(session);
+  }
+  if (localDayKey(latest.completedAt ?? latest.createdAt) === localDayKey()) {
+    recordSpend(costDelta);
+  }
+
+  if (
+    afterCompletion &&
+    previous?.costSource === "reported" &&
+    Math.abs(costDelta) > 0.000001
+  ) {
+    const modelName =
+      $models.get().find((model) => model.id === modelId)?.name ?? modelId;
+    showVerificationDialog({
+      type: "error",
+      title: "Reported Cost Corrected",
+      message: `The stream reported a different cost than OpenRouter billed for ${modelName}:\n\nStream cost: $${(previous.cost ?? 0).toFixed(6)}\nBilled cost: $${billed.cost.toFixed(6)}\nDifference: $${costDelta.toFixed(6)}\n\nStats now use the billed cost.`,
+      modelId,
+    });
+  }
+  return costDelta;
+}
+
+/**
+ * Looks up the billed cost and tokens of assistant messages that carry a
+ * generation id and are not reconciled yet. Called for each finished
+ * completion and on demand for past sessions.
+ */
+async function reconcileMessageCosts(
+  sessionId: string,
+  {
+    messageIds,
+    afterCompletion = false,
+  }: { messageIds?: string[]; afterCompletion?: boolean } = {},
+) {
+  const result = { reconciled: 0, failed: 0, costDelta: 0 };
+  const apiKey = $settings.get().apiKey;
+  if (!apiKey) return result;
+  const state = getSessionState(sessionId);
+  const messages = state
+    ? Object.values(state.messagesByModel).flat()
+    : await getMessages(sessionId);
+  const pending = messages.filter(
+    (message) =>
+      message.role === "assistant" &&
+      message.generationId &&
+      message.status !== "streaming" &&
+      message.usage?.costSource !== "reconciled" &&
+      (!messageIds || messageIds.includes(message.id)) &&
+      !reconcilesInFlight.has(message.id),
+  );
+
+  for (const message of pending) {
+    reconcilesInFlight.add(message.id);
+    try {
+      // Right after a completion the generation may not be queryable yet
+      const billed = await fetchGenerationCost(
+        apiKey,
+        message.generationId!,
+        afterCompletion,
+      );
+      if (typeof billed?.cost !== "number" || !Number.isFinite(billed.cost)) {
+        result.failed++;
+        continue;
+      }
+      result.costDelta += await applyBilledUsage(
+        sessionId,
+        message.modelId,
+        message.id,
+        { ...billed, cost: billed.cost },
+        afterCompletion,
+      );
+      result.reconciled++;
+    } finally {
+      reconcilesInFlight.delete(message.id);
+    }
   }
+  return result;
+}
+
+export async function reconcileSessionCosts(sessionId: string) {
+  if (!$settings.get().apiKey) {
+    addNotification({
+      type: "warning",
+      message: "Add an OpenRouter API key to reconcile costs.",
+    });
+    return;
+  }
+  const { reconciled, failed, costDelta } =
+    await reconcileMessageCosts(sessionId);
+  if (reconciled === 0 && failed === 0) {
+    addNotification({
+      type: "info",
+      message:
+        "Nothing to reconcile: every message with a generation id already matches OpenRouter.",
+    });
+    return;
+  }
+  addNotification({
+    type: failed > 0 ? "warning" : "info",
+    message: `Reconciled ${reconciled} message${reconciled === 1 ? "" : "s"} (${
+      costDelta >= 0 ? "+" : "-"
+    }$${Math.abs(costDelta).toFixed(6)})${
+      failed > 0 ? `; ${failed} not available from OpenRouter` : ""
+    }.`,
+  });
 }
 
 function toNumber(value: unknown): number | null {
@@ -1496,42 +2902,85 @@ function toNumber(value: unknown): number | null {
   return null;
 }
 
-export async function abortStream(modelId: string, runIndex?: number) {
+export async function abortStream(
+  modelId: string,
+  runIndex?: number,
+  targetSessionId?: string, // Defaults to the active session
+) {
   // If runIndex is provided, abort only that specific run
   // Otherwise, abort all runs for this model
+  const sessionId = targetSessionId ?? $activeSession.get().session?.id;
+  if (!sessionId) return;
   if (runIndex !== undefined) {
-    const controllerKey = `${modelId}-${runIndex}`;
+    const controllerKey = streamControllerKey(sessionId, modelId, runIndex);
     const controller = streamControllers.get(controllerKey);
     if (controller) {
       controller.abort();
       streamControllers.delete(controllerKey);
-      const state = $activeSession.get();
       // Check if any other runs are still streaming for this model
-      const stillStreaming = Array.from(streamControllers.keys()).some((key) =>
-        key.startsWith(`${modelId}-`),
-      );
-      $activeSession.set({
+      const stillStreaming = isModelStreaming(sessionId, modelId);
+      updateSessionState(sessionId, (state) => ({
         ...state,
         streamingByModel: {
           ...state.streamingByModel,
           [modelId]: stillStreaming,
         },
-      });
+      }));
     }
   } else {
     // Abort all runs for this model
     const keysToDelete: string[] = [];
     streamControllers.forEach((controller, key) => {
-      if (key.startsWith(`${modelId}-`)) {
+      if (key.startsWith(`${sessionId}:${modelId}-`)) {
         controller.abort();
         keysToDelete.push(key);
       }
     });
     keysToDelete.forEach((key) => streamControllers.delete(key));
-    const state = $activeSession.get();
-    $activeSession.set({
+    updateSessionState(sessionId, (state) => ({
       ...state,
       streamingByModel: { ...state.streamingByModel, [modelId]: false },
+    }));
+  }
+}
+
+/**
+ * Stops in-flight streams once a spend cap is used up: the session's own
+ * streams for the session cap, every running session's for the daily cap.
+ */
+function enforceBudgetCaps(session: Session) {
+  const breach = getBudgetBreach(
+    getSessionState(session.id)?.session ?? session,
+  );
+  if (!breach) return;
+  const active = $activeSession.get();
+  const states =
+    breach.scope === "session"
+      ? [getSessionState(session.id)]
+      : [active.session ? active : null, ...backgroundSessions.values()];
+  let aborted = 0;
+  for (const state of states) {
+    const sessionId = state?.session?.id;
+    if (!state || !sessionId) continue;
+    for (const [modelId, messages] of Object.entries(state.messagesByModel)) {
+      for (const message of messages) {
+        if (
+          message.role !== "assistant" ||
+          (message.status !== "streaming" && message.status !== "queued")
+        ) {
+          continue;
+        }
+        const key = streamControllerKey(sessionId, modelId, message.runIndex);
+        if (!streamControllers.has(key)) continue;
+        void abortStream(modelId, message.runIndex, sessionId);
+        aborted++;
+      }
+    }
+  }
+  if (aborted > 0) {
+    addNotification({
+      type: "warning",
+      message: `${breach.message} reached: aborted ${aborted} running request${aborted === 1 ? "" : "s"}.`,
     });
   }
 }
@@ -1559,6 +3008,60 @@ export async function removeMessageFromModel(
   await saveSession(session);
 }
 
+const normalizedRunIndex = (value: number | undefined) => value ?? 1;
+
+/**
+ * Copies a run's context into a new run so it can diverge without touching
+ * the original. Timing, usage and recordings belong to the source messages
+ * and are not copied.
+ */
+function copyIntoRun(
+  contextMessages: Message[],
+  runIndex: number,
+  branchFrom: MessageBranchOrigin,
+): Message[] {
+  const now = Date.now();
+  return contextMessages.map((message, idx) => ({
+    ...message,
+    id: createId("message"),
+    runIndex,
+    createdAt: now + idx,
+    updatedAt: now + idx,
+    firstTokenAt: undefined,
+    firstImageAt: undefined,
+    completedAt: undefined,
+    error: undefined,
+    errorKind: undefined,
+    attempts: undefined,
+    status: "complete",
+    // Copies weren't billed again; only the original gets reconciled
+    usage: undefined,
+    generationId: undefined,
+    branchFrom,
+    chainStep: undefined,
+    judgement: undefined,
+    // Fidelity metrics were measured for the original output
+    imageMetrics: undefined,
+    imageMetricsError: undefined,
+    // Recordings are keyed by the original message id
+    hasStreamRecording: undefined,
+  }));
+}
+
+function getRunMessages(messages: Message[], runIndex: number) {
+  return messages
+    .filter((message) => normalizedRunIndex(message.runIndex) === runIndex)
+    .slice()
+    .sort((a, b) => a.createdAt - b.createdAt);
+}
+
+function getMaxRunIndex(messages: Message[]) {
+  return messages.reduce(
+    (acc, message) => Math.max(acc, normalizedRunIndex(message.runIndex)),
+    1,
+  );
+}
+
 export async function rerunLastAssistantMessage(modelId: string) {
   const state = $activeSession.get();
   const session = state.session;
@@ -1567,19 +3070,9 @@ export async function rerunLastAssistantMessage(modelId: string) {
   const messages = state.messagesByModel[modelId] ?? [];
   if (messages.length === 0) return;
 
-  const normalizedRunIndex = (value: number | undefined) => value ?? 1;
-  const maxRunIndex = messages.reduce(
-    (acc, message) => Math.max(acc, normalizedRunIndex(message.runIndex)),
-    1,
-  );
-
+  const maxRunIndex = getMaxRunIndex(messages);
   const sourceRunIndex = maxRunIndex;
-  const sourceRunMessages = messages
-    .filter(
-      (message) => normalizedRunIndex(message.runIndex) === sourceRunIndex,
-    )
-    .slice()
-    .sort((a, b) => a.createdAt - b.createdAt);
+  const sourceRunMessages = getRunMessages(messages, sourceRunIndex);
 
   const lastAssistantIndex = (() => {
     for (let i = sourceRunMessages.length - 1; i >= 0; i--) {
@@ -1594,18 +3087,11 @@ export async function rerunLastAssistantMessage(modelId: string) {
     .filter((message) => message.status === "complete");
   const nextRunIndex = maxRunIndex + 1;
 
-  const now = Date.now();
-  const copies: Message[] = contextMessages.map((message, idx) => ({
-    ...message,
-    id: createId("message"),
-    runIndex: nextRunIndex,
-    createdAt: now + idx,
-    updatedAt: now + idx,
-    firstTokenAt: undefined,
-    completedAt: undefined,
-    error: undefined,
-    status: "complete",
-  }));
+  const copies = copyIntoRun(contextMessages, nextRunIndex, {
+    runIndex: sourceRunIndex,
+    messageId: sourceRunMessages[lastAssistantIndex].id,
+    kind: "rerun",
+  });
 
   if (copies.length > 0) {
     await saveMessages(copies);
@@ -1622,6 +3108,186 @@ export async function rerunLastAssistantMessage(modelId: string) {
   await requestCompletionForModel(session, modelId, nextRunIndex);
 }
 
+/**
+ * Edits a user message and re-requests the completion. "branch" copies the
+ * context before the message into a new run and leaves the original run
+ * untouched; "replace" rewrites the message in place and drops everything
+ * after it in its run. Returns the run that now holds the edit.
+ */
+export async function editUserMessage(
+  modelId: string,
+  messageId: string,
+  text: string,
+  mode: "branch" | "replace" = "branch",
+): Promise<number | null> {
+  const state = $activeSession.get();
+  const session = state.session;
+  if (!session) return null;
+
+  const messages = state.messagesByModel[modelId] ?? [];
+  const target = messages.find((message) => message.id === messageId);
+  if (!target || target.role !== "user") return null;
+  const sourceRunIndex = normalizedRunIndex(target.runIndex);
+  if (
+    streamControllers.has(
+      streamControllerKey(session.id, modelId, sourceRunIndex),
+    )
+  ) {
+    addNotification({
+      type: "warning",
+      message: "Wait for this run to finish (or abort it) before editing.",
+    });
+    return null;
+  }
+
+  if (mode === "replace") {
+    const edited: Message = {
+      ...target,
+      contentText: text,
+      updatedAt: Date.now(),
+    };
+    await saveMessage(edited);
+    await deleteMessagesAfter(session.id, modelId, messageId, target.runIndex);
+    cleanupImagesDebounced();
+    const remaining = await getMessages(session.id, modelId);
+    const current = $activeSession.get();
+    $activeSession.set({
+      ...current,
+      messagesByModel: { ...current.messagesByModel, [modelId]: remaining },
+    });
+    updateSessionTotals(session, current.statsByModel);
+    void requestCompletionForModel(session, modelId, target.runIndex);
+    return sourceRunIndex;
+  }
+
+  const sourceRunMessages = getRunMessages(messages, sourceRunIndex);
+  const targetIndex = sourceRunMessages.findIndex(
+    (message) => message.id === messageId,
+  );
+  const contextMessages = sourceRunMessages
+    .slice(0, targetIndex + 1)
+    .filter(
+      (message) => message.status === "complete" || message.id === messageId,
+    );
+  const nextRunIndex = getMaxRunIndex(messages) + 1;
+  const copies = copyIntoRun(contextMessages, nextRunIndex, {
+    runIndex: sourceRunIndex,
+    messageId,
+    kind: "edit",
+  });
+  const editedCopy = copies[copies.length - 1];
+  if (editedCopy) editedCopy.contentText = text;
+  await saveMessages(copies);
+
+  const nextMessages = [...messages, ...copies].sort(
+    (a, b) => a.createdAt - b.createdAt,
+  );
+  $activeSession.set({
+    ...state,
+    messagesByModel: { ...state.messagesByModel, [modelId]: nextMessages },
+  });
+  updateSessionTotals(session, state.statsByModel);
+
+  void requestCompletionForModel(session, modelId, nextRunIndex);
+  return nextRunIndex;
+}
+
+/**
+ * Hands one column's run over to another model: the run's context up to its
+ * latest prompt, including the source model's image outputs, is copied into
+ * a new run of the target column (added to the session if needed) and
+ * completed there, so buildOpenRouterMessages sends the target exactly what
+ * the source run saw. System messages are left behind so the target's own
+ * defaults apply. Returns the target run index.
+ */
+export async function handoffRunToModel(
+  sourceModelId: string,
+  runIndex: number | undefined,
+  targetModelId: string,
+): Promise<number | null> {
+  const state = $activeSession.get();
+  const session = state.session;
+  if (!session || sourceModelId === targetModelId) return null;
+
+  const sourceRunIndex = normalizedRunIndex(runIndex);
+  if (
+    streamControllers.has(
+      streamControllerKey(session.id, sourceModelId, sourceRunIndex),
+    )
+  ) {
+    addNotification({
+      type: "warning",
+      message:
+        "Wait for this run to finish (or abort it) before handing it over.",
+    });
+    return null;
+  }
+  const targetBackend = getCompletionBackendForModel(
+    $settings.get(),
+    targetModelId,
+  );
+  if (!targetBackend.isConfigured) {
+    addNotification({
+      type: "error",
+      message: `No API key configured for ${targetModelId}.`,
+    });
+    return null;
+  }
+
+  const sourceRunMessages = getRunMessages(
+    state.messagesByModel[sourceModelId] ?? [],
+    sourceRunIndex,
+  );
+  let lastUserIndex = -1;
+  for (let i = sourceRunMessages.length - 1; i >= 0; i--) {
+    if (sourceRunMessages[i]?.role === "user") {
+      lastUserIndex = i;
+      break;
+    }
+  }
+  if (lastUserIndex === -1) return null;
+  const contextMessages = sourceRunMessages
+    .slice(0, lastUserIndex + 1)
+    .filter(
+      (message) => message.status === "complete" && message.role !== "system",
+    );
+
+  const targetMessages = state.messagesByModel[targetModelId] ?? [];
+  const targetRunIndex =
+    targetMessages.length > 0 ? getMaxRunIndex(targetMessages) + 1 : 1;
+  const sourceAnswer = sourceRunMessages
+    .slice(lastUserIndex + 1)
+    .find((message) => message.role === "assistant");
+  const copies = copyIntoRun(contextMessages, targetRunIndex, {
+    runIndex: sourceRunIndex,
+    messageId: (sourceAnswer ?? sourceRunMessages[lastUserIndex]).id,
+    kind: "handoff",
+    modelId: sourceModelId,
+  }).map((message) => ({ ...message, modelId: targetModelId }));
+  await saveMessages(copies);
+
+  $activeSession.set({
+    ...state,
+    messagesByModel: {
+      ...state.messagesByModel,
+      [targetModelId]: [...targetMessages, ...copies].sort(
+        (a, b) => a.createdAt - b.createdAt,
+      ),
+    },
+  });
+  if (!session.modelIds.includes(targetModelId)) {
+    await syncSessionModels([...session.modelIds, targetModelId]);
+    const selected = $settings.get().selectedModelIds;
+    if (!selected.includes(targetModelId)) {
+      await setSelectedModels([...selected, targetModelId]);
+    }
+  }
+
+  const updatedSession = $activeSession.get().session ?? session;
+  void requestCompletionForModel(updatedSession, targetModelId, targetRunIndex);
+  return targetRunIndex;
+}
+
 export async function ensureSessionLoaded() {
   if (!$activeSessionId.get()) {
     await initializeSession();
@@ -1,6 +1,21 @@
 import { map } from "nanostores";
-import type { ModelParamSpec, SettingsState } from "../types/db";
+import type {
+  BudgetSettings,
+  JudgeSettings,
+  ModelParamSpec,
+  ProviderConfig,
+  ProviderKind,
+  SchedulerSettings,
+  SettingsState,
+} from "../types/db";
 import { getSettings, saveSettings } from "../lib/idb";
+import { createId } from "../lib/utils";
+import { DEFAULT_JUDGE_RUBRIC } from "../lib/judge";
+import {
+  OPENROUTER_PROVIDER_ID,
+  PROVIDER_DEFAULT_BASE_URLS,
+  PROVIDER_KIND_LABELS,
+} from "../lib/providers";
 
 // Increment this version when breaking changes require clearing storage
 const STORE_VERSION = 1;
@@ -11,6 +26,8 @@ const defaultSettings: SettingsState = {
   selectedModelIds: [],
   perModelParameters: {},
   modelParamSchema: {},
+  providers: [],
+  modelProviderIds: {},
   storeVersion: STORE_VERSION,
 };
 
@@ -48,7 +65,12 @@ export async function loadSettings() {
   }
 
   if (stored) {
-    $settings.set(stored);
+    // Fill in fields added after the settings record was first written
+    $settings.set({
+      ...stored,
+      providers: stored.providers ?? [],
+      modelProviderIds: stored.modelProviderIds ?? {},
+    });
   } else {
     const initialSettings: SettingsState = {
       ...defaultSettings,
@@ -64,6 +86,58 @@ export async function updateApiKey(apiKey: string) {
   await saveSettings($settings.get());
 }
 
+export async function updateJudgeSettings(patch: Partial<JudgeSettings>) {
+  const settings = $settings.get();
+  const updated = {
+    ...settings,
+    judge: {
+      modelId: "",
+      rubric: DEFAULT_JUDGE_RUBRIC,
+      autoScore: false,
+      ...settings.judge,
+      ...patch,
+    },
+  };
+  $settings.set(updated);
+  await saveSettings(updated);
+}
+
+export async function updateBudgetSettings(patch: Partial<BudgetSettings>) {
+  const settings = $settings.get();
+  const updated = {
+    ...settings,
+    budget: {
+      sessionCapUsd: null,
+      dailyCapUsd: null,
+      ...settings.budget,
+      ...patch,
+    },
+  };
+  $settings.set(updated);
+  await saveSettings(updated);
+}
+
+export const DEFAULT_SCHEDULER_SETTINGS: SchedulerSettings = {
+  maxConcurrent: 6,
+  perProvider: {},
+};
+
+export async function updateSchedulerSettings(
+  patch: Partial<SchedulerSettings>,
+) {
+  const settings = $settings.get();
+  const updated = {
+    ...settings,
+    scheduler: {
+      ...DEFAULT_SCHEDULER_SETTINGS,
+      ...settings.scheduler,
+      ...patch,
+    },
+  };
+  $settings.set(updated);
+  await saveSettings(updated);
+}
+
 export async function toggleModelSelection(modelId: string) {
   const settings = $settings.get();
   const isSelected = settings.selectedModelIds.includes(modelId);
@@ -156,3 +230,73 @@ export async function moveSelectedModel(modelId: string, delta: -1 | 1) {
   $settings.set(updated);
   await saveSettings(updated);
 }
+
+export async function addProvider(kind: Exclude<ProviderKind, "openrouter">) {
+  const settings = $settings.get();
+  const provider: ProviderConfig = {
+    id: createId("provider"),
+    kind,
+    name: PROVIDER_KIND_LABELS[kind],
+    baseUrl: PROVIDER_DEFAULT_BASE_URLS[kind],
+    apiKey: "",
+  };
+  const updated = { ...settings, providers: [...settings.providers, provider] };
+  $settings.set(updated);
+  await saveSettings(updated);
+  return provider;
+}
+
+export async function updateProvider(
+  id: string,
+  updates: Partial<Omit<ProviderConfig, "id">>,
+) {
+  const settings = $settings.get();
+  const updated = {
+    ...settings,
+    providers: settings.providers.map((provider) =>
+      provider.id === id ? { ...provider, ...updates } : provider,
+    ),
+  };
+  $settings.set(updated);
+  await saveSettings(updated);
+}
+
+export async function removeProvider(id: string) {
+  const settings = $settings.get();
+  // Models mapped to the removed provider fall back to OpenRouter
+  const modelProviderIds = Object.fromEntries(
+    Object.entries(settings.modelProviderIds).filter(
+      ([, providerId]) => providerId !== id,
+    ),
+  );
+  const updated = {
+    ...settings,
+    providers: settings.providers.filter((provider) => provider.id !== id),
+    modelProviderIds,
+  };
+  $settings.set(updated);
+  await saveSettings(updated);
+}
+
+export async function setModelProvider(modelId: string, providerId: string) {
+  const settings = $settings.get();
+  const modelProviderIds = { ...settings.modelProviderIds };
+  if (providerId === OPENROUTER_PROVIDER_ID) {
+    delete modelProviderIds[modelId];
+  } else {
+    modelProviderIds[modelId] = providerId;
+  }
+  const updated = { ...settings, modelProviderIds };
+  $settings.set(updated);
+  await saveSettings(updated);
+}
+
+export async function addCustomModel(modelId: string, providerId: string) {
+  const trimmed = modelId.trim();
+  if (!trimmed) return;
+  const settings = $settings.get();
+  if (!settings.selectedModelIds.includes(trimmed)) {
+    await setSelectedModels([...settings.selectedModelIds, trimmed]);
+  }
+  await setModelProvider(trimmed, providerId);
+}
@@ -0,0 +1,356 @@
+import { atom } from "nanostores";
+import type { ImageAsset, Message, Suite, SuiteCase } from "../types/db";
+import {
+  deleteSuite as deleteSuiteDb,
+  getMessages,
+  getSuites,
+  saveImage,
+  saveSuite,
+} from "../lib/idb";
+import { createId, debounce } from "../lib/utils";
+import { loadImageFromFile } from "../lib/image";
+import {
+  createBackgroundSession,
+  releaseBackgroundSession,
+  sendPromptToModel,
+} from "./sessionsStore";
+import { $settings } from "./settingsStore";
+import { addNotification } from "./notificationsStore";
+
+export type SuiteJobStatus = "queued" | "running" | "complete" | "error";
+
+export interface SuiteRunState {
+  suiteId: string;
+  status: "running" | "paused" | "done";
+  jobs: Record<string, SuiteJobStatus>; // Keyed by suiteJobKey(caseId, modelId)
+  startedAt: number;
+  finishedAt?: number;
+}
+
+export const MAX_SUITE_CONCURRENCY = 8;
+
+export const $suites = atom<Suite[]>([]);
+export const $suiteRun = atom<SuiteRunState | null>(null);
+
+// Every worker parked by a pause; all of them are woken on resume
+let pausedWorkers: Array<() => void> = [];
+
+export function suiteJobKey(caseId: string, modelId: string) {
+  return `${caseId}|${modelId}`;
+}
+
+const persistSuiteDebounced = debounce((suite: Suite) => {
+  void saveSuite(suite);
+}, 400);
+
+function replaceSuite(suite: Suite) {
+  $suites.set(
+    $suites.get().map((item) => (item.id === suite.id ? suite : item)),
+  );
+}
+
+function getSuite(id: string) {
+  return $suites.get().find((item) => item.id === id) ?? null;
+}
+
+export async function loadSuites() {
+  $suites.set(await getSuites());
+}
+
+export async function createSuite(name = "Untitled suite"): Promise<Suite> {
+  const now = Date.now();
+  const suite: Suite = {
+    id: createId("suite"),
+    name,
+    cases: [],
+    modelIds: [...$settings.get().selectedModelIds],
+    concurrency: 2,
+    caseSessionIds: {},
+    createdAt: now,
+    updatedAt: now,
+  };
+  $suites.set([suite, ...$suites.get()]);
+  await saveSuite(suite);
+  return suite;
+}
+
+export function updateSuite(
+  id: string,
+  patch: Partial<Pick<Suite, "name" | "modelIds" | "concurrency">>,
+) {
+  const suite = getSuite(id);
+  if (!suite) return;
+  const next: Suite = { ...suite, ...patch, updatedAt: Date.now() };
+  replaceSuite(next);
+  persistSuiteDebounced(next);
+}
+
+export async function deleteSuite(id: string) {
+  if ($suiteRun.get()?.suiteId === id && $suiteRun.get()?.status !== "done") {
+    addNotification({
+      type: "warning",
+      message: "Pause and let the suite finish before deleting it.",
+    });
+    return;
+  }
+  $suites.set($suites.get().filter((item) => item.id !== id));
+  await deleteSuiteDb(id);
+}
+
+async function saveCaseImage(file: File): Promise<string> {
+  const loaded = await loadImageFromFile(file);
+  const asset: ImageAsset = {
+    id: createId("image"),
+    blob: file,
+    mimeType: file.type || "image/png",
+    width: loaded.width,
+    height: loaded.height,
+    bytes: file.size,
+    createdAt: Date.now(),
+  };
+  await saveImage(asset);
+  return asset.id;
+}
+
+export async function addSuiteCase(suiteId: string) {
+  const suite = getSuite(suiteId);
+  if (!suite) return;
+  const next: Suite = {
+    ...suite,
+    cases: [...suite.cases, { id: createId("case"), text: "", imageIds: [] }],
+    updatedAt: Date.now(),
+  };
+  replaceSuite(next);
+  await saveSuite(next);
+}
+
+export function updateSuiteCase(
+  suiteId: string,
+  caseId: string,
+  patch: Partial<Pick<SuiteCase, "text" | "expectedNotes" | "imageIds">>,
+) {
+  const suite = getSuite(suiteId);
+  if (!suite) return;
+  const next: Suite = {
+    ...suite,
+    cases: suite.cases.map((item) =>
+      item.id === caseId ? { ...item, ...patch } : item,
+    ),
+    updatedAt: Date.now(),
+  };
+  replaceSuite(next);
+  persistSuiteDebounced(next);
+}
+
+export async function addSuiteCaseImages(
+  suiteId: string,
+  caseId: string,
+  files: File[],
+) {
+  const imageIds: string[] = [];
+  for (const file of files) {
+    try {
+      imageIds.push(await saveCaseImage(file));
+    } catch (error) {
+      addNotification({
+        type: "error",
+        message: `Could not add ${file.name}: ${(error as Error).message}`,
+      });
+    }
+  }
+  const item = getSuite(suiteId)?.cases.find((entry) => entry.id === caseId);
+  if (!item || imageIds.length === 0) return;
+  updateSuiteCase(suiteId, caseId, {
+    imageIds: [...item.imageIds, ...imageIds],
+  });
+}
+
+export async function removeSuiteCase(suiteId: string, caseId: string) {
+  const suite = getSuite(suiteId);
+  if (!suite) return;
+  const caseSessionIds = { ...suite.caseSessionIds };
+  delete caseSessionIds[caseId];
+  const next: Suite = {
+    ...suite,
+    cases: suite.cases.filter((item) => item.id !== caseId),
+    caseSessionIds,
+    updatedAt: Date.now(),
+  };
+  replaceSuite(next);
+  await saveSuite(next);
+}
+
+function setJobStatus(key: string, status: SuiteJobStatus) {
+  const run = $suiteRun.get();
+  if (!run) return;
+  $suiteRun.set({ ...run, jobs: { ...run.jobs, [key]: status } });
+}
+
+async function waitWhilePaused() {
+  while ($suiteRun.get()?.status === "paused") {
+    await new Promise<void>((resolve) => {
+      pausedWorkers.push(resolve);
+    });
+  }
+}
+
+/**
+ * Runs every case against every model of the suite. Each case gets its own
+ * session (tagged with the suite id); jobs are (case, model) pairs executed
+ * by a pool of `concurrency` workers.
+ */
+export async function runSuite(suiteId: string) {
+  const current = $suiteRun.get();
+  if (current && current.status !== "done") {
+    addNotification({
+      type: "warning",
+      message: "A suite is already running.",
+    });
+    return;
+  }
+  const suite = getSuite(suiteId);
+  if (!suite) return;
+  const cases = suite.cases.filter(
+    (item) => item.text.trim() || item.imageIds.length > 0,
+  );
+  if (cases.length === 0 || suite.modelIds.length === 0) {
+    addNotification({
+      type: "warning",
+      message: "Add at least one case and one model before running.",
+    });
+    return;
+  }
+
+  const jobs = cases.flatMap((item) =>
+    suite.modelIds.map((modelId) => ({ suiteCase: item, modelId })),
+  );
+  $suiteRun.set({
+    suiteId,
+    status: "running",
+    jobs: Object.fromEntries(
+      jobs.map((job) => [suiteJobKey(job.suiteCase.id, job.modelId), "queued"]),
+    ),
+    startedAt: Date.now(),
+  });
+
+  // One session per case, created when its first job starts
+  const caseSessions = new Map<string, Promise<string>>();
+  const sessionForCase = (item: SuiteCase, index: number) => {
+    let pending = caseSessions.get(item.id);
+    if (!pending) {
+      pending = createBackgroundSession({
+        modelIds: suite.modelIds,
+        title: `${suite.name} · #${index + 1} ${item.text.trim().slice(0, 40)}`,
+        suiteId: suite.id,
+        suiteCaseId: item.id,
+      }).then((session) => {
+        const latest = getSuite(suiteId);
+        if (latest) {
+          const next: Suite = {
+            ...latest,
+            caseSessionIds: {
+              ...latest.caseSessionIds,
+              [item.id]: session.id,
+            },
+            lastRunAt: Date.now(),
+          };
+          replaceSuite(next);
+          void saveSuite(next);
+        }
+        return session.id;
+      });
+      caseSessions.set(item.id, pending);
+    }
+    return pending;
+  };
+
+  const queue = [...jobs];
+  const worker = async () => {
+    for (;;) {
+      await waitWhilePaused();
+      const job = queue.shift();
+      if (!job) return;
+      const key = suiteJobKey(job.suiteCase.id, job.modelId);
+      setJobStatus(key, "running");
+      try {
+        const sessionId = await sessionForCase(
+          job.suiteCase,
+          cases.indexOf(job.suiteCase),
+        );
+        const result = await sendPromptToModel(sessionId, job.modelId, {
+          text: job.suiteCase.text,
+          imageIds: job.suiteCase.imageIds,
+        });
+        setJobStatus(
+          key,
+          result && result.status === "complete" ? "complete" : "error",
+        );
+      } catch (error) {
+        if (import.meta.env.DEV) {
+          console.error(`[Suites] Job ${key} failed:`, error);
+        }
+        setJobStatus(key, "error");
+      }
+    }
+  };
+
+  const concurrency = Math.max(
+    1,
+    Math.min(MAX_SUITE_CONCURRENCY, suite.concurrency),
+  );
+  await Promise.all(Array.from({ length: concurrency }, () => worker()));
+
+  for (const pending of caseSessions.values()) {
+    releaseBackgroundSession(await pending);
+  }
+  const run = $suiteRun.get();
+  if (run) {
+    $suiteRun.set({ ...run, status: "done", finishedAt: Date.now() });
+    const failed = Object.values(run.jobs).filter(
+      (status) => status === "error",
+    ).length;
+    addNotification({
+      type: failed > 0 ? "warning" : "info",
+      message: `Suite "${suite.name}" finished: ${jobs.length - failed}/${jobs.length} completions succeeded.`,
+    });
+  }
+}
+
+export function pauseSuiteRun() {
+  const run = $suiteRun.get();
+  if (!run || run.status !== "running") return;
+  $suiteRun.set({ ...run, status: "paused" });
+}
+
+export function resumeSuiteRun() {
+  const run = $suiteRun.get();
+  if (!run || run.status !== "paused") return;
+  $suiteRun.set({ ...run, status: "running" });
+  const waiting = pausedWorkers;
+  pausedWorkers = [];
+  waiting.forEach((resolve) => resolve());
+}
+
+/**
+ * Latest assistant message per (case, model) from the sessions of the most
+ * recent run.
+ */
+export async function loadSuiteResults(
+  suite: Suite,
+): Promise<Record<string, Message | undefined>> {
+  const results: Record<string, Message | undefined> = {};
+  for (const item of suite.cases) {
+    const sessionId = suite.caseSessionIds[item.id];
+    if (!sessionId) continue;
+    const messages = await getMessages(sessionId);
+    for (const modelId of suite.modelIds) {
+      results[suiteJobKey(item.id, modelId)] = messages
+        .filter(
+          (message) =>
+            message.modelId === modelId && message.role === "assistant",
+        )
+        .pop();
+    }
+  }
+  return results;
+}
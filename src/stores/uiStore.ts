@@ -1,5 +1,10 @@
 import { map } from "nanostores";
 
+export type CompareImage = {
+  imageId: string;
+  label: string; // e.g. "model name · Run 2"
+};
+
 export const $uiState = map({
   collapsedMessageIds: new Set<string>(),
   collapsedBlockIds: new Set<string>(),
@@ -8,6 +13,7 @@ export const $uiState = map({
   historyOffset: 0,
   historyHasMore: true,
   soloModelIds: new Set<string>(),
+  compareImages: [] as CompareImage[],
 });
 
 export function setHistorySearch(value: string) {
@@ -75,3 +81,20 @@ export function toggleHiddenMessage(messageId: string, hidden?: boolean) {
   else next.delete(messageId);
   $uiState.set({ ...state, hiddenMessageIds: next });
 }
+
+export function toggleCompareImage(image: CompareImage) {
+  const state = $uiState.get();
+  const exists = state.compareImages.some(
+    (item) => item.imageId === image.imageId,
+  );
+  $uiState.set({
+    ...state,
+    compareImages: exists
+      ? state.compareImages.filter((item) => item.imageId !== image.imageId)
+      : [...state.compareImages, image],
+  });
+}
+
+export function clearCompareImages() {
+  $uiState.set({ ...$uiState.get(), compareImages: [] });
+}
@@ -1,10 +1,16 @@
 import type { GeminiImageSize, ImageAspectRatio } from "./imageGeneration";
 
-export type ViewKey = "session" | "models" | "stats" | "defaults" | "history";
+export type ViewKey =
+  "session" | "models" | "stats" | "defaults" | "history" | "suites";
 
 export type MessageRole = "system" | "user" | "assistant" | "tool";
 
-export type MessageStatus = "complete" | "streaming" | "error" | "aborted";
+export type MessageStatus =
+  | "queued" // Waiting for a request slot (see queueStore)
+  | "streaming"
+  | "complete"
+  | "error"
+  | "aborted";
 
 export interface ImageAsset {
   id: string;
@@ -16,6 +22,21 @@ export interface ImageAsset {
   createdAt: number;
 }
 
+// Why an answer failed; labels live in lib/errors
+export type ErrorKind =
+  | "rate_limit"
+  | "auth"
+  | "bad_request"
+  | "provider_error"
+  | "timeout"
+  | "network"
+  | "content_filter"
+  | "malformed_stream"
+  | "no_image"
+  | "empty_response"
+  | "aborted"
+  | "unknown";
+
 export interface Message {
   id: string;
   sessionId: string;
@@ -28,10 +49,107 @@ export interface Message {
   createdAt: number;
   updatedAt: number;
   firstTokenAt?: number;
+  firstImageAt?: number; // First image or attachment received (assistant only)
   completedAt?: number;
   status: MessageStatus;
   error?: string;
+  errorKind?: ErrorKind; // Set on failed answers and on answers missing their image
   runIndex?: number; // 1-based run index when multiplier > 1
+  hasStreamRecording?: boolean; // Raw provider stream stored in "streams"
+  maskImageIds?: Record<string, string>; // imageId -> inpainting mask imageId
+  imageMetrics?: Record<string, ImageMetrics>; // output imageId -> metrics vs the run's input image
+  imageMetricsError?: string; // Set when scoring failed (e.g. an undecodable image); not retried
+  usage?: MessageUsage; // Assistant only, set when the completion finishes
+  branchFrom?: MessageBranchOrigin; // Set on every message of a run created by edit, re-run or handoff
+  chainStep?: MessageChainStep; // Set on the user message of each chain step
+  autoIterate?: MessageAutoIterate; // Set on follow-up turns sent by auto-iterate
+  judgement?: MessageJudgement; // LLM judge score of the last output image
+  generationId?: string; // OpenRouter generation id, used to reconcile usage
+  attempts?: MessageAttempt[]; // One entry per request sent, in order (retry policy)
+}
+
+export interface MessageAttempt {
+  attempt: number; // 1-based
+  startedAt: number;
+  endedAt: number;
+  error?: string; // Unset on the attempt that went through
+  errorKind?: ErrorKind;
+  retryAfterMs?: number; // Retry-After sent by the provider
+  delayMs?: number; // Backoff waited before the next attempt; unset when giving up
+}
+
+export interface MessageJudgement {
+  judgeModelId: string;
+  imageId: string; // Output image that was scored
+  score: number; // 1-10
+  reasons: string[];
+  failureTags: string[]; // Subset of JUDGE_FAILURE_TAGS
+  cost?: number; // USD spent on the judge call
+  judgedAt: number;
+}
+
+export interface MessageAutoIterate {
+  round: number; // 1 = first follow-up after the original answer
+  source: "instruction" | "judge";
+  judgeModelId?: string;
+  judgeCost?: number; // USD spent on the critique that produced this turn
+}
+
+export interface MessageChainStep {
+  chainId: string; // Shared by all steps of one chain execution
+  step: number; // 1-based position in the chain
+}
+
+export interface MessageBranchOrigin {
+  runIndex: number; // Run the branch was forked from
+  messageId: string; // Message in that run that was edited, re-run or replayed
+  kind: "edit" | "rerun" | "handoff" | "replay";
+  modelId?: string; // Source column for "handoff" runs copied from another model
+}
+
+export interface MessageUsage {
+  promptTokens: number;
+  completionTokens: number;
+  cost?: number; // USD; missing when neither the provider nor pricing gave one
+  costSource?: MessageCostSource;
+}
+
+// "estimated": from model pricing; "reported": from the completion's usage;
+// "reconciled": from OpenRouter's generation endpoint (what gets billed)
+export type MessageCostSource = "estimated" | "reported" | "reconciled";
+
+export interface Rating {
+  messageId: string; // Rated assistant message (one rating per message)
+  sessionId: string;
+  modelId: string;
+  turnKey: string; // "<runIndex>:<turn>" so ratings of the same prompt line up across models
+  score: number; // 1-5
+  tags: string[];
+  note?: string;
+  blind?: boolean; // Given while model names were hidden
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ImageMetrics {
+  referenceImageId: string; // Image the output was measured against
+  psnr: number; // dB, capped at 100 when identical
+  ssim: number; // Mean SSIM on luminance, 1 = identical
+  phashDistance: number; // Hamming distance between 64-bit DCT hashes
+  histogramDistance: number; // Bhattacharyya distance over RGB, 0 = identical
+  computedAt: number;
+}
+
+export interface StreamRecording {
+  messageId: string;
+  sessionId: string;
+  modelId: string;
+  runIndex?: number;
+  contentType: string;
+  chunkSizes: number[]; // Byte length of each chunk as received
+  data: Blob;
+  bytes: number;
+  createdAt: number;
 }
 
 export interface Session {
@@ -45,6 +163,52 @@ export interface Session {
   messageCount: number;
   totalTokens: number;
   totalCost: number;
+  suiteId?: string; // Set when the session was created by a benchmark suite run
+  suiteCaseId?: string;
+  mode?: SessionMode; // Defaults to "parallel"
+  chainTemplates?: Record<string, string>; // modelId -> chain step prompt template
+}
+
+// "chain" runs the selected models in order, each editing the previous output
+export type SessionMode = "parallel" | "chain";
+
+export interface SuiteCase {
+  id: string;
+  text: string;
+  imageIds: string[]; // Stored in "images"; kept alive by cleanupOrphanedImages
+  expectedNotes?: string;
+}
+
+export interface Suite {
+  id: string;
+  name: string;
+  cases: SuiteCase[];
+  modelIds: string[];
+  concurrency: number; // Max completions in flight while running
+  caseSessionIds: Record<string, string>; // caseId -> session of the latest run
+  lastRunAt?: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type UsageKind = "completion" | "judge" | "critique";
+
+/**
+ * One billed request. Kept separately from messages so spend history
+ * survives deleting a session or message.
+ */
+export interface UsageRecord {
+  id: string; // Assistant message id for completions
+  kind: UsageKind;
+  sessionId: string;
+  messageId: string; // Message the request was made for
+  modelId: string;
+  createdAt: number; // When the request finished
+  promptTokens: number;
+  completionTokens: number;
+  outputImages: number;
+  cost?: number; // USD
+  costSource?: MessageCostSource;
 }
 
 export interface SessionStats {
@@ -57,15 +221,46 @@ export interface SessionStats {
 
 export type ModelParameterValue = string | number | boolean;
 
+export type ProviderKind = "openrouter" | "openai" | "local" | "mock";
+
+export interface ProviderConfig {
+  id: string;
+  kind: ProviderKind;
+  name: string;
+  baseUrl: string;
+  apiKey: string; // May be empty for local servers
+}
+
 export interface SettingsState {
   id: "settings";
-  apiKey: string;
+  apiKey: string; // OpenRouter API key (built-in provider)
   selectedModelIds: string[];
   perModelParameters: Record<string, Record<string, ModelParameterValue>>;
   modelParamSchema: Record<string, Record<string, ModelParamSpec>>;
+  providers: ProviderConfig[]; // Additional (non-OpenRouter) providers
+  modelProviderIds: Record<string, string>; // modelId -> provider id (defaults to OpenRouter)
+  judge?: JudgeSettings;
+  budget?: BudgetSettings;
+  scheduler?: SchedulerSettings;
   storeVersion?: number;
 }
 
+export interface SchedulerSettings {
+  maxConcurrent: number; // Completions in flight across all providers
+  perProvider: Record<string, number>; // provider id -> limit; unset = only the global one
+}
+
+export interface BudgetSettings {
+  sessionCapUsd: number | null; // Max spend per session, null = no cap
+  dailyCapUsd: number | null; // Max spend per local calendar day
+}
+
+export interface JudgeSettings {
+  modelId: string; // Vision-capable model that scores outputs
+  rubric: string; // Scoring instructions; the JSON reply format is appended
+  autoScore: boolean; // Score every finished output image automatically
+}
+
 export interface ModelParamSpec {
   label: string;
   type: "number" | "string" | "boolean" | "enum";
@@ -95,10 +290,21 @@ export interface DefaultEntry {
   imageAspectRatioSet: boolean; // Whether imageAspectRatio is set
   imageSize?: GeminiImageSize; // Gemini image size hint (only sent if set)
   imageSizeSet: boolean; // Whether imageSize is set
+  retryPolicy?: RetryPolicy; // Retries for failed requests (only applied if set)
+  retryPolicySet: boolean; // Whether retryPolicy is set
   createdAt: number;
   updatedAt: number;
 }
 
+export interface RetryPolicy {
+  maxAttempts: number; // Including the first request
+  baseDelayMs: number; // Backoff ceiling for the first retry, doubled per retry
+  maxDelayMs: number; // Upper bound of the backoff ceiling
+  retryKinds: ErrorKind[]; // Failures worth another attempt
+  fallbackModels?: string[]; // Sent as OpenRouter `models` after the primary model
+  providerOrder?: string[]; // Sent as OpenRouter `provider.order`
+}
+
 export interface DefaultsState {
   entries: DefaultEntry[];
   commonDefaultId: string; // ID of the non-deletable "common default"